@@ -6,28 +6,59 @@
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/entities/systemform
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   makeStyles,
   tokens,
   Spinner,
   Button,
-  Input,
-  Field,
   Tab,
   TabList,
   TabValue,
+  MessageBar,
+  MessageBarBody,
+  MessageBarGroup,
 } from '@fluentui/react-components';
+import type { MessageBarIntent } from '@fluentui/react-components';
 import {
   ArrowLeft20Regular,
   Save20Regular,
   Dismiss20Regular,
 } from '@fluentui/react-icons';
 import { dataverseClient } from '../lib/dataverse-client';
-import { parseFormXml } from '../lib/form-utils';
-import { XrmApiImplementation, executeFormScript } from '../lib/xrm-api';
+import { metadataCache } from '../lib/metadata-cache';
+import { getAttributeControlKind } from '../lib/attribute-utils';
+import { getLookupValue } from '../lib/lookup-utils';
+import { AnnotatedRecord, ALL_ANNOTATIONS } from '../lib/annotated-record';
+import { getErrorMessage } from '../lib/dataverse-error';
+import {
+  parseFormXml,
+  parseFormParameters,
+  getFrameControlType,
+  getFrameControlUrl,
+  isSubgridControl,
+  isQuickViewControl,
+} from '../lib/form-utils';
+import { SYSTEM_FORM_TYPE } from '../lib/system-forms';
+import { XrmApiImplementation } from '../lib/xrm-api';
+import { FormScriptSandbox } from '../lib/script-sandbox';
+import { webResourceLoader } from '../lib/webresource-loader';
+import type { XrmFormNotificationLevel } from '../lib/xrm-api-types';
 import AuditRecordView from './AuditRecordView';
-import type { EntityRecord, SystemForm, FormDefinition, WebResource } from '../types/dataverse';
+import FormFieldControl from './FormFieldControl';
+import ErrorDialog from './ErrorDialog';
+import WebResourceFrame from './WebResourceFrame';
+import SubgridControl from './SubgridControl';
+import QuickViewForm from './QuickViewForm';
+import type {
+  EntityRecord,
+  SystemForm,
+  FormDefinition,
+  FormTab,
+  FormSection,
+  FormControl,
+  AttributeMetadata,
+} from '../types/dataverse';
 
 const useStyles = makeStyles({
   container: {
@@ -69,6 +100,11 @@ const useStyles = makeStyles({
   tabList: {
     marginBottom: '24px',
   },
+  notifications: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
   section: {
     marginBottom: '32px',
   },
@@ -84,27 +120,56 @@ const useStyles = makeStyles({
     gap: '16px',
     marginBottom: '12px',
   },
-  field: {
-    width: '100%',
+  fullWidthControl: {
+    gridColumn: '1 / -1',
   },
 });
 
+// Height of web resource and IFRAME controls whose parameters do not set one, in pixels
+const DEFAULT_FRAME_HEIGHT = 300;
+
 interface EntityFormProps {
   entityName: string;
   entityPluralName: string;
   recordId?: string; // Undefined for new records
   displayName?: string;
+  primaryIdAttribute: string;
+  primaryNameAttribute?: string;
+  objectTypeCode?: number;
   appModuleId?: string;
+  formType?: number; // Type of the form to open, such as a quick create form; defaults to the main form
+  formParameters?: string; // Column values for a new record, in the format of the extraqs parameter
   onClose?: () => void;
   onSave?: (recordId: string) => void;
 }
 
+// MessageBar intent for each setFormNotification level
+const FORM_NOTIFICATION_INTENTS: Record<XrmFormNotificationLevel, MessageBarIntent> = {
+  ERROR: 'error',
+  WARNING: 'warning',
+  INFO: 'info',
+};
+
+function getTabName(tab: FormTab): string {
+  return tab.name || tab.id;
+}
+
+// Frames, subgrids and quick view forms take the whole width of their row
+function isFullWidthControl(control: FormControl): boolean {
+  return !!getFrameControlType(control) || isSubgridControl(control) || isQuickViewControl(control);
+}
+
 export default function EntityForm({
   entityName,
   entityPluralName,
   recordId,
   displayName,
+  primaryIdAttribute,
+  primaryNameAttribute,
+  objectTypeCode,
   appModuleId,
+  formType = SYSTEM_FORM_TYPE.Main,
+  formParameters,
   onClose,
   onSave,
 }: EntityFormProps) {
@@ -112,31 +177,58 @@ export default function EntityForm({
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<unknown>(null);
   const [form, setForm] = useState<SystemForm | null>(null);
   const [formDefinition, setFormDefinition] = useState<FormDefinition | null>(null);
   const [record, setRecord] = useState<EntityRecord>({});
+  const [attributes, setAttributes] = useState<Map<string, AttributeMetadata>>(new Map());
+  const [changedFields, setChangedFields] = useState<Set<string>>(new Set());
   const [selectedTab, setSelectedTab] = useState<TabValue>('');
   const [isDirty, setIsDirty] = useState(false);
   const [xrmApi, setXrmApi] = useState<any>(null);
+  const [xrmImplementation, setXrmImplementation] = useState<XrmApiImplementation | null>(null);
+  // Event handlers read the Xrm API from a ref so edits made right after it is created reach it
+  const xrmImplementationRef = useRef<XrmApiImplementation | null>(null);
+  const scriptSandboxRef = useRef<FormScriptSandbox | null>(null);
+  const [, setControlStateVersion] = useState(0);
   const [scriptsLoaded, setScriptsLoaded] = useState(false);
 
   useEffect(() => {
     loadFormAndRecord();
-  }, [entityName, recordId]);
+  }, [entityName, recordId, formType, formParameters]);
 
-  // Initialize Xrm API and load scripts when form is loaded
+  // Initialize Xrm API and load scripts when form, record and column metadata are loaded
   useEffect(() => {
-    if (formDefinition && !scriptsLoaded) {
+    if (!loading && formDefinition && !scriptsLoaded) {
       initializeXrmApi();
     }
-  }, [formDefinition, record]);
+  }, [loading, formDefinition, record]);
+
+  // Remove the script sandbox of the form when the form closes
+  useEffect(() => () => scriptSandboxRef.current?.dispose(), []);
+
+  // Re-render when scripts change control state, such as hiding a control or setting a notification
+  useEffect(() => {
+    if (!xrmImplementation) {
+      return;
+    }
+    return xrmImplementation.subscribe(() => {
+      setControlStateVersion(version => version + 1);
+      syncRecordFromXrm(xrmImplementation);
+    });
+  }, [xrmImplementation]);
 
   const initializeXrmApi = async () => {
     try {
       // Create Xrm API instance
       const xrmApiImpl = new XrmApiImplementation(
-        entityName,
-        entityPluralName,
+        {
+          logicalName: entityName,
+          entitySetName: entityPluralName,
+          primaryIdAttribute,
+          primaryNameAttribute,
+          objectTypeCode,
+        },
         record,
         (savedRecordId) => {
           if (onSave) {
@@ -145,15 +237,41 @@ export default function EntityForm({
         }
       );
 
-      // Register attributes from form
+      // Register tabs, sections, attributes and controls from form
       if (formDefinition) {
         formDefinition.tabs.forEach(tab => {
+          xrmApiImpl.registerTab(tab);
           tab.sections.forEach(section => {
             section.rows.forEach(row => {
               row.cells.forEach(cell => {
-                if (cell.control?.datafieldname) {
-                  xrmApiImpl.registerAttribute(cell.control.datafieldname);
-                  xrmApiImpl.registerControl(cell.control.id, cell.control.datafieldname);
+                if (cell.control && isQuickViewControl(cell.control)) {
+                  // The control shows the record of its lookup column, but the column is not a value of the control
+                  xrmApiImpl.registerControl(cell.control.id, undefined, {
+                    label: getControlLabel(cell.control),
+                    classid: cell.control.classid,
+                  });
+                } else if (cell.control?.datafieldname) {
+                  xrmApiImpl.registerAttribute(cell.control.datafieldname, attributes.get(cell.control.datafieldname));
+                  xrmApiImpl.registerControl(cell.control.id, cell.control.datafieldname, {
+                    label: getControlLabel(cell.control),
+                    disabled: cell.control.disabled,
+                    classid: cell.control.classid,
+                  });
+                } else if (cell.control && getFrameControlType(cell.control)) {
+                  xrmApiImpl.registerControl(cell.control.id, undefined, {
+                    label: getControlLabel(cell.control),
+                    classid: cell.control.classid,
+                    src: getFrameControlUrl(cell.control, xrmApiImpl.getPassParameters()) || '',
+                  });
+                } else if (cell.control && isSubgridControl(cell.control)) {
+                  xrmApiImpl.registerControl(cell.control.id, undefined, {
+                    label: getControlLabel(cell.control),
+                    classid: cell.control.classid,
+                    grid: {
+                      entityName: cell.control.parameters!.targetEntityType!,
+                      relationshipName: cell.control.parameters!.relationshipName,
+                    },
+                  });
                 }
               });
             });
@@ -161,18 +279,41 @@ export default function EntityForm({
         });
       }
 
+      // Keep values the user changed before the Xrm API was ready, and values passed to a new record
+      // Values of columns that are not on the form are registered so they are saved too
+      changedFields.forEach(fieldName => {
+        xrmApiImpl.registerAttribute(fieldName, attributes.get(fieldName));
+        xrmApiImpl.setAttributeValue(fieldName, record[fieldName]);
+      });
+
+      xrmApiImpl.setFocusHandler(focusControl);
+      xrmApiImpl.setTabSelectHandler((tabName) => {
+        const tab = formDefinition?.tabs.find(t => getTabName(t) === tabName);
+        if (tab) {
+          setSelectedTab(tab.id);
+        }
+      });
+      xrmImplementationRef.current = xrmApiImpl;
+      setXrmImplementation(xrmApiImpl);
+
       const api = xrmApiImpl.createXrmApi();
       setXrmApi(api);
 
+      // Form libraries run in a sandbox of their own, where event handler functions are looked up
+      const sandbox = new FormScriptSandbox(api);
+      scriptSandboxRef.current?.dispose();
+      scriptSandboxRef.current = sandbox;
+      xrmApiImpl.setFunctionResolver(functionName => sandbox.resolveFunction(functionName));
+
       // Load and execute form libraries (scripts)
       if (formDefinition?.formLibraries && formDefinition.formLibraries.length > 0) {
-        await loadFormScripts(formDefinition, api);
+        await loadFormScripts(formDefinition, sandbox);
       }
 
       // Execute OnLoad events
-      if (formDefinition?.events) {
-        executeFormEvents(formDefinition.events.filter(e => e.name === 'onload'), api);
-      }
+      xrmApiImpl.setFormEvents(formDefinition?.events || []);
+      await xrmApiImpl.fireOnLoad();
+      syncRecordFromXrm(xrmApiImpl);
 
       setScriptsLoaded(true);
     } catch (error) {
@@ -180,34 +321,34 @@ export default function EntityForm({
     }
   };
 
-  const loadFormScripts = async (formDef: FormDefinition, api: any) => {
+  /**
+   * Move the focus to a control, selecting its tab first
+   */
+  const focusControl = (controlName: string) => {
+    const tab = formDefinition?.tabs.find(t => t.sections.some(section =>
+      section.rows.some(row => row.cells.some(cell => cell.control?.id === controlName))
+    ));
+    if (tab) {
+      setSelectedTab(tab.id);
+    }
+    // Wait for the selected tab to render
+    setTimeout(() => {
+      const container = document.querySelector(`[data-control-name="${controlName}"]`);
+      container?.querySelector<HTMLElement>('input, textarea, button, [tabindex]')?.focus();
+    }, 0);
+  };
+
+  const loadFormScripts = async (formDef: FormDefinition, sandbox: FormScriptSandbox) => {
     try {
-      // Load all webresources referenced in the form
-      for (const library of formDef.formLibraries) {
+      // Fetch the libraries of the form with their dependencies, dependencies first
+      const scripts = await webResourceLoader.loadScripts(formDef.formLibraries.map(library => library.name));
+      for (const script of scripts) {
         try {
-          // Fetch the webresource
-          const webResourceResponse = await dataverseClient.fetchEntities('webresources', {
-            filter: `name eq '${library.name}'`,
-            select: ['webresourceid', 'name', 'content', 'webresourcetype'],
-            top: 1,
-          });
-
-          if (webResourceResponse.value.length > 0) {
-            const webResource = webResourceResponse.value[0] as WebResource;
-            
-            // Only load JavaScript webresources (type 3)
-            if (webResource.webresourcetype === 3 && webResource.content) {
-              // Decode base64 content
-              const scriptContent = atob(webResource.content);
-              
-              // Execute the script to load functions into global scope
-              await executeFormScript(scriptContent, api);
-              
-              console.log(`Loaded form script: ${library.name}`);
-            }
-          }
+          // Execute the script to declare its functions in the sandbox
+          sandbox.run(script.source);
+          console.log(`Loaded form script: ${script.name}`);
         } catch (err) {
-          console.warn(`Failed to load webresource ${library.name}:`, err);
+          console.warn(`Failed to load webresource ${script.name}:`, err);
         }
       }
     } catch (error) {
@@ -215,40 +356,20 @@ export default function EntityForm({
     }
   };
 
-  const executeFormEvents = (events: any[], api: any) => {
-    events.forEach(event => {
-      if (event.active && event.functionName) {
-        try {
-          // Get the function from global scope
-          const func = (window as any)[event.functionName];
-          if (typeof func === 'function') {
-            // Create execution context
-            const executionContext = {
-              getFormContext: () => api.Page,
-              getEventSource: () => null,
-              getDepth: () => 1,
-            };
-            
-            // Call the function with execution context
-            func(executionContext);
-          } else {
-            console.warn(`Function ${event.functionName} not found for event ${event.name}`);
-          }
-        } catch (err) {
-          console.error(`Error executing ${event.name} event handler ${event.functionName}:`, err);
-        }
-      }
-    });
-  };
-
   const loadFormAndRecord = async () => {
     setLoading(true);
     setError(null);
 
     try {
+      // Load column metadata for type-aware controls; forms still render as text inputs without it
+      const attributesPromise = metadataCache.getAttributes(entityName).catch((err) => {
+        console.warn(`Failed to load attribute metadata for ${entityName}:`, err);
+        return new Map<string, AttributeMetadata>();
+      });
+
       // Load form definition
       // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/entities/systemform
-      let filter = `objecttypecode eq '${entityName}' and type eq 2`; // type 2 = Main form
+      let filter = `objecttypecode eq '${entityName}' and type eq ${formType}`;
 
       // If appModuleId is provided, try to filter by forms in the app
       if (appModuleId) {
@@ -291,61 +412,88 @@ export default function EntityForm({
         setFormDefinition(parsedForm);
 
         // Set initial tab
-        if (parsedForm.tabs.length > 0) {
-          setSelectedTab(parsedForm.tabs[0].id);
+        const firstTab = parsedForm.tabs.find(tab => tab.visible) || parsedForm.tabs[0];
+        if (firstTab) {
+          setSelectedTab(firstTab.id);
         }
       }
 
       // Load record if recordId is provided
       if (recordId) {
         const recordResponse = await dataverseClient.fetchEntities(entityPluralName, {
-          filter: `${entityName}id eq ${recordId}`,
+          filter: `${primaryIdAttribute} eq ${recordId}`,
           top: 1,
+          includeAnnotations: ALL_ANNOTATIONS,
         });
 
         if (recordResponse.value.length > 0) {
           setRecord(recordResponse.value[0]);
         }
       }
+
+      const loadedAttributes = await attributesPromise;
+      setAttributes(loadedAttributes);
+      if (recordId) {
+        setChangedFields(new Set());
+      } else {
+        // A new record starts with the values passed to the form, e.g. the lookup to the record of a subgrid
+        const defaults = parseFormParameters(formParameters, loadedAttributes);
+        setRecord(defaults);
+        setChangedFields(new Set(Object.keys(defaults)));
+        setIsDirty(Object.keys(defaults).length > 0);
+      }
     } catch (err) {
       console.error('Error loading form:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load form');
+      setError(getErrorMessage(err, 'Failed to load form'));
     } finally {
       setLoading(false);
     }
   };
 
   const handleFieldChange = (fieldName: string, value: any) => {
+    const xrmApiImpl = xrmImplementationRef.current;
+    if (xrmApiImpl) {
+      // Edits fire the OnChange handlers of the column, which may change other values
+      xrmApiImpl.changeAttributeValue(fieldName, value);
+      syncRecordFromXrm(xrmApiImpl);
+      return;
+    }
+
     setRecord((prev) => ({
       ...prev,
       [fieldName]: value,
     }));
+    setChangedFields((prev) => new Set(prev).add(fieldName));
     setIsDirty(true);
   };
 
+  /**
+   * Show the values held by the Xrm API, which scripts and saves change
+   */
+  const syncRecordFromXrm = (xrmApiImpl: XrmApiImplementation) => {
+    const dirtyAttributes = xrmApiImpl.getDirtyAttributeNames();
+    setRecord(xrmApiImpl.getRecordData());
+    setChangedFields(new Set(dirtyAttributes));
+    setIsDirty(dirtyAttributes.length > 0);
+  };
+
   const handleSave = async () => {
+    const xrmApiImpl = xrmImplementationRef.current;
+    if (!xrmApiImpl) {
+      // Saves run the OnSave handlers of the form, so the record is not saved before the Xrm API is ready
+      setSaveError(new Error('The form is still loading. Save again once it has loaded.'));
+      return;
+    }
+
     setSaving(true);
-    setError(null);
+    setSaveError(null);
 
     try {
-      let savedRecordId = recordId;
-
-      if (recordId) {
-        // Update existing record
-        await dataverseClient.updateEntity(entityPluralName, recordId, record);
-      } else {
-        // Create new record
-        savedRecordId = await dataverseClient.createEntity(entityPluralName, record);
-      }
-
-      setIsDirty(false);
-
-      if (onSave && savedRecordId) {
-        onSave(savedRecordId);
-      }
+      // OnSave handlers can cancel the save; onSave is called by the Xrm API once the record is saved
+      await xrmApiImpl.save();
     } catch (err) {
-      console.error('Error saving record:', err);
-      setError(err instanceof Error ? err.message : 'Failed to save record');
+      // Keep the form and its unsaved changes; the error is shown in a dialog
+      setSaveError(err);
     } finally {
       setSaving(false);
     }
@@ -353,52 +501,163 @@ export default function EntityForm({
 
   const handleTabSelect = (_event: any, data: any) => {
     setSelectedTab(data.value);
+    // Selecting a tab runs its TabStateChange handlers
+    const tab = formDefinition?.tabs.find(t => t.id === data.value);
+    if (tab) {
+      xrmImplementation?.selectTab(getTabName(tab));
+    }
+  };
+
+  // Scripts can hide or relabel tabs and sections after the form definition was read
+  const getTabState = (tab: FormTab) => ({
+    visible: tab.visible,
+    label: tab.label,
+    ...xrmImplementation?.getTabState(getTabName(tab)),
+  });
+
+  const getSectionState = (tab: FormTab, section: FormSection) => ({
+    visible: section.visible,
+    label: section.label,
+    ...xrmImplementation?.getSectionState(getTabName(tab), section.name || section.id),
+  });
+
+  const getControlLabel = (control: FormControl): string => {
+    const fieldName = control.datafieldname || control.id;
+    return control.label || attributes.get(fieldName)?.DisplayName?.UserLocalizedLabel?.Label || fieldName;
+  };
+
+  /**
+   * Web resource or IFRAME control; it is shown once the Xrm API is ready so scripts can reach its window
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/use-iframe-and-web-resource-controls-on-a-form
+   */
+  const renderFrameControl = (control: FormControl) => {
+    const controlState = xrmImplementation?.getControlState(control.id);
+    if (!xrmImplementation || !controlState?.visible || !controlState.src) {
+      return null;
+    }
+
+    return (
+      <div style={{ height: control.parameters?.height ?? DEFAULT_FRAME_HEIGHT }}>
+        <WebResourceFrame
+          url={controlState.src}
+          title={controlState.label}
+          bordered={control.parameters?.border}
+          scrolling={control.parameters?.scrolling}
+          frameRef={(frame) => xrmImplementation.attachControlFrame(control.id, frame)}
+        />
+      </div>
+    );
+  };
+
+  /**
+   * Subgrid control; like frames it is shown once the Xrm API is ready, so each load reaches the grid control
+   */
+  const renderSubgridControl = (control: FormControl) => {
+    const controlState = xrmImplementation?.getControlState(control.id);
+    if (!xrmImplementation || !controlState?.visible) {
+      return null;
+    }
+
+    return (
+      <SubgridControl
+        control={control}
+        label={controlState.label}
+        entityName={entityName}
+        recordId={record[primaryIdAttribute] || recordId}
+        recordName={primaryNameAttribute ? record[primaryNameAttribute] : undefined}
+        refreshCount={controlState.refreshCount}
+        onRecordsLoaded={(records, totalCount) => xrmImplementation.setGridRecords(control.id, records, totalCount)}
+        onSelectionChange={(recordIds) => xrmImplementation.setGridSelection(control.id, recordIds)}
+        onRelationshipResolved={(relationshipType) => xrmImplementation.setGridRelationshipType(control.id, relationshipType)}
+      />
+    );
+  };
+
+  /**
+   * Quick view control, showing the record its lookup column refers to
+   */
+  const renderQuickViewControl = (control: FormControl) => {
+    const controlState = xrmImplementation?.getControlState(control.id);
+    if (controlState && !controlState.visible) {
+      return null;
+    }
+
+    const fieldName = control.datafieldname!;
+    return (
+      <QuickViewForm
+        control={control}
+        label={controlState?.label || getControlLabel(control)}
+        value={getLookupValue(record, fieldName, attributes.get(fieldName))}
+      />
+    );
   };
 
   const renderControl = (control: any) => {
+    if (control && getFrameControlType(control)) {
+      return renderFrameControl(control);
+    }
+    if (control && isSubgridControl(control)) {
+      return renderSubgridControl(control);
+    }
+    if (control && isQuickViewControl(control)) {
+      return renderQuickViewControl(control);
+    }
     if (!control || !control.datafieldname) {
       return null;
     }
 
-    const fieldName = control.datafieldname;
-    const value = record[fieldName] || '';
+    // Scripts can change the state of the control after the form definition was read
+    const controlState = xrmImplementation?.getControlState(control.id);
+    if (controlState && !controlState.visible) {
+      return null;
+    }
 
-    // Map class IDs to control types
-    // Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/getcontroltype
-    // Common class IDs:
-    // {270BD3DB-D9AF-4782-9025-509E298DEC0A} = Text input
-    // {533B9E00-756B-4312-95A0-DC888637AC78} = Money
-    // {C3EFE0C3-0EC6-42BE-8349-CBD9079DFD8E} = Whole number
-    // {5B773807-9FB2-42DB-97C3-7A91EFF8ADFF} = Date picker
+    const fieldName = control.datafieldname;
+    const attribute = attributes.get(fieldName);
+    const value = getAttributeControlKind(attribute) === 'lookup'
+      ? getLookupValue(record, fieldName, attribute)
+      : record[fieldName];
+    // The formatted value describes the retrieved value, so it no longer applies once the field is edited
+    const formattedValue = changedFields.has(fieldName)
+      ? undefined
+      : new AnnotatedRecord(record).getFormattedValue(fieldName);
 
     return (
-      <Field
+      <FormFieldControl
         key={control.id}
-        label={control.label || fieldName}
-        className={styles.field}
-      >
-        <Input
-          value={String(value)}
-          onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-          disabled={control.disabled}
-        />
-      </Field>
+        fieldName={fieldName}
+        label={controlState?.label || getControlLabel(control)}
+        classid={control.classid}
+        value={value}
+        formattedValue={formattedValue}
+        attribute={attribute}
+        disabled={controlState ? controlState.disabled : control.disabled}
+        notifications={controlState?.notifications}
+        onChange={(newValue) => handleFieldChange(fieldName, newValue)}
+      />
     );
   };
 
-  const renderSection = (section: any) => {
-    if (!section.visible) {
+  const renderSection = (tab: FormTab, section: FormSection) => {
+    const sectionState = getSectionState(tab, section);
+    if (!sectionState.visible) {
       return null;
     }
 
     return (
       <div key={section.id} className={styles.section}>
-        <div className={styles.sectionTitle}>{section.label}</div>
+        <div className={styles.sectionTitle}>{sectionState.label}</div>
         {section.rows.map((row: any, rowIndex: number) => (
           <div key={rowIndex} className={styles.formRow}>
             {row.cells.map((cell: any, cellIndex: number) =>
               cell.control ? (
-                <div key={cellIndex}>{renderControl(cell.control)}</div>
+                <div
+                  key={cellIndex}
+                  data-control-name={cell.control.id}
+                  className={isFullWidthControl(cell.control) ? styles.fullWidthControl : undefined}
+                >
+                  {renderControl(cell.control)}
+                </div>
               ) : (
                 <div key={cellIndex} />
               )
@@ -409,14 +668,14 @@ export default function EntityForm({
     );
   };
 
-  const renderTab = (tab: any) => {
-    if (!tab.visible) {
+  const renderTab = (tab: FormTab) => {
+    if (!getTabState(tab).visible) {
       return null;
     }
 
     return (
       <div key={tab.id}>
-        {tab.sections.map((section: any) => renderSection(section))}
+        {tab.sections.map((section) => renderSection(tab, section))}
       </div>
     );
   };
@@ -473,8 +732,12 @@ export default function EntityForm({
     );
   }
 
-  const visibleTabs = formDefinition.tabs.filter((tab) => tab.visible);
-  const currentTab = visibleTabs.find((tab) => tab.id === selectedTab);
+  const formNotifications = xrmImplementation?.getFormNotifications() || [];
+  // A quick create form opens in a panel, which the Close button dismisses
+  const isQuickCreate = formType === SYSTEM_FORM_TYPE.QuickCreate;
+  const visibleTabs = formDefinition.tabs.filter((tab) => getTabState(tab).visible);
+  // When a script hides the selected tab the first visible tab is shown instead
+  const currentTab = visibleTabs.find((tab) => tab.id === selectedTab) || visibleTabs[0];
 
   // Add audit history tab for existing records
   const hasAuditTab = recordId !== undefined;
@@ -483,21 +746,25 @@ export default function EntityForm({
   return (
     <div className={styles.container}>
       <div className={styles.header}>
-        <Button
-          appearance="subtle"
-          icon={<ArrowLeft20Regular />}
-          onClick={onClose}
-        >
-          Back
-        </Button>
+        {!isQuickCreate && (
+          <Button
+            appearance="subtle"
+            icon={<ArrowLeft20Regular />}
+            onClick={onClose}
+          >
+            Back
+          </Button>
+        )}
         <div className={styles.title}>
-          {displayName || entityName} - {recordId ? 'Edit' : 'New'}
+          {isQuickCreate
+            ? `Quick Create: ${displayName || entityName}`
+            : `${displayName || entityName} - ${recordId ? 'Edit' : 'New'}`}
         </div>
         <Button
           appearance="primary"
           icon={<Save20Regular />}
           onClick={handleSave}
-          disabled={!isDirty || saving}
+          disabled={!isDirty || saving || !xrmImplementation}
         >
           {saving ? 'Saving...' : 'Save'}
         </Button>
@@ -509,16 +776,25 @@ export default function EntityForm({
           Close
         </Button>
       </div>
+      {formNotifications.length > 0 && (
+        <MessageBarGroup className={styles.notifications}>
+          {formNotifications.map(notification => (
+            <MessageBar key={notification.uniqueId} intent={FORM_NOTIFICATION_INTENTS[notification.level]}>
+              <MessageBarBody>{notification.message}</MessageBarBody>
+            </MessageBar>
+          ))}
+        </MessageBarGroup>
+      )}
       <div className={styles.content}>
         {(visibleTabs.length > 1 || hasAuditTab) && (
           <TabList
-            selectedValue={selectedTab}
+            selectedValue={selectedTab === AUDIT_TAB_ID ? selectedTab : currentTab?.id}
             onTabSelect={handleTabSelect}
             className={styles.tabList}
           >
             {visibleTabs.map((tab) => (
               <Tab key={tab.id} value={tab.id}>
-                {tab.label}
+                {getTabState(tab).label}
               </Tab>
             ))}
             {hasAuditTab && (
@@ -534,6 +810,7 @@ export default function EntityForm({
           currentTab && renderTab(currentTab)
         )}
       </div>
+      <ErrorDialog error={saveError} onDismiss={() => setSaveError(null)} />
     </div>
   );
 }
@@ -8,6 +8,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import type { MouseEvent } from 'react';
 import {
   makeStyles,
   tokens,
@@ -27,14 +28,38 @@ import {
   Caption1,
   Dropdown,
   Option,
+  MessageBar,
+  MessageBarBody,
+  MessageBarTitle,
+  Dialog,
+  DialogSurface,
+  DialogBody,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
 } from '@fluentui/react-components';
+import type { TableRowId } from '@fluentui/react-components';
 import {
   ArrowSyncCircle20Regular,
   Filter20Regular,
   Add20Regular,
+  Delete20Regular,
+  ArrowPrevious20Regular,
+  ArrowNext20Regular,
+  ChevronLeft20Regular,
+  ChevronRight20Regular,
+  Link20Regular,
 } from '@fluentui/react-icons';
 import { dataverseClient } from '../lib/dataverse-client';
-import type { EntityRecord, SavedQuery, ViewColumn } from '../types/dataverse';
+import { translateFetchXml, addFetchXmlCondition } from '../lib/fetchxml';
+import { loadFetchXmlTranslationOptions } from '../lib/fetchxml-metadata';
+import { metadataCache } from '../lib/metadata-cache';
+import { getAttributeControlKind } from '../lib/attribute-utils';
+import { AnnotatedRecord, ALL_ANNOTATIONS } from '../lib/annotated-record';
+import { DataverseApiError, getErrorMessage } from '../lib/dataverse-error';
+import ErrorDialog from './ErrorDialog';
+import type { FetchXmlTranslation, FetchXmlDiagnostic, FetchAliasMapping, FetchXmlConditionInput } from '../lib/fetchxml';
+import type { EntityRecord, ODataResponse, SavedQuery, ViewColumn, AttributeMetadata } from '../types/dataverse';
 
 const useStyles = makeStyles({
   container: {
@@ -61,6 +86,9 @@ const useStyles = makeStyles({
   viewSwitcher: {
     minWidth: '200px',
   },
+  executionModeSwitcher: {
+    minWidth: '160px',
+  },
   toolbar: {
     marginBottom: '8px',
   },
@@ -87,35 +115,120 @@ const useStyles = makeStyles({
   dataGrid: {
     minWidth: '100%',
   },
-  recordCount: {
+  diagnostics: {
+    marginBottom: '12px',
+  },
+  pagingBar: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     marginTop: '12px',
+  },
+  pagingControls: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  pageSizeSwitcher: {
+    minWidth: '80px',
+  },
+  recordCount: {
     color: tokens.colorNeutralForeground3,
   },
 });
 
+/**
+ * How a view's FetchXML is executed
+ * - odata: translated client-side to $filter/$orderby/$expand
+ * - fetchxml: sent to the server unchanged through the fetchXml query parameter
+ */
+type ViewExecutionMode = 'odata' | 'fetchxml';
+
+const EXECUTION_MODE_LABELS: Record<ViewExecutionMode, string> = {
+  odata: 'Translated OData',
+  fetchxml: 'Server FetchXML',
+};
+
+const PAGE_SIZES = [25, 50, 100, 250];
+const DEFAULT_PAGE_SIZE = 50;
+
+// Upper bound when walking nextLinks to reach the last page
+const MAX_PAGES_TO_LAST = 200;
+
+// Row id prefix of records returned without their primary id, such as rows of aggregate views
+const UNKEYED_ROW_ID_PREFIX = '__unkeyed__:';
+
+/**
+ * Where to continue from when loading a page
+ */
+interface PageCursor {
+  nextLink?: string;
+  pagingCookie?: string;
+}
+
+interface PageResult {
+  records: EntityRecord[];
+  nextCursor?: PageCursor;
+  totalCount?: number;
+  aliases: FetchAliasMapping[];
+  diagnostics: FetchXmlDiagnostic[];
+}
+
 interface EntityListViewProps {
   entityName: string;
   entityPluralName: string;
   displayName?: string;
+  primaryIdAttribute: string;
   appModuleId?: string;
   initialViewId?: string;
+  initialPageSize?: number;
+  /** Condition every view is restricted by, such as the lookup to the form record of a subgrid */
+  relatedRecordFilter?: FetchXmlConditionInput;
+  /** Replaces opening a new record form through the URL */
+  onNew?: () => void;
+  /** Shows an Add Existing command */
+  onAddExisting?: () => void;
+  onRecordsLoaded?: (records: EntityRecord[], totalCount?: number) => void;
+  onSelectionChange?: (recordIds: string[]) => void;
+  /** Records are loaded again each time the key changes */
+  refreshKey?: number;
 }
 
 export default function EntityListView({
   entityName,
   entityPluralName,
   displayName,
+  primaryIdAttribute,
   appModuleId,
   initialViewId,
+  initialPageSize,
+  relatedRecordFilter,
+  onNew,
+  onAddExisting,
+  onRecordsLoaded,
+  onSelectionChange,
+  refreshKey,
 }: EntityListViewProps) {
   const styles = useStyles();
   const [records, setRecords] = useState<EntityRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorCause, setErrorCause] = useState<unknown>(null);
+  const [showErrorDetails, setShowErrorDetails] = useState(false);
   const [columns, setColumns] = useState<TableColumnDefinition<EntityRecord>[]>([]);
   const [views, setViews] = useState<SavedQuery[]>([]);
   const [selectedViewId, setSelectedViewId] = useState<string | null>(initialViewId || null);
   const [viewsLoading, setViewsLoading] = useState(true);
+  const [diagnostics, setDiagnostics] = useState<FetchXmlDiagnostic[]>([]);
+  const [executionModes, setExecutionModes] = useState<Record<string, ViewExecutionMode>>({});
+  const [pageSize, setPageSize] = useState<number>(initialPageSize || DEFAULT_PAGE_SIZE);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageCursors, setPageCursors] = useState<PageCursor[]>([{}]);
+  const [totalCount, setTotalCount] = useState<number | undefined>(undefined);
+  const [selectedRows, setSelectedRows] = useState<Set<TableRowId>>(new Set());
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<unknown>(null);
 
   // Load available views for this entity
   useEffect(() => {
@@ -130,7 +243,14 @@ export default function EntityListView({
     if (selectedViewId) {
       loadRecords();
     }
-  }, [selectedViewId, entityPluralName]);
+  }, [selectedViewId, entityPluralName, executionModes, pageSize]);
+
+  // Reload the current page when the owner of the list asks for it
+  useEffect(() => {
+    if (refreshKey && selectedViewId) {
+      loadRecords(pageIndex, pageCursors);
+    }
+  }, [refreshKey]);
 
   const loadViews = async () => {
     setViewsLoading(true);
@@ -196,63 +316,161 @@ export default function EntityListView({
     }
   };
 
-  const loadRecords = async () => {
-    setLoading(true);
-    setError(null);
+  /**
+   * FetchXML of a view with the related record condition added; without FetchXML the condition is the whole query
+   */
+  const getViewFetchXml = (view: SavedQuery | undefined): string | undefined => {
+    if (!relatedRecordFilter) {
+      return view?.fetchxml;
+    }
+    return addFetchXmlCondition(view?.fetchxml || `<fetch><entity name="${entityName}" /></fetch>`, relatedRecordFilter);
+  };
+
+  /**
+   * Fetch one page of the selected view
+   * The first page runs the view query; later pages follow the cursor returned by the previous page:
+   * @odata.nextLink for translated OData, the paging cookie for server FetchXML.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/page-results
+   */
+  const fetchPage = async (
+    selectedView: SavedQuery | undefined,
+    viewColumns: string[],
+    index: number,
+    cursors: PageCursor[]
+  ): Promise<PageResult> => {
+    const executionMode = (selectedViewId && executionModes[selectedViewId]) || 'odata';
+    const fetchXml = getViewFetchXml(selectedView);
     
-    try {
-      const selectedView = views.find(v => v.savedqueryid === selectedViewId);
-      
-      // Parse layoutxml to get columns
-      let viewColumns: string[] = [];
-      if (selectedView?.layoutxml) {
-        viewColumns = parseLayoutXml(selectedView.layoutxml);
-      }
-      
-      // Parse FetchXML to get filter and order
-      // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/use-fetchxml-construct-query
-      let filterConditions: string | undefined;
-      let orderBy: string | undefined;
-      
-      if (selectedView?.fetchxml) {
-        const fetchInfo = parseFetchXml(selectedView.fetchxml);
-        filterConditions = fetchInfo.filter;
-        orderBy = fetchInfo.orderby;
-      }
+    if (executionMode === 'fetchxml' && selectedView?.fetchxml && fetchXml) {
+      // Send the view's FetchXML to the server as-is
+      // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/retrieve-data?tabs=webapi
+      const response = await dataverseClient.fetchByFetchXml(entityPluralName, fetchXml, {
+        page: index + 1,
+        count: pageSize,
+        pagingCookie: cursors[index]?.pagingCookie,
+        returnTotalRecordCount: true,
+        includeAnnotations: ALL_ANNOTATIONS,
+      });
+      const totalCount = response['@Microsoft.Dynamics.CRM.totalrecordcount'];
       
+      return {
+        records: response.value,
+        nextCursor: response.moreRecords ? { pagingCookie: response.pagingCookie } : undefined,
+        totalCount: totalCount !== undefined && totalCount >= 0 ? totalCount : undefined,
+        aliases: [],
+        diagnostics: [],
+      };
+    }
+    
+    // Translate FetchXML to OData filter, order and expand
+    // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/overview
+    // Column metadata types filter literals and maps lookup columns to their _<name>_value properties
+    const attributes = await metadataCache.getAttributes(entityName).catch((err) => {
+      console.warn(`Failed to load attribute metadata for ${entityName}:`, err);
+      return new Map<string, AttributeMetadata>();
+    });
+    let translation: FetchXmlTranslation | null = null;
+    if (fetchXml) {
+      translation = translateFetchXml(fetchXml, await loadFetchXmlTranslationOptions(fetchXml));
+    }
+    const aliases = translation?.aliases || [];
+    const diagnostics = translation?.diagnostics || [];
+    
+    let response: ODataResponse<EntityRecord>;
+    const nextLink = cursors[index]?.nextLink;
+    if (index > 0 && nextLink) {
+      response = await dataverseClient.fetchNextLink(nextLink, { maxPageSize: pageSize, includeAnnotations: ALL_ANNOTATIONS });
+    } else {
       // Build query parameters
       const queryParams: any = {
-        top: 50,
         count: true,
+        maxPageSize: pageSize,
+        // Formatted values give choice labels, currency amounts, local dates and lookup names
+        includeAnnotations: ALL_ANNOTATIONS,
       };
       
+      // A view with top="n" returns at most n rows
+      if (translation?.odata.top !== undefined) {
+        queryParams.top = translation.odata.top;
+      }
+      
       // Use columns from view if available
-      if (viewColumns.length > 0) {
+      // Columns of link-entities (alias.column) come back through $expand
+      const rootColumns = viewColumns
+        .filter(column => !column.includes('.'))
+        .map(column => getAttributeControlKind(attributes.get(column)) === 'lookup' ? `_${column}_value` : column);
+      if (rootColumns.length > 0) {
         // Always include the primary ID field for row click navigation
-        const primaryIdField = entityName + 'id';
-        if (!viewColumns.includes(primaryIdField)) {
-          queryParams.select = [primaryIdField, ...viewColumns];
+        if (!rootColumns.includes(primaryIdAttribute)) {
+          queryParams.select = [primaryIdAttribute, ...rootColumns];
         } else {
-          queryParams.select = viewColumns;
+          queryParams.select = rootColumns;
         }
       }
       
-      // Apply filter from FetchXML
-      if (filterConditions) {
-        queryParams.filter = filterConditions;
+      if (translation?.odata.filter) {
+        queryParams.filter = translation.odata.filter;
       }
+      if (translation?.odata.orderby) {
+        queryParams.orderby = translation.odata.orderby;
+      }
+      if (translation?.odata.expand) {
+        queryParams.expand = translation.odata.expand;
+      }
+      
+      response = await dataverseClient.fetchEntities(entityPluralName, queryParams);
+    }
+    
+    return {
+      records: response.value,
+      nextCursor: response['@odata.nextLink'] ? { nextLink: response['@odata.nextLink'] } : undefined,
+      totalCount: response['@odata.count'] ?? (index === 0 ? undefined : totalCount),
+      aliases,
+      diagnostics,
+    };
+  };
+
+  /**
+   * Load a page of records
+   * With toLast the page cursors are followed until the server reports no more records.
+   */
+  const loadRecords = async (
+    index: number = 0,
+    cursors: PageCursor[] = [{}],
+    toLast: boolean = false
+  ) => {
+    setLoading(true);
+    setError(null);
+    setErrorCause(null);
+    
+    try {
+      const selectedView = views.find(v => v.savedqueryid === selectedViewId);
       
-      // Apply ordering from FetchXML
-      if (orderBy) {
-        queryParams.orderby = orderBy;
+      // Parse layoutxml to get columns
+      let viewColumns: string[] = [];
+      if (selectedView?.layoutxml) {
+        viewColumns = parseLayoutXml(selectedView.layoutxml);
       }
       
-      const response = await dataverseClient.fetchEntities(entityPluralName, queryParams);
+      let currentIndex = index;
+      let currentCursors = cursors.slice(0, index + 1);
+      let result = await fetchPage(selectedView, viewColumns, currentIndex, currentCursors);
+      while (toLast && result.nextCursor && currentIndex < MAX_PAGES_TO_LAST) {
+        currentCursors = [...currentCursors, result.nextCursor];
+        currentIndex++;
+        result = await fetchPage(selectedView, viewColumns, currentIndex, currentCursors);
+      }
       
-      setRecords(response.value);
+      setRecords(result.records);
+      setSelectedRows(new Set());
+      setDiagnostics(result.diagnostics);
+      setPageIndex(currentIndex);
+      setPageCursors(result.nextCursor ? [...currentCursors, result.nextCursor] : currentCursors);
+      setTotalCount(result.totalCount);
+      onRecordsLoaded?.(result.records, result.totalCount);
       
       // Generate columns from view layout or first record
-      if (response.value.length > 0) {
+      if (result.records.length > 0) {
         const cols: TableColumnDefinition<EntityRecord>[] = [];
         
         // Determine which keys to display
@@ -261,10 +479,11 @@ export default function EntityListView({
           displayKeys = viewColumns;
         } else {
           // Fallback: use keys from first record
-          const firstRecord = response.value[0];
-          const keys = Object.keys(firstRecord).filter(
-            key => !key.startsWith('@') && !key.startsWith('_')
-          );
+          const firstRecord = result.records[0];
+          // Lookup columns come back as _<name>_value and are shown under their column name
+          const keys = Object.keys(firstRecord)
+            .filter(key => !key.includes('@'))
+            .map(key => /^_.+_value$/.test(key) ? key.substring(1, key.length - '_value'.length) : key);
           displayKeys = keys.slice(0, 6);
         }
         
@@ -273,22 +492,16 @@ export default function EntityListView({
             createTableColumn<EntityRecord>({
               columnId: key,
               compare: (a, b) => {
-                const aVal = String(a[key] || '');
-                const bVal = String(b[key] || '');
-                return aVal.localeCompare(bVal);
-              },
-              renderHeaderCell: () => formatColumnName(key),
-              renderCell: (item) => {
-                const value = item[key];
-                if (value === null || value === undefined) return '';
-                if (typeof value === 'object') {
-                  // Handle EntityReference, Money, OptionSetValue
-                  if (value.Name) return value.Name;
-                  if (value.Value !== undefined) return String(value.Value);
-                  return JSON.stringify(value);
+                // Numbers and dates sort by value; everything else by the text shown in the cell
+                const aVal = getColumnValue(a, key, result.aliases).value;
+                const bVal = getColumnValue(b, key, result.aliases).value;
+                if (typeof aVal === 'number' && typeof bVal === 'number') {
+                  return aVal - bVal;
                 }
-                return String(value);
+                return getColumnText(a, key, result.aliases).localeCompare(getColumnText(b, key, result.aliases));
               },
+              renderHeaderCell: () => formatColumnName(key),
+              renderCell: (item) => getColumnText(item, key, result.aliases),
             })
           );
         });
@@ -296,13 +509,101 @@ export default function EntityListView({
         setColumns(cols);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load records');
+      setError(getErrorMessage(err, 'Failed to load records'));
+      setErrorCause(err);
       console.error('Error loading records:', err);
     } finally {
       setLoading(false);
     }
   };
 
+  /**
+   * Delete the selected records in one $batch request
+   * Each delete runs on its own so one failure does not stop the others; failures are reported afterwards.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/execute-batch-operations-using-web-api#handling-errors
+   */
+  const handleDeleteSelected = async () => {
+    setConfirmingDelete(false);
+    setDeleting(true);
+    
+    try {
+      const batch = dataverseClient.batch({ continueOnError: true });
+      Array.from(selectedRows).forEach(id => batch.delete(entityPluralName, String(id)));
+      const results = await batch.execute();
+      
+      const failed = results.filter(result => !result.ok);
+      if (failed.length > 0) {
+        setDeleteError(failed.length === 1 || !failed[0].error
+          ? failed[0].error || new Error('The record could not be deleted')
+          : new Error(`${failed.length} of ${results.length} records could not be deleted: ${failed[0].error.message}`));
+      }
+    } catch (err) {
+      console.error('Error deleting records:', err);
+      setDeleteError(err);
+    } finally {
+      setDeleting(false);
+    }
+    
+    await loadRecords(pageIndex, pageCursors);
+  };
+
+  const handleFirstPage = () => loadRecords(0);
+  const handlePreviousPage = () => loadRecords(pageIndex - 1, pageCursors);
+  const handleNextPage = () => loadRecords(pageIndex + 1, pageCursors);
+  const handleLastPage = () => {
+    // FetchXML pages can be requested by number; OData pages are only reachable through nextLink
+    const executionMode = (selectedViewId && executionModes[selectedViewId]) || 'odata';
+    if (executionMode === 'fetchxml' && totalCount !== undefined) {
+      const lastIndex = Math.max(0, Math.ceil(totalCount / pageSize) - 1);
+      loadRecords(lastIndex, Array.from({ length: lastIndex + 1 }, (_, i) => pageCursors[i] || {}));
+    } else {
+      loadRecords(pageIndex, pageCursors, true);
+    }
+  };
+
+  /**
+   * Read a column value and its formatted value, following link-entity aliases (alias.column) into the expanded record
+   * FetchXML results already carry aliased columns as alias.column keys.
+   * Lookup columns are returned as _<name>_value with the record name as formatted value.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/select-columns#lookup-property-data
+   */
+  const getColumnValue = (
+    item: EntityRecord,
+    key: string,
+    aliases: FetchAliasMapping[]
+  ): { value: any; formattedValue?: string } => {
+    const dotIndex = key.indexOf('.');
+    let record: EntityRecord | undefined = item;
+    let column = key;
+    
+    if (!(key in item) && !(`_${key}_value` in item) && dotIndex >= 0) {
+      const alias = aliases.find(a => a.alias === key.substring(0, dotIndex));
+      const expanded = alias ? item[alias.navigationProperty] : undefined;
+      record = Array.isArray(expanded) ? expanded[0] : expanded;
+      column = key.substring(dotIndex + 1);
+    }
+    
+    if (!record) {
+      return { value: undefined };
+    }
+    const annotated = new AnnotatedRecord(record);
+    return {
+      value: annotated.getValue(column),
+      formattedValue: annotated.getFormattedValue(column),
+    };
+  };
+
+  /**
+   * Text shown in a grid cell: the formatted value when the server returned one, otherwise the raw value
+   */
+  const getColumnText = (item: EntityRecord, key: string, aliases: FetchAliasMapping[]): string => {
+    const { value, formattedValue } = getColumnValue(item, key, aliases);
+    if (formattedValue !== undefined) {
+      return formattedValue;
+    }
+    return value === null || value === undefined ? '' : String(value);
+  };
+
   /**
    * Parse layoutxml to extract column names
    * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/customize-entity-views
@@ -328,113 +629,6 @@ export default function EntityListView({
     }
   };
 
-  /**
-   * Parse FetchXML to extract filter conditions and ordering
-   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/use-fetchxml-construct-query
-   * 
-   * This is a simplified parser that converts FetchXML to OData query syntax.
-   * Supports basic filter conditions and ordering.
-   */
-  const parseFetchXml = (fetchxml: string): { filter?: string; orderby?: string } => {
-    try {
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(fetchxml, 'text/xml');
-      
-      const result: { filter?: string; orderby?: string } = {};
-      
-      // Parse filter conditions
-      const filterElement = xmlDoc.getElementsByTagName('filter')[0];
-      if (filterElement) {
-        const conditions = filterElement.getElementsByTagName('condition');
-        const filterParts: string[] = [];
-        
-        for (let i = 0; i < conditions.length; i++) {
-          const condition = conditions[i];
-          const attribute = condition.getAttribute('attribute');
-          const operator = condition.getAttribute('operator');
-          const value = condition.getAttribute('value');
-          
-          if (attribute && operator) {
-            // Convert FetchXML operator to OData operator
-            // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml-operators
-            let odataCondition = '';
-            
-            switch (operator) {
-              case 'eq':
-                odataCondition = `${attribute} eq ${value !== null ? `'${value}'` : 'null'}`;
-                break;
-              case 'ne':
-                odataCondition = `${attribute} ne ${value !== null ? `'${value}'` : 'null'}`;
-                break;
-              case 'gt':
-                odataCondition = `${attribute} gt ${value}`;
-                break;
-              case 'ge':
-                odataCondition = `${attribute} ge ${value}`;
-                break;
-              case 'lt':
-                odataCondition = `${attribute} lt ${value}`;
-                break;
-              case 'le':
-                odataCondition = `${attribute} le ${value}`;
-                break;
-              case 'like':
-                // OData uses 'contains' for like
-                odataCondition = `contains(${attribute}, '${value}')`;
-                break;
-              case 'not-like':
-                odataCondition = `not contains(${attribute}, '${value}')`;
-                break;
-              case 'null':
-                odataCondition = `${attribute} eq null`;
-                break;
-              case 'not-null':
-                odataCondition = `${attribute} ne null`;
-                break;
-              default:
-                console.warn(`Unsupported FetchXML operator: ${operator}`);
-            }
-            
-            if (odataCondition) {
-              filterParts.push(odataCondition);
-            }
-          }
-        }
-        
-        // Combine filters based on type (default is 'and')
-        const filterType = filterElement.getAttribute('type') || 'and';
-        if (filterParts.length > 0) {
-          result.filter = filterParts.join(` ${filterType} `);
-        }
-      }
-      
-      // Parse order element
-      const orderElements = xmlDoc.getElementsByTagName('order');
-      if (orderElements.length > 0) {
-        const orderParts: string[] = [];
-        
-        for (let i = 0; i < orderElements.length; i++) {
-          const order = orderElements[i];
-          const attribute = order.getAttribute('attribute');
-          const descending = order.getAttribute('descending') === 'true';
-          
-          if (attribute) {
-            orderParts.push(`${attribute} ${descending ? 'desc' : 'asc'}`);
-          }
-        }
-        
-        if (orderParts.length > 0) {
-          result.orderby = orderParts.join(',');
-        }
-      }
-      
-      return result;
-    } catch (err) {
-      console.error('Error parsing FetchXML:', err);
-      return {};
-    }
-  };
-
   /**
    * Handle view selection change and update URL
    */
@@ -450,6 +644,15 @@ export default function EntityListView({
       window.history.pushState({}, '', newUrl);
     }
   };
+  /**
+   * Switch how the selected view is executed
+   */
+  const handleExecutionModeChange = (mode: ViewExecutionMode) => {
+    if (selectedViewId) {
+      setExecutionModes(prev => ({ ...prev, [selectedViewId]: mode }));
+    }
+  };
+
   /**
    * Format column name for display (convert camelCase to Title Case)
    */
@@ -466,6 +669,13 @@ export default function EntityListView({
       .trim();
   };
 
+  const selectedView = views.find(v => v.savedqueryid === selectedViewId);
+  const selectedExecutionMode = (selectedViewId && executionModes[selectedViewId]) || 'odata';
+  const hasNextPage = pageCursors.length > pageIndex + 1;
+  const firstRecordNumber = records.length > 0 ? pageIndex * pageSize + 1 : 0;
+  const lastRecordNumber = pageIndex * pageSize + records.length;
+  const lastPageNumber = totalCount !== undefined ? Math.max(1, Math.ceil(totalCount / pageSize)) : undefined;
+
   return (
     <div className={styles.container}>
       <div className={styles.header}>
@@ -490,11 +700,26 @@ export default function EntityListView({
               ))}
             </Dropdown>
           )}
+          {selectedView?.fetchxml && (
+            <Dropdown
+              className={styles.executionModeSwitcher}
+              aria-label="Query execution mode"
+              value={EXECUTION_MODE_LABELS[selectedExecutionMode]}
+              selectedOptions={[selectedExecutionMode]}
+              onOptionSelect={(_, data) => handleExecutionModeChange(data.optionValue as ViewExecutionMode)}
+            >
+              {(Object.keys(EXECUTION_MODE_LABELS) as ViewExecutionMode[]).map((mode) => (
+                <Option key={mode} value={mode}>
+                  {EXECUTION_MODE_LABELS[mode]}
+                </Option>
+              ))}
+            </Dropdown>
+          )}
         </div>
         <Toolbar className={styles.toolbar}>
           <ToolbarButton
             icon={<ArrowSyncCircle20Regular />}
-            onClick={loadRecords}
+            onClick={() => loadRecords(pageIndex, pageCursors)}
             disabled={loading || !selectedViewId}
           >
             Refresh
@@ -502,12 +727,17 @@ export default function EntityListView({
           <ToolbarButton
             icon={<Add20Regular />}
             onClick={() => {
+              if (onNew) {
+                onNew();
+                return;
+              }
               // Open form for new record
               if (typeof window !== 'undefined') {
                 const params = new URLSearchParams(window.location.search);
                 params.set('pagetype', 'entityrecord');
                 params.set('etn', entityName);
                 params.delete('id'); // Ensure no id for new record
+                params.delete('extraqs');
                 const newUrl = `${window.location.pathname}?${params.toString()}`;
                 window.history.pushState({}, '', newUrl);
                 // Trigger a custom event to notify the parent
@@ -517,6 +747,21 @@ export default function EntityListView({
           >
             New
           </ToolbarButton>
+          {onAddExisting && (
+            <ToolbarButton
+              icon={<Link20Regular />}
+              onClick={onAddExisting}
+            >
+              Add Existing
+            </ToolbarButton>
+          )}
+          <ToolbarButton
+            icon={<Delete20Regular />}
+            onClick={() => setConfirmingDelete(true)}
+            disabled={selectedRows.size === 0 || deleting}
+          >
+            Delete
+          </ToolbarButton>
           <ToolbarButton
             icon={<Filter20Regular />}
             disabled
@@ -527,6 +772,20 @@ export default function EntityListView({
       </div>
       
       <div className={styles.content}>
+        {!loading && diagnostics.length > 0 && (
+          <MessageBar
+            intent={diagnostics.some(d => d.severity === 'error') ? 'error' : 'warning'}
+            className={styles.diagnostics}
+          >
+            <MessageBarBody>
+              <MessageBarTitle>This view could not be translated exactly</MessageBarTitle>
+              {diagnostics.map((diagnostic, index) => (
+                <div key={index}>{diagnostic.message}</div>
+              ))}
+            </MessageBarBody>
+          </MessageBar>
+        )}
+        
         {loading && (
           <div className={styles.loadingContainer}>
             <Spinner label="Loading records..." />
@@ -536,8 +795,40 @@ export default function EntityListView({
         {error && !loading && (
           <div className={styles.errorContainer}>
             <strong>Error:</strong> {error}
+            {errorCause instanceof DataverseApiError && (
+              <>
+                {errorCause.code && <> ({errorCause.code})</>}
+                <Button appearance="transparent" size="small" onClick={() => setShowErrorDetails(true)}>
+                  Show details
+                </Button>
+              </>
+            )}
           </div>
         )}
+        {showErrorDetails && (
+          <ErrorDialog error={errorCause} onDismiss={() => setShowErrorDetails(false)} />
+        )}
+        <ErrorDialog error={deleteError} onDismiss={() => setDeleteError(null)} />
+        <Dialog open={confirmingDelete} onOpenChange={(_, data) => setConfirmingDelete(data.open)}>
+          <DialogSurface>
+            <DialogBody>
+              <DialogTitle>Confirm Deletion</DialogTitle>
+              <DialogContent>
+                {selectedRows.size === 1
+                  ? 'Do you want to delete this record? You can\'t undo this action.'
+                  : `Do you want to delete these ${selectedRows.size} records? You can't undo this action.`}
+              </DialogContent>
+              <DialogActions>
+                <Button appearance="primary" onClick={handleDeleteSelected}>
+                  Delete
+                </Button>
+                <Button appearance="secondary" onClick={() => setConfirmingDelete(false)}>
+                  Cancel
+                </Button>
+              </DialogActions>
+            </DialogBody>
+          </DialogSurface>
+        </Dialog>
         
         {!loading && !error && !selectedViewId && views.length === 0 && (
           <div className={styles.emptyContainer}>
@@ -557,7 +848,15 @@ export default function EntityListView({
               items={records}
               columns={columns}
               sortable
-              getRowId={(item) => item[entityName + 'id'] || JSON.stringify(item)}
+              selectionMode="multiselect"
+              selectedItems={selectedRows}
+              onSelectionChange={(_, data) => {
+                // Rows without a primary id cannot be deleted or opened, so they are never selected
+                const selected = new Set(Array.from(data.selectedItems).filter(id => !String(id).startsWith(UNKEYED_ROW_ID_PREFIX)));
+                setSelectedRows(selected);
+                onSelectionChange?.(Array.from(selected).map(String));
+              }}
+              getRowId={(item) => item[primaryIdAttribute] || `${UNKEYED_ROW_ID_PREFIX}${records.indexOf(item)}`}
               className={styles.dataGrid}
             >
               <DataGridHeader>
@@ -573,9 +872,14 @@ export default function EntityListView({
                 {({ item, rowId }) => (
                   <DataGridRow<EntityRecord> 
                     key={rowId}
-                    onClick={() => {
+                    selectionCell={{ checkboxIndicator: { 'aria-label': 'Select row' }, invisible: !item[primaryIdAttribute] }}
+                    onClick={(e: MouseEvent<HTMLDivElement>) => {
+                      // Clicking the row check box only changes the selection
+                      if ((e.target as HTMLElement).closest('input[type="checkbox"]')) {
+                        return;
+                      }
                       // Open form for this record
-                      const recordId = item[entityName + 'id'];
+                      const recordId = item[primaryIdAttribute];
                       if (recordId && typeof window !== 'undefined') {
                         const params = new URLSearchParams(window.location.search);
                         params.set('pagetype', 'entityrecord');
@@ -596,9 +900,58 @@ export default function EntityListView({
                 )}
               </DataGridBody>
             </DataGrid>
-            <Caption1 className={styles.recordCount}>
-              Showing {records.length} records
-            </Caption1>
+            <div className={styles.pagingBar}>
+              <Caption1 className={styles.recordCount}>
+                {totalCount !== undefined
+                  ? `Showing ${firstRecordNumber}-${lastRecordNumber} of ${totalCount} records`
+                  : `Showing ${firstRecordNumber}-${lastRecordNumber} records`}
+              </Caption1>
+              <div className={styles.pagingControls}>
+                <Caption1>Rows per page</Caption1>
+                <Dropdown
+                  className={styles.pageSizeSwitcher}
+                  aria-label="Rows per page"
+                  value={String(pageSize)}
+                  selectedOptions={[String(pageSize)]}
+                  onOptionSelect={(_, data) => setPageSize(Number(data.optionValue))}
+                >
+                  {PAGE_SIZES.map((size) => (
+                    <Option key={size} value={String(size)}>
+                      {String(size)}
+                    </Option>
+                  ))}
+                </Dropdown>
+                <Button
+                  appearance="subtle"
+                  icon={<ArrowPrevious20Regular />}
+                  aria-label="First page"
+                  onClick={handleFirstPage}
+                  disabled={pageIndex === 0}
+                />
+                <Button
+                  appearance="subtle"
+                  icon={<ChevronLeft20Regular />}
+                  aria-label="Previous page"
+                  onClick={handlePreviousPage}
+                  disabled={pageIndex === 0}
+                />
+                <Caption1>Page {pageIndex + 1}{lastPageNumber !== undefined ? ` of ${lastPageNumber}` : ''}</Caption1>
+                <Button
+                  appearance="subtle"
+                  icon={<ChevronRight20Regular />}
+                  aria-label="Next page"
+                  onClick={handleNextPage}
+                  disabled={!hasNextPage}
+                />
+                <Button
+                  appearance="subtle"
+                  icon={<ArrowNext20Regular />}
+                  aria-label="Last page"
+                  onClick={handleLastPage}
+                  disabled={!hasNextPage}
+                />
+              </div>
+            </div>
           </>
         )}
       </div>
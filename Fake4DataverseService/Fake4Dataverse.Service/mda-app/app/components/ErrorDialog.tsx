@@ -0,0 +1,115 @@
+'use client';
+
+/**
+ * Error dialog for failed Web API requests
+ * Plug-in exceptions are shown as a Business Process Error with the exact message the plug-in threw.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/best-practices/business-logic/use-invalidpluginexecutionexception-plugin-workflow-activities
+ */
+
+import { useState } from 'react';
+import {
+  makeStyles,
+  tokens,
+  Button,
+  Dialog,
+  DialogSurface,
+  DialogBody,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@fluentui/react-components';
+import { DataverseApiError, getErrorMessage } from '../lib/dataverse-error';
+
+const useStyles = makeStyles({
+  message: {
+    whiteSpace: 'pre-wrap',
+    marginBottom: '12px',
+  },
+  details: {
+    fontFamily: tokens.fontFamilyMonospace,
+    fontSize: tokens.fontSizeBase200,
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    maxHeight: '300px',
+    overflow: 'auto',
+    padding: '8px',
+    backgroundColor: tokens.colorNeutralBackground3,
+    borderRadius: tokens.borderRadiusMedium,
+  },
+});
+
+interface ErrorDialogProps {
+  error: unknown;
+  onDismiss: () => void;
+}
+
+export default function ErrorDialog({ error, onDismiss }: ErrorDialogProps) {
+  const styles = useStyles();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (!error) {
+    return null;
+  }
+
+  const apiError = error instanceof DataverseApiError ? error : null;
+  const details = apiError ? formatErrorDetails(apiError) : '';
+
+  return (
+    <Dialog open onOpenChange={(_, data) => !data.open && onDismiss()}>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>{apiError?.isPluginError ? 'Business Process Error' : 'Error'}</DialogTitle>
+          <DialogContent>
+            <div className={styles.message}>{getErrorMessage(error, 'An unexpected error occurred')}</div>
+            {showDetails && details && <div className={styles.details}>{details}</div>}
+          </DialogContent>
+          <DialogActions>
+            {details && (
+              <Button appearance="secondary" onClick={() => setShowDetails(!showDetails)}>
+                {showDetails ? 'Hide details' : 'Show details'}
+              </Button>
+            )}
+            <Button appearance="primary" onClick={onDismiss}>
+              OK
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+}
+
+/**
+ * Error code, request, error detail annotations, inner error and plug-in trace as text
+ */
+function formatErrorDetails(error: DataverseApiError): string {
+  const lines: string[] = [];
+  if (error.code) {
+    lines.push(`Error code: ${error.code}`);
+  }
+  lines.push(`HTTP status: ${error.status} ${error.statusText}`.trim());
+  lines.push(`Request: ${error.request.method} ${error.request.url}`);
+  if (error.isPluginError && error.pluginMessage !== error.message) {
+    lines.push(`Message: ${error.message}`);
+  }
+  Object.entries(error.errorDetails).forEach(([name, value]) => {
+    lines.push(`${name}: ${value}`);
+  });
+
+  let inner = error.innerError;
+  while (inner) {
+    lines.push('', `Inner error: ${inner.type || ''}`.trim());
+    if (inner.message) {
+      lines.push(inner.message);
+    }
+    if (inner.stacktrace) {
+      lines.push(inner.stacktrace);
+    }
+    inner = inner.internalexception;
+  }
+
+  if (error.traceText) {
+    lines.push('', 'Plug-in trace:', error.traceText);
+  }
+  return lines.join('\n');
+}
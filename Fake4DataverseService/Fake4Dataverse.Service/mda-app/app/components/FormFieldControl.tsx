@@ -0,0 +1,317 @@
+'use client';
+
+/**
+ * Form field control rendered from the column's AttributeMetadata
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/getcontroltype
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  makeStyles,
+  tokens,
+  Input,
+  Textarea,
+  Switch,
+  Dropdown,
+  Option,
+  Field,
+  Button,
+} from '@fluentui/react-components';
+import LookupControl from './LookupControl';
+import {
+  getAttributeControlKind,
+  getAttributeOptions,
+  getAttributePrecision,
+  toDateOnlyString,
+} from '../lib/attribute-utils';
+import type { AttributeMetadata } from '../types/dataverse';
+import type { XrmControlNotification } from '../lib/xrm-api-types';
+
+const useStyles = makeStyles({
+  field: {
+    width: '100%',
+  },
+  control: {
+    width: '100%',
+  },
+  currency: {
+    color: tokens.colorNeutralForeground3,
+  },
+  notificationAction: {
+    marginLeft: '4px',
+    minWidth: 'auto',
+  },
+});
+
+interface FormFieldControlProps {
+  fieldName: string;
+  label: string;
+  classid?: string;
+  value: any;
+  formattedValue?: string;
+  attribute?: AttributeMetadata;
+  disabled?: boolean;
+  /** Notifications set on the control by form scripts */
+  notifications?: XrmControlNotification[];
+  onChange: (value: any) => void;
+}
+
+export default function FormFieldControl({
+  fieldName,
+  label,
+  classid,
+  value,
+  formattedValue,
+  attribute,
+  disabled,
+  notifications = [],
+  onChange,
+}: FormFieldControlProps) {
+  const styles = useStyles();
+  const kind = getAttributeControlKind(attribute, classid);
+  const isNumeric = kind === 'whole-number' || kind === 'decimal' || kind === 'money';
+
+  // Numbers are edited as text so partial input like "1." is not lost before it parses
+  const [numberText, setNumberText] = useState(formatNumber(value));
+  useEffect(() => {
+    if (isNumeric && parseNumber(numberText) !== (value ?? null)) {
+      setNumberText(formatNumber(value));
+    }
+  }, [value]);
+
+  const rangeError = isNumeric ? getRangeError(attribute, value) : undefined;
+
+  // Errors set by scripts take precedence over recommendations; one notification is shown at a time
+  const notification = notifications.find(n => n.notificationLevel === 'ERROR') || notifications[0];
+  const validationMessage = notification ? (
+    <>
+      {notification.messages.join(' ')}
+      {notification.actions?.map((action, index) => (
+        <Button
+          key={index}
+          className={styles.notificationAction}
+          appearance="transparent"
+          size="small"
+          title={action.message}
+          onClick={() => action.actions.forEach(run => run())}
+        >
+          Apply
+        </Button>
+      ))}
+    </>
+  ) : rangeError;
+  const validationState = notification
+    ? (notification.notificationLevel === 'RECOMMENDATION' ? 'warning' : 'error')
+    : rangeError ? 'error' : 'none';
+
+  const renderInput = () => {
+    // Read-only numbers and dates show the server's formatted value, as the real form does
+    if (disabled && formattedValue !== undefined && (isNumeric || kind === 'date' || kind === 'datetime')) {
+      return (
+        <Input
+          className={styles.control}
+          value={formattedValue}
+          readOnly
+          disabled
+        />
+      );
+    }
+
+    switch (kind) {
+      case 'multiline':
+        return (
+          <Textarea
+            className={styles.control}
+            value={value ?? ''}
+            maxLength={attribute?.MaxLength}
+            resize="vertical"
+            onChange={(_, data) => onChange(data.value)}
+            disabled={disabled}
+          />
+        );
+
+      case 'whole-number':
+      case 'decimal':
+      case 'money': {
+        const precision = getAttributePrecision(attribute, kind);
+        return (
+          <Input
+            className={styles.control}
+            type="number"
+            value={numberText}
+            min={attribute?.MinValue}
+            max={attribute?.MaxValue}
+            step={precision > 0 ? Math.pow(10, -precision) : 1}
+            contentBefore={kind === 'money' ? <span className={styles.currency}>$</span> : undefined}
+            onChange={(_, data) => {
+              setNumberText(data.value);
+              onChange(parseNumber(data.value, precision));
+            }}
+            disabled={disabled}
+          />
+        );
+      }
+
+      case 'date':
+        return (
+          <Input
+            className={styles.control}
+            type="date"
+            value={value ? toDateOnlyString(value) || '' : ''}
+            onChange={(_, data) => onChange(data.value || null)}
+            disabled={disabled}
+          />
+        );
+
+      case 'datetime':
+        return (
+          <Input
+            className={styles.control}
+            type="datetime-local"
+            value={toLocalDateTimeInput(value)}
+            onChange={(_, data) => onChange(data.value ? new Date(data.value).toISOString() : null)}
+            disabled={disabled}
+          />
+        );
+
+      case 'boolean': {
+        const options = getAttributeOptions(attribute);
+        const checked = value === true;
+        const optionLabel = options.find(o => o.value === (checked ? 1 : 0))?.label;
+        return (
+          <Switch
+            checked={checked}
+            label={optionLabel || formattedValue || (checked ? 'Yes' : 'No')}
+            onChange={(_, data) => onChange(data.checked)}
+            disabled={disabled}
+          />
+        );
+      }
+
+      case 'choice': {
+        const options = getAttributeOptions(attribute);
+        const selected = value === null || value === undefined ? '' : String(value);
+        return (
+          <Dropdown
+            className={styles.control}
+            aria-label={label}
+            value={options.find(o => String(o.value) === selected)?.label || formattedValue || selected}
+            selectedOptions={[selected]}
+            onOptionSelect={(_, data) => onChange(data.optionValue ? parseInt(data.optionValue, 10) : null)}
+            disabled={disabled}
+          >
+            <Option value="">--Select--</Option>
+            {options.map(option => (
+              <Option key={option.value} value={String(option.value)}>
+                {option.label}
+              </Option>
+            ))}
+          </Dropdown>
+        );
+      }
+
+      case 'multi-choice': {
+        const options = getAttributeOptions(attribute);
+        const selected = value ? String(value).split(',').filter(v => v !== '') : [];
+        return (
+          <Dropdown
+            className={styles.control}
+            aria-label={label}
+            multiselect
+            value={options.length > 0 || formattedValue === undefined
+              ? selected.map(v => options.find(o => String(o.value) === v)?.label || v).join('; ')
+              : formattedValue}
+            selectedOptions={selected}
+            onOptionSelect={(_, data) => onChange(data.selectedOptions.length > 0 ? data.selectedOptions.join(',') : null)}
+            disabled={disabled}
+          >
+            {options.map(option => (
+              <Option key={option.value} value={String(option.value)}>
+                {option.label}
+              </Option>
+            ))}
+          </Dropdown>
+        );
+      }
+
+      case 'lookup':
+        // The value is a LookupValue read from the _<name>_value property
+        return (
+          <LookupControl
+            label={label}
+            value={value || null}
+            targets={attribute?.Targets || []}
+            disabled={disabled}
+            onChange={onChange}
+          />
+        );
+
+      default:
+        return (
+          <Input
+            className={styles.control}
+            type={kind === 'email' ? 'email' : kind === 'url' ? 'url' : kind === 'phone' ? 'tel' : 'text'}
+            value={value === null || value === undefined ? '' : String(value)}
+            maxLength={attribute?.MaxLength}
+            onChange={(_, data) => onChange(data.value)}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <Field
+      label={label || fieldName}
+      className={styles.field}
+      required={attribute?.RequiredLevel?.Value === 'ApplicationRequired' || attribute?.RequiredLevel?.Value === 'SystemRequired'}
+      validationState={validationState}
+      validationMessage={validationMessage}
+    >
+      {renderInput()}
+    </Field>
+  );
+}
+
+function formatNumber(value: any): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function parseNumber(text: string, precision?: number): number | null {
+  if (text.trim() === '') {
+    return null;
+  }
+  const parsed = Number(text);
+  if (isNaN(parsed)) {
+    return null;
+  }
+  return precision === undefined ? parsed : Number(parsed.toFixed(precision));
+}
+
+function getRangeError(attribute: AttributeMetadata | undefined, value: any): string | undefined {
+  if (typeof value !== 'number') {
+    return undefined;
+  }
+  if (attribute?.MinValue !== undefined && value < attribute.MinValue) {
+    return `Enter a value greater than or equal to ${attribute.MinValue}`;
+  }
+  if (attribute?.MaxValue !== undefined && value > attribute.MaxValue) {
+    return `Enter a value less than or equal to ${attribute.MaxValue}`;
+  }
+  return undefined;
+}
+
+/**
+ * Format an ISO date and time as the local value of a datetime-local input
+ */
+function toLocalDateTimeInput(value: any): string {
+  if (!value) {
+    return '';
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
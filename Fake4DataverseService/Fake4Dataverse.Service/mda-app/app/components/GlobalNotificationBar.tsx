@@ -0,0 +1,76 @@
+'use client';
+
+/**
+ * Global notifications shown above every page of the app
+ * Notifications are added by scripts with Xrm.App.addGlobalNotification.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-app/addglobalnotification
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  makeStyles,
+  Button,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  MessageBarGroup,
+} from '@fluentui/react-components';
+import type { MessageBarIntent } from '@fluentui/react-components';
+import { Dismiss20Regular } from '@fluentui/react-icons';
+import { globalNotificationStore } from '../lib/global-notifications';
+
+const useStyles = makeStyles({
+  group: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+});
+
+// MessageBar intent for each notification level
+const LEVEL_INTENTS: Record<number, MessageBarIntent> = {
+  1: 'success',
+  2: 'error',
+  3: 'warning',
+  4: 'info',
+};
+
+export default function GlobalNotificationBar() {
+  const styles = useStyles();
+  const [notifications, setNotifications] = useState(globalNotificationStore.getAll());
+
+  useEffect(() => {
+    setNotifications(globalNotificationStore.getAll());
+    return globalNotificationStore.subscribe(() => setNotifications(globalNotificationStore.getAll()));
+  }, []);
+
+  if (notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <MessageBarGroup className={styles.group}>
+      {notifications.map(notification => (
+        <MessageBar key={notification.id} intent={LEVEL_INTENTS[notification.level]}>
+          <MessageBarBody>{notification.message}</MessageBarBody>
+          <MessageBarActions
+            containerAction={notification.showCloseButton ? (
+              <Button
+                appearance="transparent"
+                aria-label="Close"
+                icon={<Dismiss20Regular />}
+                onClick={() => globalNotificationStore.clear(notification.id)}
+              />
+            ) : undefined}
+          >
+            {notification.action && (
+              <Button onClick={() => notification.action!.eventHandler()}>
+                {notification.action.actionLabel}
+              </Button>
+            )}
+          </MessageBarActions>
+        </MessageBar>
+      ))}
+    </MessageBarGroup>
+  );
+}
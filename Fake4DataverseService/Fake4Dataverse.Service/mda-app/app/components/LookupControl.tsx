@@ -0,0 +1,261 @@
+'use client';
+
+/**
+ * Lookup control for lookup, customer and owner columns
+ * Searches the primary name column of the target tables and offers recently used records. Targets with a quick create
+ * form also offer a new record, created in a side panel.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/user/lookup-field
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  makeStyles,
+  tokens,
+  Combobox,
+  Option,
+  OptionGroup,
+} from '@fluentui/react-components';
+import {
+  searchLookupTargets,
+  getRecentLookupItems,
+  addRecentLookupItem,
+  resolveLookupName,
+} from '../lib/lookup-utils';
+import { metadataCache } from '../lib/metadata-cache';
+import { hasQuickCreateForm } from '../lib/system-forms';
+import QuickCreatePanel from './QuickCreatePanel';
+import type { EntityNames, LookupValue } from '../types/dataverse';
+
+const useStyles = makeStyles({
+  control: {
+    width: '100%',
+  },
+  entityType: {
+    marginLeft: '8px',
+    color: tokens.colorNeutralForeground3,
+    fontSize: tokens.fontSizeBase200,
+  },
+});
+
+// Delay before searching while the user is typing
+const SEARCH_DELAY_MS = 250;
+
+// Prefix of the option values that create a record of a target table
+const NEW_RECORD_OPTION_PREFIX = 'new:';
+
+interface LookupControlProps {
+  label: string;
+  value: LookupValue | null;
+  targets: string[];
+  disabled?: boolean;
+  onChange: (value: LookupValue | null) => void;
+}
+
+export default function LookupControl({
+  label,
+  value,
+  targets,
+  disabled,
+  onChange,
+}: LookupControlProps) {
+  const styles = useStyles();
+  const [displayValue, setDisplayValue] = useState<LookupValue | null>(value);
+  const [searchText, setSearchText] = useState('');
+  const [open, setOpen] = useState(false);
+  const [results, setResults] = useState<LookupValue[]>([]);
+  const [recentItems, setRecentItems] = useState<LookupValue[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [targetNames, setTargetNames] = useState<Record<string, string>>({});
+  const [quickCreateTargets, setQuickCreateTargets] = useState<EntityNames[] | null>(null);
+  const [quickCreateEntity, setQuickCreateEntity] = useState<string | null>(null);
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Show the record name even when the value was retrieved without formatted value annotations
+  useEffect(() => {
+    setDisplayValue(value);
+    if (value && !value.name) {
+      let cancelled = false;
+      resolveLookupName(value)
+        .then((resolved) => {
+          if (!cancelled) {
+            setDisplayValue(resolved);
+          }
+        })
+        .catch((err) => console.warn('Failed to resolve lookup name:', err));
+      return () => {
+        cancelled = true;
+      };
+    }
+  }, [value?.id, value?.entityType, value?.name]);
+
+  // Display names of the target tables, shown next to results of polymorphic lookups
+  useEffect(() => {
+    if (targets.length < 2) {
+      return;
+    }
+    Promise.all(targets.map(target => metadataCache.getEntity(target).catch(() => null)))
+      .then((entities) => {
+        const names: Record<string, string> = {};
+        entities.forEach((entity) => {
+          if (entity) {
+            names[entity.logicalName] = entity.displayName;
+          }
+        });
+        setTargetNames(names);
+      });
+  }, [targets.join(',')]);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    if (searchTimer.current) {
+      clearTimeout(searchTimer.current);
+    }
+    searchTimer.current = setTimeout(async () => {
+      setSearching(true);
+      try {
+        setResults(await searchLookupTargets(targets, searchText));
+      } catch (err) {
+        console.error('Error searching lookup targets:', err);
+        setResults([]);
+      } finally {
+        setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      if (searchTimer.current) {
+        clearTimeout(searchTimer.current);
+      }
+    };
+  }, [open, searchText, targets.join(',')]);
+
+  // Targets with a quick create form are looked up the first time the lookup opens
+  useEffect(() => {
+    if (!open || quickCreateTargets) {
+      return;
+    }
+    Promise.all(targets.map(async (target) => {
+      const quickCreate = await hasQuickCreateForm(target);
+      return quickCreate ? metadataCache.getEntity(target) : null;
+    }))
+      .then(entities => setQuickCreateTargets(entities.filter((entity): entity is EntityNames => !!entity)))
+      .catch((err) => {
+        console.warn('Failed to load quick create forms:', err);
+        setQuickCreateTargets([]);
+      });
+  }, [open, quickCreateTargets, targets.join(',')]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setRecentItems(getRecentLookupItems(targets));
+    } else {
+      setSearchText('');
+    }
+  };
+
+  const handleOptionSelect = (optionValue: string | undefined) => {
+    if (!optionValue) {
+      onChange(null);
+      return;
+    }
+    if (optionValue.startsWith(NEW_RECORD_OPTION_PREFIX)) {
+      setQuickCreateEntity(optionValue.substring(NEW_RECORD_OPTION_PREFIX.length));
+      setSearchText('');
+      return;
+    }
+
+    const selected = [...recentItems, ...results].find(item => toOptionValue(item) === optionValue);
+    if (selected) {
+      addRecentLookupItem(selected);
+      setDisplayValue(selected);
+      onChange(selected);
+    }
+    setSearchText('');
+  };
+
+  /**
+   * Select the record created in the quick create form
+   */
+  const handleQuickCreateSaved = async (created: LookupValue) => {
+    setQuickCreateEntity(null);
+    const selected = await resolveLookupName(created).catch(() => created);
+    addRecentLookupItem(selected);
+    setDisplayValue(selected);
+    onChange(selected);
+  };
+
+  const renderOption = (item: LookupValue, keyPrefix: string) => (
+    <Option key={keyPrefix + toOptionValue(item)} value={toOptionValue(item)} text={item.name || item.id}>
+      {item.name || item.id}
+      {targets.length > 1 && (
+        <span className={styles.entityType}>{targetNames[item.entityType] || item.entityType}</span>
+      )}
+    </Option>
+  );
+
+  const visibleRecentItems = searchText ? [] : recentItems;
+  const selectedText = displayValue ? displayValue.name || displayValue.id : '';
+
+  return (
+    <>
+      <Combobox
+        className={styles.control}
+        aria-label={label}
+        freeform
+        clearable
+        placeholder={disabled ? '' : 'Look for records'}
+        value={open ? searchText : selectedText}
+        selectedOptions={displayValue ? [toOptionValue(displayValue)] : []}
+        open={open}
+        onOpenChange={(_, data) => handleOpenChange(data.open)}
+        onChange={(e) => setSearchText(e.target.value)}
+        onOptionSelect={(_, data) => handleOptionSelect(data.optionValue)}
+        disabled={disabled}
+      >
+        {visibleRecentItems.length > 0 && (
+          <OptionGroup label="Recent records">
+            {visibleRecentItems.map(item => renderOption(item, 'recent:'))}
+          </OptionGroup>
+        )}
+        <OptionGroup label={searching ? 'Searching...' : 'Records'}>
+          {results
+            .filter(item => !visibleRecentItems.some(recent => toOptionValue(recent) === toOptionValue(item)))
+            .map(item => renderOption(item, 'result:'))}
+        </OptionGroup>
+        {!searching && results.length === 0 && visibleRecentItems.length === 0 && (
+          <Option value="" text="" disabled>
+            No records found
+          </Option>
+        )}
+        {quickCreateTargets && quickCreateTargets.length > 0 && (
+          <OptionGroup label="Create">
+            {quickCreateTargets.map(target => (
+              <Option
+                key={NEW_RECORD_OPTION_PREFIX + target.logicalName}
+                value={NEW_RECORD_OPTION_PREFIX + target.logicalName}
+                text={`New ${target.displayName || target.logicalName}`}
+              >
+                New {target.displayName || target.logicalName}
+              </Option>
+            ))}
+          </OptionGroup>
+        )}
+      </Combobox>
+      {quickCreateEntity && (
+        <QuickCreatePanel
+          entityName={quickCreateEntity}
+          onSaved={handleQuickCreateSaved}
+          onDismiss={() => setQuickCreateEntity(null)}
+        />
+      )}
+    </>
+  );
+}
+
+function toOptionValue(item: LookupValue): string {
+  return `${item.entityType}:${item.id}`;
+}
@@ -34,6 +34,7 @@ import {
   DocumentFilled,
 } from '@fluentui/react-icons';
 import type { SiteMapArea, SiteMapGroup, SiteMapSubArea } from '../types/dataverse';
+import { resolveWebResourceUrl } from '../lib/webresource-route';
 
 // Bundle icons for better UX
 const BuildingIcon = bundleIcon(BuildingFilled, BuildingRegular);
@@ -99,7 +100,9 @@ const useStyles = makeStyles({
 interface NavigationProps {
   areas: SiteMapArea[];
   selectedEntity?: string;
+  selectedUrl?: string;
   onNavigate?: (entity: string) => void;
+  onOpenUrl?: (url: string) => void;
 }
 
 /**
@@ -138,15 +141,23 @@ function getIconForEntity(iconName?: string, entityName?: string): React.ReactEl
   return undefined;
 }
 
-export default function Navigation({ areas, selectedEntity, onNavigate }: NavigationProps) {
+export default function Navigation({ areas, selectedEntity, selectedUrl, onNavigate, onOpenUrl }: NavigationProps) {
   const styles = useStyles();
 
   const handleSubAreaClick = (subarea: SiteMapSubArea) => {
     if (subarea.entity && onNavigate) {
       onNavigate(subarea.entity);
+    } else if (subarea.url && onOpenUrl) {
+      // Url subareas show a web resource or an external page
+      onOpenUrl(subarea.url);
     }
   };
 
+  // $webresource: Url values match the /WebResources/ address the app keeps once the page is open
+  const isSelected = (subarea: SiteMapSubArea) => subarea.entity
+    ? subarea.entity === selectedEntity
+    : !!subarea.url && !!selectedUrl && resolveWebResourceUrl(subarea.url) === resolveWebResourceUrl(selectedUrl);
+
   return (
     <div className={styles.nav}>
       <div className={styles.header}>
@@ -195,7 +206,7 @@ export default function Navigation({ areas, selectedEntity, onNavigate }: Naviga
                       itemType="leaf"
                       value={subarea.id}
                       className={
-                        subarea.entity === selectedEntity
+                        isSelected(subarea)
                           ? `${styles.subAreaItem} ${styles.selectedSubArea}`
                           : styles.subAreaItem
                       }
@@ -0,0 +1,89 @@
+'use client';
+
+/**
+ * Side panel creating a record in the quick create form of its table
+ * Opened from the New command of subgrids and from lookups, so the record is created without leaving the form.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/maker/model-driven-apps/create-edit-quick-create-forms
+ */
+
+import { useState, useEffect } from 'react';
+import { makeStyles, tokens, Spinner, OverlayDrawer, DrawerBody } from '@fluentui/react-components';
+import { metadataCache } from '../lib/metadata-cache';
+import { getErrorMessage } from '../lib/dataverse-error';
+import { SYSTEM_FORM_TYPE } from '../lib/system-forms';
+import EntityForm from './EntityForm';
+import type { EntityNames, LookupValue } from '../types/dataverse';
+
+const useStyles = makeStyles({
+  body: {
+    padding: 0,
+  },
+  error: {
+    padding: '16px',
+    color: tokens.colorPaletteRedForeground1,
+  },
+});
+
+interface QuickCreatePanelProps {
+  entityName: string;
+  /** Column values of the new record, in the format of the extraqs parameter */
+  formParameters?: string;
+  onSaved: (record: LookupValue) => void;
+  onDismiss: () => void;
+}
+
+export default function QuickCreatePanel({ entityName, formParameters, onSaved, onDismiss }: QuickCreatePanelProps) {
+  const styles = useStyles();
+  const [names, setNames] = useState<EntityNames | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    metadataCache.getEntity(entityName)
+      .then((entity) => {
+        if (!cancelled) {
+          setNames(entity);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(getErrorMessage(err, 'Failed to load the quick create form'));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entityName]);
+
+  return (
+    <OverlayDrawer
+      open
+      position="end"
+      size="medium"
+      onOpenChange={(_, data) => {
+        if (!data.open) {
+          onDismiss();
+        }
+      }}
+    >
+      <DrawerBody className={styles.body}>
+        {error && <div className={styles.error}>{error}</div>}
+        {!error && !names && <Spinner label="Loading form..." />}
+        {names && (
+          <EntityForm
+            entityName={names.logicalName}
+            entityPluralName={names.entitySetName}
+            displayName={names.displayName}
+            primaryIdAttribute={names.primaryIdAttribute}
+            primaryNameAttribute={names.primaryNameAttribute}
+            objectTypeCode={names.objectTypeCode}
+            formType={SYSTEM_FORM_TYPE.QuickCreate}
+            formParameters={formParameters}
+            onClose={onDismiss}
+            onSave={(recordId) => onSaved({ id: recordId, entityType: names.logicalName })}
+          />
+        )}
+      </DrawerBody>
+    </OverlayDrawer>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+/**
+ * Quick view control of a form
+ * Shows columns of the record a lookup of the form refers to, read-only, in the quick view form of its table.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/maker/model-driven-apps/create-edit-quick-view-forms
+ */
+
+import { useState, useEffect } from 'react';
+import { makeStyles, tokens, Spinner } from '@fluentui/react-components';
+import { dataverseClient } from '../lib/dataverse-client';
+import { metadataCache } from '../lib/metadata-cache';
+import { getAttributeControlKind } from '../lib/attribute-utils';
+import { getLookupValue } from '../lib/lookup-utils';
+import { AnnotatedRecord, ALL_ANNOTATIONS } from '../lib/annotated-record';
+import { getErrorMessage } from '../lib/dataverse-error';
+import { parseFormXml } from '../lib/form-utils';
+import { fetchSystemForm } from '../lib/system-forms';
+import FormFieldControl from './FormFieldControl';
+import type {
+  AttributeMetadata,
+  EntityRecord,
+  FormControl,
+  FormDefinition,
+  LookupValue,
+} from '../types/dataverse';
+
+const useStyles = makeStyles({
+  container: {
+    border: `1px solid ${tokens.colorNeutralStroke1}`,
+    borderRadius: tokens.borderRadiusMedium,
+    padding: '12px 16px',
+  },
+  title: {
+    fontWeight: tokens.fontWeightSemibold,
+    marginBottom: '12px',
+  },
+  formRow: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))',
+    gap: '16px',
+    marginBottom: '12px',
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1,
+  },
+});
+
+interface QuickViewFormProps {
+  control: FormControl;
+  label: string;
+  /** Value of the lookup the control is bound to */
+  value: LookupValue | null;
+}
+
+interface QuickViewContent {
+  formDefinition: FormDefinition;
+  attributes: Map<string, AttributeMetadata>;
+  record: EntityRecord;
+}
+
+export default function QuickViewForm({ control, label, value }: QuickViewFormProps) {
+  const styles = useStyles();
+  // Each table the lookup can refer to has a quick view form of its own
+  const quickForm = value
+    ? control.parameters?.quickForms?.find(form => form.entityName === value.entityType)
+    : undefined;
+  const recordId = value?.id;
+  const [content, setContent] = useState<QuickViewContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setContent(null);
+    setError(null);
+    if (!quickForm || !recordId) {
+      return;
+    }
+    let cancelled = false;
+
+    const load = async () => {
+      const form = await fetchSystemForm(quickForm.formId);
+      if (!form?.formxml) {
+        throw new Error(`Quick view form ${quickForm.formId} was not found`);
+      }
+      const names = await metadataCache.getEntity(quickForm.entityName);
+      const attributes = await metadataCache.getAttributes(quickForm.entityName);
+      const recordResponse = await dataverseClient.fetchEntities(names.entitySetName, {
+        filter: `${names.primaryIdAttribute} eq ${recordId}`,
+        top: 1,
+        includeAnnotations: ALL_ANNOTATIONS,
+      });
+      if (!cancelled) {
+        setContent({
+          formDefinition: parseFormXml(form.formxml),
+          attributes,
+          record: recordResponse.value[0] || {},
+        });
+      }
+    };
+    load().catch((err) => {
+      if (!cancelled) {
+        setError(getErrorMessage(err, 'Failed to load the quick view form'));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [quickForm?.entityName, quickForm?.formId, recordId]);
+
+  // Nothing is shown until the lookup refers to a record
+  if (!quickForm || !recordId) {
+    return null;
+  }
+
+  if (error) {
+    return (
+      <div className={`${styles.container} ${styles.error}`}>
+        <strong>{label}:</strong> {error}
+      </div>
+    );
+  }
+
+  if (!content) {
+    return (
+      <div className={styles.container}>
+        <Spinner size="small" label={`Loading ${label}...`} />
+      </div>
+    );
+  }
+
+  const { formDefinition, attributes, record } = content;
+  const annotatedRecord = new AnnotatedRecord(record);
+
+  const renderField = (fieldControl: FormControl) => {
+    const fieldName = fieldControl.datafieldname!;
+    const attribute = attributes.get(fieldName);
+    return (
+      <FormFieldControl
+        key={fieldControl.id}
+        fieldName={fieldName}
+        label={fieldControl.label || attribute?.DisplayName?.UserLocalizedLabel?.Label || fieldName}
+        classid={fieldControl.classid}
+        value={getAttributeControlKind(attribute) === 'lookup'
+          ? getLookupValue(record, fieldName, attribute)
+          : record[fieldName]}
+        formattedValue={annotatedRecord.getFormattedValue(fieldName)}
+        attribute={attribute}
+        disabled
+        onChange={() => undefined}
+      />
+    );
+  };
+
+  return (
+    <div className={styles.container} data-quick-form={quickForm.formId}>
+      <div className={styles.title}>{label}</div>
+      {formDefinition.tabs.filter(tab => tab.visible).flatMap(tab =>
+        tab.sections.filter(section => section.visible).flatMap(section =>
+          section.rows.map((row, rowIndex) => (
+            <div key={`${section.id}-${rowIndex}`} className={styles.formRow}>
+              {row.cells.map((cell, cellIndex) =>
+                cell.control?.datafieldname
+                  ? renderField(cell.control)
+                  : <div key={cellIndex} />
+              )}
+            </div>
+          ))
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+/**
+ * Subgrid control of a form
+ * Shows the records of a table related to the form record through a one-to-many or many-to-many relationship, with
+ * commands to create a related record and to relate an existing one. Tables with a quick create form create the
+ * record in a side panel.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/maker/model-driven-apps/form-designer-add-configure-subgrid
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  makeStyles,
+  tokens,
+  Spinner,
+  Button,
+  Dialog,
+  DialogSurface,
+  DialogBody,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@fluentui/react-components';
+import { metadataCache } from '../lib/metadata-cache';
+import {
+  getRelationshipLookupAttribute,
+  associateLookupRecord,
+  getManyToManyRelationship,
+  getManyToManyRole,
+  associateManyToManyRecord,
+} from '../lib/lookup-utils';
+import { getErrorMessage } from '../lib/dataverse-error';
+import { hasQuickCreateForm } from '../lib/system-forms';
+import EntityListView from './EntityListView';
+import LookupControl from './LookupControl';
+import QuickCreatePanel from './QuickCreatePanel';
+import ErrorDialog from './ErrorDialog';
+import type { XrmGridRecord } from '../lib/xrm-api';
+import type { FetchXmlConditionInput } from '../lib/fetchxml';
+import type { EntityNames, FormControl, LookupValue, ManyToManyRelationshipMetadata } from '../types/dataverse';
+
+const useStyles = makeStyles({
+  container: {
+    border: `1px solid ${tokens.colorNeutralStroke1}`,
+    borderRadius: tokens.borderRadiusMedium,
+  },
+  message: {
+    padding: '16px',
+    color: tokens.colorNeutralForeground3,
+  },
+  error: {
+    padding: '16px',
+    color: tokens.colorPaletteRedForeground1,
+  },
+});
+
+interface SubgridControlProps {
+  control: FormControl;
+  label: string;
+  /** Table and record of the form */
+  entityName: string;
+  recordId?: string;
+  recordName?: string;
+  /** Records are loaded again each time a script refreshes the subgrid */
+  refreshCount?: number;
+  onRecordsLoaded?: (records: XrmGridRecord[], totalCount?: number) => void;
+  onSelectionChange?: (recordIds: string[]) => void;
+  /** Type of the relationship once it is resolved from metadata: 0 = one-to-many, 1 = many-to-many */
+  onRelationshipResolved?: (relationshipType: number) => void;
+}
+
+export default function SubgridControl({
+  control,
+  label,
+  entityName,
+  recordId,
+  recordName,
+  refreshCount,
+  onRecordsLoaded,
+  onSelectionChange,
+  onRelationshipResolved,
+}: SubgridControlProps) {
+  const styles = useStyles();
+  const targetEntity = control.parameters?.targetEntityType || '';
+  const relationshipName = control.parameters?.relationshipName;
+  const [target, setTarget] = useState<EntityNames | null>(null);
+  const [lookupAttribute, setLookupAttribute] = useState<string | undefined>(undefined);
+  const [manyToMany, setManyToMany] = useState<ManyToManyRelationshipMetadata | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [addingExisting, setAddingExisting] = useState(false);
+  const [selectedRecord, setSelectedRecord] = useState<LookupValue | null>(null);
+  const [associateError, setAssociateError] = useState<unknown>(null);
+  const [relatedRecordChanges, setRelatedRecordChanges] = useState(0);
+  const [canQuickCreate, setCanQuickCreate] = useState(false);
+  const [quickCreateParameters, setQuickCreateParameters] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    const resolve = async () => {
+      const names = await metadataCache.getEntity(targetEntity);
+      // Many-to-many relationships relate the records through the rows of an intersect table instead of a lookup
+      const relationship = relationshipName
+        ? await getManyToManyRelationship(entityName, relationshipName, targetEntity)
+        : undefined;
+      const attribute = relationshipName && !relationship
+        ? await getRelationshipLookupAttribute(targetEntity, relationshipName, entityName)
+        : undefined;
+      if (relationshipName && !attribute && !relationship) {
+        throw new Error(`Relationship ${relationshipName} between ${entityName} and ${targetEntity} was not found`);
+      }
+      // Without a quick create form, New opens the main form of the table instead
+      const quickCreate = await hasQuickCreateForm(targetEntity).catch(() => false);
+      if (!cancelled) {
+        setTarget(names);
+        setLookupAttribute(attribute);
+        setManyToMany(relationship);
+        setCanQuickCreate(quickCreate);
+        if (relationshipName) {
+          onRelationshipResolved?.(relationship ? 1 : 0);
+        }
+      }
+    };
+    resolve().catch((err) => {
+      if (!cancelled) {
+        setError(getErrorMessage(err, 'Failed to load the subgrid'));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [targetEntity, relationshipName, entityName]);
+
+  /**
+   * Open a new record form with the lookup to the form record filled in
+   */
+  const handleNew = () => {
+    let formParameters: string | undefined;
+    if (lookupAttribute && recordId) {
+      const lookupParameters = new URLSearchParams();
+      lookupParameters.set(lookupAttribute, recordId);
+      lookupParameters.set(`${lookupAttribute}name`, recordName || '');
+      lookupParameters.set(`${lookupAttribute}type`, entityName);
+      formParameters = lookupParameters.toString();
+    }
+
+    if (canQuickCreate) {
+      setQuickCreateParameters(formParameters || '');
+      return;
+    }
+
+    const params = new URLSearchParams(window.location.search);
+    params.set('pagetype', 'entityrecord');
+    params.set('etn', targetEntity);
+    params.delete('id');
+    if (formParameters) {
+      params.set('extraqs', formParameters);
+    } else {
+      params.delete('extraqs');
+    }
+    window.history.pushState({}, '', `${window.location.pathname}?${params.toString()}`);
+    window.dispatchEvent(new Event('urlchange'));
+  };
+
+  /**
+   * Relate a record to the form record, by setting its lookup or by adding a row to the intersect table
+   */
+  const relateRecord = async (relatedRecord: LookupValue) => {
+    if (!recordId) {
+      return;
+    }
+    try {
+      if (manyToMany) {
+        await associateManyToManyRecord(manyToMany, entityName, recordId, relatedRecord);
+      } else if (lookupAttribute) {
+        await associateLookupRecord(targetEntity, relatedRecord.id, lookupAttribute, { id: recordId, entityType: entityName });
+      }
+      setRelatedRecordChanges(count => count + 1);
+    } catch (err) {
+      console.error('Error relating record:', err);
+      setAssociateError(err);
+    }
+  };
+
+  const handleAddExisting = async () => {
+    setAddingExisting(false);
+    if (selectedRecord) {
+      await relateRecord(selectedRecord);
+    }
+    setSelectedRecord(null);
+  };
+
+  /**
+   * Records of a many-to-many relationship are related once they are created; a lookup is filled in by the form
+   */
+  const handleQuickCreated = async (createdRecord: LookupValue) => {
+    setQuickCreateParameters(null);
+    if (manyToMany) {
+      await relateRecord(createdRecord);
+    } else {
+      setRelatedRecordChanges(count => count + 1);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className={`${styles.container} ${styles.error}`}>
+        <strong>{label}:</strong> {error}
+      </div>
+    );
+  }
+
+  if (!target) {
+    return (
+      <div className={styles.container}>
+        <Spinner size="small" label={`Loading ${label}...`} />
+      </div>
+    );
+  }
+
+  // Records are related through the id of the form record, which a new record does not have yet
+  if (relationshipName && !recordId) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.message}>
+          {label}: related records are shown once this record is saved
+        </div>
+      </div>
+    );
+  }
+
+  // Records of a many-to-many relationship are those with a row in the intersect table for the form record
+  let relatedRecordFilter: FetchXmlConditionInput | undefined;
+  if (manyToMany && recordId) {
+    const role = getManyToManyRole(manyToMany, entityName);
+    relatedRecordFilter = {
+      attribute: role.intersectAttribute,
+      operator: 'eq',
+      value: recordId,
+      intersect: { name: manyToMany.IntersectEntityName, from: role.relatedIntersectAttribute, to: target.primaryIdAttribute },
+    };
+  } else if (lookupAttribute && recordId) {
+    relatedRecordFilter = { attribute: lookupAttribute, operator: 'eq', value: recordId, uitype: entityName };
+  }
+
+  return (
+    <div className={styles.container}>
+      <EntityListView
+        entityName={target.logicalName}
+        entityPluralName={target.entitySetName}
+        displayName={label}
+        primaryIdAttribute={target.primaryIdAttribute}
+        initialViewId={control.parameters?.viewId?.replace(/[{}]/g, '').toLowerCase()}
+        initialPageSize={control.parameters?.recordsPerPage}
+        relatedRecordFilter={relatedRecordFilter}
+        onNew={handleNew}
+        onAddExisting={lookupAttribute || manyToMany ? () => setAddingExisting(true) : undefined}
+        onRecordsLoaded={(records, totalCount) => onRecordsLoaded?.(records.map(record => ({
+          id: record[target.primaryIdAttribute],
+          name: target.primaryNameAttribute ? record[target.primaryNameAttribute] : undefined,
+          data: record,
+        })), totalCount)}
+        onSelectionChange={onSelectionChange}
+        refreshKey={(refreshCount || 0) + relatedRecordChanges}
+      />
+      <Dialog open={addingExisting} onOpenChange={(_, data) => setAddingExisting(data.open)}>
+        <DialogSurface>
+          <DialogBody>
+            <DialogTitle>Add Existing {target.displayName || target.logicalName}</DialogTitle>
+            <DialogContent>
+              <LookupControl
+                label={target.displayName || target.logicalName}
+                value={selectedRecord}
+                targets={[target.logicalName]}
+                onChange={setSelectedRecord}
+              />
+            </DialogContent>
+            <DialogActions>
+              <Button appearance="primary" onClick={handleAddExisting} disabled={!selectedRecord}>
+                Add
+              </Button>
+              <Button appearance="secondary" onClick={() => setAddingExisting(false)}>
+                Cancel
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+      {quickCreateParameters !== null && (
+        <QuickCreatePanel
+          entityName={target.logicalName}
+          formParameters={quickCreateParameters || undefined}
+          onSaved={handleQuickCreated}
+          onDismiss={() => setQuickCreateParameters(null)}
+        />
+      )}
+      <ErrorDialog error={associateError} onDismiss={() => setAssociateError(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+/**
+ * Iframe showing a web resource or an external page
+ * Web resource URLs, including the $webresource: directive, are loaded once the /WebResources/ route is available.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resources
+ */
+
+import { useState, useEffect } from 'react';
+import { makeStyles, tokens, Spinner } from '@fluentui/react-components';
+import { getWebResourceName, registerWebResourceRoute, resolveWebResourceUrl } from '../lib/webresource-route';
+
+const useStyles = makeStyles({
+  frame: {
+    width: '100%',
+    height: '100%',
+    border: 'none',
+    display: 'block',
+  },
+  bordered: {
+    border: `1px solid ${tokens.colorNeutralStroke1}`,
+    boxSizing: 'border-box',
+  },
+  loadingContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    height: '100%',
+  },
+});
+
+interface WebResourceFrameProps {
+  url: string;
+  title: string;
+  bordered?: boolean;
+  scrolling?: string;
+  frameRef?: (frame: HTMLIFrameElement | null) => void;
+}
+
+export default function WebResourceFrame({ url, title, bordered, scrolling, frameRef }: WebResourceFrameProps) {
+  const styles = useStyles();
+  const isWebResource = getWebResourceName(url) !== undefined;
+  const [routeReady, setRouteReady] = useState(false);
+
+  useEffect(() => {
+    if (!isWebResource) {
+      return;
+    }
+    let active = true;
+    // The iframe is shown even when the route is unavailable, so the browser reports the failed load
+    registerWebResourceRoute().finally(() => {
+      if (active) {
+        setRouteReady(true);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [isWebResource]);
+
+  if (isWebResource && !routeReady) {
+    return (
+      <div className={styles.loadingContainer}>
+        <Spinner label="Loading web resource..." />
+      </div>
+    );
+  }
+
+  return (
+    <iframe
+      ref={frameRef}
+      className={bordered ? `${styles.frame} ${styles.bordered}` : styles.frame}
+      src={resolveWebResourceUrl(url)}
+      title={title}
+      scrolling={scrolling}
+    />
+  );
+}
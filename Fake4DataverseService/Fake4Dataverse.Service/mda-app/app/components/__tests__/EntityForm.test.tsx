@@ -3,14 +3,20 @@
  * Tests rendering of entity forms with tabs, sections, and controls
  */
 
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import EntityForm from '../EntityForm';
 import { dataverseClient } from '../../lib/dataverse-client';
+import { DataverseApiError } from '../../lib/dataverse-error';
+import { metadataCache } from '../../lib/metadata-cache';
+import { XrmApiImplementation } from '../../lib/xrm-api';
 
 // Mock the dataverse client
 jest.mock('../../lib/dataverse-client', () => ({
   dataverseClient: {
     fetchEntities: jest.fn(),
+    fetchEntity: jest.fn(),
+    fetchEntityDefinitions: jest.fn(),
+    fetchEntityAttributes: jest.fn(),
     createEntity: jest.fn(),
     updateEntity: jest.fn(),
   },
@@ -31,6 +37,8 @@ jest.mock('@fluentui/react-components', () => ({
     sectionTitle: '',
     formRow: '',
     field: '',
+    control: '',
+    currency: '',
   }),
 }));
 
@@ -90,6 +98,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -105,6 +114,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -123,6 +133,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
         recordId="acc1"
       />
@@ -141,6 +152,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -169,6 +181,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -189,6 +202,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
         appModuleId="app123"
       />
@@ -211,6 +225,7 @@ describe('EntityForm', () => {
       <EntityForm
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
         onClose={mockOnClose}
       />
@@ -221,4 +236,840 @@ describe('EntityForm', () => {
       expect(backButton).toBeInTheDocument();
     });
   });
+
+  it('renders controls from attribute metadata and saves typed values', async () => {
+    const typedForm = {
+      ...mockForm,
+      formxml: `<form><tabs><tab id="tab_general" name="general" visible="true">
+        <labels><label description="General" languagecode="1033" /></labels>
+        <columns><column width="100%"><sections>
+          <section id="section_info" name="info" visible="true">
+            <labels><label description="Information" languagecode="1033" /></labels>
+            <rows>
+              <row><cell id="c1"><labels><label description="Employees" languagecode="1033" /></labels>
+                <control id="numberofemployees" classid="{C6D124CA-7EDA-4A60-AEA9-7FB8D318B68F}" datafieldname="numberofemployees" />
+              </cell></row>
+              <row><cell id="c2"><labels><label description="Do not email" languagecode="1033" /></labels>
+                <control id="donotemail" classid="{67FAC785-CD58-4F9F-ABB3-4B7DDC6ED5ED}" datafieldname="donotemail" />
+              </cell></row>
+              <row><cell id="c3"><labels><label description="Description" languagecode="1033" /></labels>
+                <control id="description" classid="{E0DECE4B-6FC8-4A8F-A065-082708572369}" datafieldname="description" />
+              </cell></row>
+            </rows>
+          </section>
+        </sections></column></columns>
+      </tab></tabs></form>`,
+    };
+    (dataverseClient.fetchEntityDefinitions as jest.Mock).mockResolvedValue({
+      value: [{
+        LogicalName: 'new_project',
+        Attributes: [
+          { LogicalName: 'numberofemployees', AttributeType: 'Integer', MinValue: 0, MaxValue: 1000 },
+          {
+            LogicalName: 'donotemail',
+            AttributeType: 'Boolean',
+            OptionSet: {
+              TrueOption: { Value: 1, Label: { UserLocalizedLabel: { Label: 'Do Not Allow' } } },
+              FalseOption: { Value: 0, Label: { UserLocalizedLabel: { Label: 'Allow' } } },
+            },
+          },
+          { LogicalName: 'description', AttributeType: 'Memo', MaxLength: 2000 },
+        ],
+      }],
+    });
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [typedForm] })
+      .mockResolvedValueOnce({
+        value: [{ new_projectid: 'p1', numberofemployees: 10, donotemail: false, description: 'Notes', '@odata.etag': 'W/"1"' }],
+      });
+
+    render(
+      <EntityForm
+        entityName="new_project"
+        entityPluralName="new_projects"
+        primaryIdAttribute="new_projectid"
+        recordId="p1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('switch')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Allow')).toBeInTheDocument();
+    expect(screen.getByRole('spinbutton')).toHaveValue(10);
+    expect(screen.getByRole('textbox')).toHaveValue('Notes');
+
+    fireEvent.change(screen.getByRole('spinbutton'), { target: { value: '25' } });
+    fireEvent.click(screen.getByRole('switch'));
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(dataverseClient.updateEntity).toHaveBeenCalledWith(
+        'new_projects',
+        'p1',
+        { numberofemployees: 25, donotemail: true }
+      );
+    });
+  });
+
+  it('shows a plug-in exception as a business process error and keeps the changes', async () => {
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [mockForm] })
+      .mockResolvedValueOnce({ value: [mockRecord] });
+    (dataverseClient.updateEntity as jest.Mock).mockRejectedValueOnce(new DataverseApiError(
+      400,
+      'Bad Request',
+      { method: 'PATCH', url: '/api/data/v9.2/accounts(acc1)', body: { name: 'Contoso Ltd' } },
+      { error: { code: '0x80040265', message: 'Account name cannot be changed after approval.' } }
+    ));
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        recordId="acc1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('textbox')).toHaveValue('Contoso');
+    });
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'Contoso Ltd' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Business Process Error')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Account name cannot be changed after approval.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('OK'));
+    await waitFor(() => {
+      expect(screen.queryByText('Business Process Error')).not.toBeInTheDocument();
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('Contoso Ltd');
+  });
+
+  it('keeps the Save command disabled while the Xrm API is not ready', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const registerTab = jest.spyOn(XrmApiImplementation.prototype, 'registerTab').mockImplementation(() => {
+      throw new Error('Form could not be registered');
+    });
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [mockForm] })
+      .mockResolvedValueOnce({ value: [mockRecord] });
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        recordId="acc1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(error).toHaveBeenCalledWith('Error initializing Xrm API:', expect.any(Error));
+    });
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'Contoso Ltd' } });
+
+    expect(screen.getByText('Save').closest('button')).toBeDisabled();
+    expect(dataverseClient.updateEntity).not.toHaveBeenCalled();
+
+    registerTab.mockRestore();
+    error.mockRestore();
+  });
+
+  it('renders control state and form notifications set by form scripts', async () => {
+    const scriptedForm = {
+      ...mockForm,
+      formxml: mockForm.formxml
+        .replace('<tabs>', `<formLibraries><Library name="new_account.js" libraryUniqueId="lib1" /></formLibraries>
+  <events><event name="onload" application="false" active="true">
+    <Handlers><Handler functionName="onAccountLoad" libraryName="new_account.js" /></Handlers>
+  </event></events>
+  <tabs>`)
+        .replace('</row>', `</row>
+                <row>
+                  <cell id="c2">
+                    <labels><label description="Phone" languagecode="1033" /></labels>
+                    <control id="telephone1" classid="{4273EDBD-AC1D-40D3-9FB2-095C621B552D}" datafieldname="telephone1" />
+                  </cell>
+                </row>`),
+    };
+    const script = `window.onAccountLoad = function (executionContext) {
+      var formContext = executionContext.getFormContext();
+      formContext.getControl('telephone1').setVisible(false);
+      formContext.getControl('name').setLabel('Company');
+      formContext.getControl('name').setDisabled(true);
+      formContext.getControl('name').setNotification('Name must be unique', 'unique');
+      formContext.ui.setFormNotification('This account is on credit hold', 'WARNING', 'credit');
+      formContext.ui.setFormNotification('Temporary', 'INFO', 'temp');
+      formContext.ui.clearFormNotification('temp');
+    };`;
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [scriptedForm] })
+      .mockResolvedValueOnce({ value: [{ ...mockRecord, telephone1: '555-0100' }] })
+      .mockResolvedValueOnce({ value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] });
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValueOnce({ content: btoa(script) });
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        recordId="acc1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Name must be unique')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Company')).toBeInTheDocument();
+    expect(screen.getByRole('textbox')).toBeDisabled();
+    expect(screen.queryByText('Phone')).not.toBeInTheDocument();
+    expect(screen.getByText('This account is on credit hold')).toBeInTheDocument();
+    expect(screen.queryByText('Temporary')).not.toBeInTheDocument();
+  });
+
+  it('does not save when an OnSave handler in a library namespace prevents the save', async () => {
+    const scriptedForm = {
+      ...mockForm,
+      formxml: mockForm.formxml.replace('<tabs>', `<formLibraries><Library name="new_account.js" libraryUniqueId="lib1" /></formLibraries>
+  <events><event name="onsave" application="false" active="true">
+    <Handlers><Handler functionName="Contoso.Account.onSave" libraryName="new_account.js" parameters="'Approval pending'" passExecutionContext="true" /></Handlers>
+  </event></events>
+  <tabs>`),
+    };
+    const script = `var Contoso = { Account: {
+      onSave: function (executionContext, message) {
+        executionContext.getFormContext().ui.setFormNotification(message, 'ERROR', 'approval');
+        executionContext.getEventArgs().preventDefault();
+      }
+    } };`;
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [scriptedForm] })
+      .mockResolvedValueOnce({ value: [mockRecord] })
+      .mockResolvedValueOnce({ value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] });
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValueOnce({ content: btoa(script) });
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        recordId="acc1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('textbox')).toHaveValue('Contoso');
+    });
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'Contoso Ltd' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Approval pending')).toBeInTheDocument();
+    });
+    expect(dataverseClient.updateEntity).not.toHaveBeenCalled();
+  });
+
+  it('fires OnChange handlers from the form when the user edits a field', async () => {
+    const scriptedForm = {
+      ...mockForm,
+      formxml: mockForm.formxml.replace('<tabs>', `<formLibraries><Library name="new_account.js" libraryUniqueId="lib1" /></formLibraries>
+  <events><event name="onchange" application="false" active="true" attribute="name">
+    <Handlers><Handler functionName="onNameChange" libraryName="new_account.js" passExecutionContext="true" /></Handlers>
+  </event></events>
+  <tabs>`),
+    };
+    const script = `window.onNameChange = function (executionContext) {
+      var name = executionContext.getEventSource();
+      name.setValue(name.getValue().toUpperCase());
+      executionContext.getFormContext().ui.setFormNotification('Renamed to ' + name.getValue(), 'INFO', 'rename');
+    };`;
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [scriptedForm] })
+      .mockResolvedValueOnce({ value: [mockRecord] })
+      .mockResolvedValueOnce({ value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] });
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValueOnce({ content: btoa(script) });
+    (dataverseClient.updateEntity as jest.Mock).mockResolvedValue(undefined);
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        recordId="acc1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('textbox')).toHaveValue('Contoso');
+    });
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: 'Contoso Ltd' } });
+
+    await waitFor(() => {
+      expect(screen.getByText('Renamed to CONTOSO LTD')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('CONTOSO LTD');
+
+    fireEvent.click(screen.getByText('Save'));
+    await waitFor(() => {
+      expect(dataverseClient.updateEntity).toHaveBeenCalledWith('accounts', 'acc1', { name: 'CONTOSO LTD' });
+    });
+  });
+
+  it('shows tabs and sections as changed by form scripts', async () => {
+    const scriptedForm = {
+      ...mockForm,
+      formxml: mockForm.formxml
+        .replace('<tabs>', `<formLibraries><Library name="new_account.js" libraryUniqueId="lib1" /></formLibraries>
+  <events><event name="onload" application="false" active="true">
+    <Handlers><Handler functionName="onAccountTabsLoad" libraryName="new_account.js" /></Handlers>
+  </event></events>
+  <tabs>`)
+        .replace('</tab>', `</tab>
+        <tab id="tab_details" name="details" visible="true">
+          <labels><label description="Details" languagecode="1033" /></labels>
+          <columns><column width="100%"><sections>
+            <section id="section_address" name="address" visible="true">
+              <labels><label description="Address" languagecode="1033" /></labels>
+              <rows></rows>
+            </section>
+            <section id="section_notes" name="notes" visible="true">
+              <labels><label description="Notes" languagecode="1033" /></labels>
+              <rows></rows>
+            </section>
+          </sections></column></columns>
+        </tab>`),
+    };
+    const script = `window.onAccountTabsLoad = function (executionContext) {
+      var tabs = executionContext.getFormContext().ui.tabs;
+      tabs.get('general').setLabel('Summary');
+      tabs.get('details').sections.get('notes').setVisible(false);
+      tabs.get('details').setDisplayState('expanded');
+      tabs.get('general').addTabStateChange(function () {
+        tabs.get('details').setLabel('More details');
+      });
+    };`;
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [scriptedForm] })
+      .mockResolvedValueOnce({ value: [mockRecord] })
+      .mockResolvedValueOnce({ value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] });
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValueOnce({ content: btoa(script) });
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        recordId="acc1"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Address')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Notes')).not.toBeInTheDocument();
+    expect(screen.getByRole('tab', { name: 'Details' })).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Summary' }));
+    await waitFor(() => {
+      expect(screen.getByRole('tab', { name: 'More details' })).toBeInTheDocument();
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('Contoso');
+  });
+
+  it('renders web resource controls with their parameters and gives scripts their window', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const scriptedForm = {
+      ...mockForm,
+      formxml: mockForm.formxml
+        .replace('<tabs>', `<formLibraries><Library name="new_account.js" libraryUniqueId="lib1" /></formLibraries>
+  <events><event name="onload" application="false" active="true">
+    <Handlers><Handler functionName="onAccountLoad" libraryName="new_account.js" /></Handlers>
+  </event></events>
+  <tabs>`)
+        .replace('</row>', `</row>
+                <row>
+                  <cell id="c2" showlabel="false">
+                    <labels><label description="Credit panel" languagecode="1033" /></labels>
+                    <control id="WebResource_credit" classid="{9FDF5F91-88B1-47f4-AD53-C11EFC01A01D}">
+                      <parameters>
+                        <Url>new_/credit.htm</Url>
+                        <PassParameters>true</PassParameters>
+                        <Data>limit=500</Data>
+                        <Height>200</Height>
+                        <Scrolling>no</Scrolling>
+                        <Border>false</Border>
+                      </parameters>
+                    </control>
+                  </cell>
+                </row>`),
+    };
+    const script = `window.onAccountLoad = function (executionContext) {
+      var formContext = executionContext.getFormContext();
+      formContext.getControl('WebResource_credit').getContentWindow().then(function (contentWindow) {
+        formContext.ui.setFormNotification('Credit panel ready: ' + !!contentWindow, 'INFO', 'credit');
+      });
+    };`;
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [scriptedForm] })
+      .mockResolvedValueOnce({ value: [mockRecord] })
+      .mockResolvedValueOnce({ value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] });
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValueOnce({ content: btoa(script) });
+
+    render(
+      <EntityForm
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        objectTypeCode={1}
+        recordId="acc1"
+      />
+    );
+
+    const frame = await screen.findByTitle('Credit panel');
+    expect(frame).toHaveAttribute(
+      'src',
+      '/WebResources/new_/credit.htm?typename=account&type=1&id=%7BACC1%7D&orgname=fake4dataverse&userlcid=1033&orglcid=1033&data=limit%3D500'
+    );
+    expect(frame).toHaveAttribute('scrolling', 'no');
+    expect(frame.parentElement).toHaveStyle({ height: '200px' });
+
+    fireEvent.load(frame);
+    await waitFor(() => {
+      expect(screen.getByText('Credit panel ready: true')).toBeInTheDocument();
+    });
+    warn.mockRestore();
+  });
+
+  describe('subgrids', () => {
+    const definitions: Record<string, any> = {
+      account: {
+        LogicalName: 'account',
+        EntitySetName: 'accounts',
+        PrimaryIdAttribute: 'accountid',
+        PrimaryNameAttribute: 'name',
+        Attributes: [{ LogicalName: 'name', AttributeType: 'String' }],
+        ManyToOneRelationships: [],
+      },
+      contact: {
+        LogicalName: 'contact',
+        EntitySetName: 'contacts',
+        PrimaryIdAttribute: 'contactid',
+        PrimaryNameAttribute: 'fullname',
+        DisplayName: { UserLocalizedLabel: { Label: 'Contact' } },
+        Attributes: [
+          { LogicalName: 'fullname', AttributeType: 'String' },
+          { LogicalName: 'parentcustomerid', AttributeType: 'Customer', Targets: ['account', 'contact'] },
+        ],
+        ManyToOneRelationships: [{
+          SchemaName: 'contact_customer_accounts',
+          ReferencedEntity: 'account',
+          ReferencedAttribute: 'accountid',
+          ReferencingEntity: 'contact',
+          ReferencingAttribute: 'parentcustomerid',
+          ReferencingEntityNavigationPropertyName: 'parentcustomerid_account',
+        }],
+      },
+    };
+
+    const contactsView = {
+      savedqueryid: '00000000-0000-0000-00aa-000010001004',
+      name: 'Active Contacts',
+      returnedtypecode: 'contact',
+      fetchxml: '<fetch><entity name="contact"><attribute name="fullname" /></entity></fetch>',
+      layoutxml: '<grid><row><cell name="fullname" /></row></grid>',
+      isdefault: true,
+    };
+
+    const subgridForm = {
+      ...mockForm,
+      formxml: mockForm.formxml
+        .replace('<tabs>', `<formLibraries><Library name="new_account.js" libraryUniqueId="lib1" /></formLibraries>
+  <events><event name="onload" application="false" active="true">
+    <Handlers><Handler functionName="onAccountLoad" libraryName="new_account.js" /></Handlers>
+  </event></events>
+  <tabs>`)
+        .replace('</row>', `</row>
+                <row>
+                  <cell id="c_contacts">
+                    <labels><label description="Contacts" languagecode="1033" /></labels>
+                    <control id="Contacts" classid="{E7A81278-8635-4D9E-8D4D-59480B391C5B}">
+                      <parameters>
+                        <TargetEntityType>contact</TargetEntityType>
+                        <ViewId>{00000000-0000-0000-00AA-000010001004}</ViewId>
+                        <RelationshipName>contact_customer_accounts</RelationshipName>
+                        <RecordsPerPage>4</RecordsPerPage>
+                      </parameters>
+                    </control>
+                  </cell>
+                </row>`),
+    };
+
+    beforeEach(() => {
+      metadataCache.clear();
+      (dataverseClient.fetchEntityDefinitions as jest.Mock).mockImplementation(async (options: { filter?: string }) => {
+        const logicalName = options.filter?.match(/'(.+)'/)?.[1];
+        return { value: logicalName ? [definitions[logicalName]] : Object.values(definitions) };
+      });
+    });
+
+    afterEach(() => {
+      window.history.pushState({}, '', '/');
+    });
+
+    it('shows the related records with a grid control API and opens new records with the lookup set', async () => {
+      const script = `window.onAccountLoad = function (executionContext) {
+        var formContext = executionContext.getFormContext();
+        var grid = formContext.getControl('Contacts');
+        grid.addOnLoad(function () {
+          var rows = grid.getGrid().getRows();
+          var entity = rows.get(0).getData().entity;
+          formContext.ui.setFormNotification(
+            grid.getEntityName() + ' loaded: ' + rows.getLength() + ' ' + entity.getPrimaryAttributeValue() + ' ' +
+            entity.attributes.get('parentcustomerid').getValue().id, 'INFO', 'grid');
+        });
+        grid.refresh();
+      };`;
+      (dataverseClient.fetchEntities as jest.Mock).mockImplementation(async (entitySetName: string, options: any) => {
+        switch (entitySetName) {
+          case 'systemforms':
+            return { value: options.filter.includes('type eq 2') ? [subgridForm] : [] };
+          case 'accounts':
+            return { value: [mockRecord] };
+          case 'webresources':
+            return { value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] };
+          case 'savedqueries':
+            return { value: [contactsView] };
+          case 'contacts':
+            return { value: [{ contactid: 'c1', fullname: 'Yvonne McKay', _parentcustomerid_value: 'acc1' }], '@odata.count': 1 };
+          default:
+            return { value: [] };
+        }
+      });
+      (dataverseClient.fetchEntity as jest.Mock).mockResolvedValue({ content: btoa(script) });
+
+      render(
+        <EntityForm
+          entityName="account"
+          entityPluralName="accounts"
+          primaryIdAttribute="accountid"
+          primaryNameAttribute="name"
+          recordId="acc1"
+        />
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('contact loaded: 1 Yvonne McKay acc1')).toBeInTheDocument();
+      });
+      expect(screen.getByText('Yvonne McKay')).toBeInTheDocument();
+      const contactQueries = (dataverseClient.fetchEntities as jest.Mock).mock.calls.filter(([name]) => name === 'contacts');
+      expect(contactQueries[0][1]).toMatchObject({ filter: '_parentcustomerid_value eq acc1', maxPageSize: 4 });
+      expect(contactQueries.length).toBeGreaterThanOrEqual(2);
+      expect(screen.getByText('Add Existing')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('New'));
+
+      const params = new URLSearchParams(window.location.search);
+      expect(params.get('etn')).toBe('contact');
+      expect(params.get('extraqs')).toBe('parentcustomerid=acc1&parentcustomeridname=Contoso&parentcustomeridtype=account');
+    });
+
+    it('shows the records of a many-to-many relationship through its intersect table', async () => {
+      const accountLeads = {
+        SchemaName: 'accountleads_association',
+        IntersectEntityName: 'accountleads',
+        Entity1LogicalName: 'account',
+        Entity1IntersectAttribute: 'accountid',
+        Entity1NavigationPropertyName: 'accountleads_association',
+        Entity2LogicalName: 'lead',
+        Entity2IntersectAttribute: 'leadid',
+        Entity2NavigationPropertyName: 'leadaccounts_association',
+      };
+      const manyToManyDefinitions: Record<string, any> = {
+        ...definitions,
+        account: { ...definitions.account, ManyToManyRelationships: [accountLeads] },
+        lead: {
+          LogicalName: 'lead',
+          EntitySetName: 'leads',
+          PrimaryIdAttribute: 'leadid',
+          PrimaryNameAttribute: 'fullname',
+          Attributes: [
+            { LogicalName: 'fullname', AttributeType: 'String' },
+            { LogicalName: 'parentaccountid', AttributeType: 'Lookup', Targets: ['account'] },
+          ],
+          ManyToOneRelationships: [],
+          ManyToManyRelationships: [accountLeads],
+        },
+        accountleads: {
+          LogicalName: 'accountleads',
+          Attributes: [
+            { LogicalName: 'accountid', AttributeType: 'Uniqueidentifier' },
+            { LogicalName: 'leadid', AttributeType: 'Uniqueidentifier' },
+          ],
+        },
+      };
+      (dataverseClient.fetchEntityDefinitions as jest.Mock).mockImplementation(async (options: { filter?: string }) => {
+        const logicalName = options.filter?.match(/'(.+)'/)?.[1];
+        return { value: logicalName ? [manyToManyDefinitions[logicalName]] : Object.values(manyToManyDefinitions) };
+      });
+      const leadsForm = {
+        ...subgridForm,
+        formxml: subgridForm.formxml
+          .replace('<TargetEntityType>contact</TargetEntityType>', '<TargetEntityType>lead</TargetEntityType>')
+          .replace('<RelationshipName>contact_customer_accounts</RelationshipName>', '<RelationshipName>accountleads_association</RelationshipName>'),
+      };
+      const leadsView = {
+        ...contactsView,
+        returnedtypecode: 'lead',
+        fetchxml: '<fetch><entity name="lead"><attribute name="fullname" /></entity></fetch>',
+      };
+      const script = `window.onAccountLoad = function (executionContext) {
+        var formContext = executionContext.getFormContext();
+        var grid = formContext.getControl('Contacts');
+        grid.addOnLoad(function () {
+          formContext.ui.setFormNotification(
+            'Relationship type: ' + grid.getRelationship().relationshipType, 'INFO', 'grid');
+        });
+      };`;
+      (dataverseClient.fetchEntities as jest.Mock).mockImplementation(async (entitySetName: string, options: any) => {
+        switch (entitySetName) {
+          case 'systemforms':
+            return { value: options.filter.includes('type eq 2') ? [leadsForm] : [] };
+          case 'accounts':
+            return { value: [mockRecord] };
+          case 'webresources':
+            return { value: [{ webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3 }] };
+          case 'savedqueries':
+            return { value: [leadsView] };
+          case 'leads':
+            return { value: [{ leadid: 'l1', fullname: 'Susanna Stubberod', _parentaccountid_value: 'acc2' }], '@odata.count': 1 };
+          default:
+            return { value: [] };
+        }
+      });
+      (dataverseClient.fetchEntity as jest.Mock).mockResolvedValue({ content: btoa(script) });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      render(
+        <EntityForm
+          entityName="account"
+          entityPluralName="accounts"
+          primaryIdAttribute="accountid"
+          primaryNameAttribute="name"
+          recordId="acc1"
+        />
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Relationship type: 1')).toBeInTheDocument();
+      });
+      const leadQueries = (dataverseClient.fetchEntities as jest.Mock).mock.calls.filter(([name]) => name === 'leads');
+      expect(leadQueries[0][1]).toMatchObject({ filter: 'leadaccounts_association/any(o1:o1/accountid eq acc1)' });
+      expect(screen.getByText('Add Existing')).toBeInTheDocument();
+      warn.mockRestore();
+    });
+
+    it('fills in a new record from form parameters and saves the lookup as a binding', async () => {
+      const contactForm = {
+        ...mockForm,
+        objecttypecode: 'contact',
+        formxml: mockForm.formxml
+          .replace('datafieldname="name"', 'datafieldname="fullname"')
+          .replace('control id="name"', 'control id="fullname"'),
+      };
+      (dataverseClient.fetchEntities as jest.Mock).mockResolvedValueOnce({ value: [contactForm] });
+      (dataverseClient.createEntity as jest.Mock).mockResolvedValue('c2');
+
+      render(
+        <EntityForm
+          entityName="contact"
+          entityPluralName="contacts"
+          primaryIdAttribute="contactid"
+          formParameters="parentcustomerid=%7BACC1%7D&parentcustomeridname=Contoso&parentcustomeridtype=account"
+        />
+      );
+
+      const fullName = await screen.findByRole('textbox');
+      fireEvent.change(fullName, { target: { value: 'Nancy Anderson' } });
+      fireEvent.click(screen.getByText('Save'));
+
+      await waitFor(() => {
+        expect(dataverseClient.createEntity).toHaveBeenCalledWith('contacts', {
+          fullname: 'Nancy Anderson',
+          'parentcustomerid_account@odata.bind': '/accounts(ACC1)',
+        });
+      });
+    });
+  });
+
+  describe('quick view and quick create forms', () => {
+    const definitions: Record<string, any> = {
+      account: {
+        LogicalName: 'account',
+        EntitySetName: 'accounts',
+        PrimaryIdAttribute: 'accountid',
+        PrimaryNameAttribute: 'name',
+        Attributes: [
+          { LogicalName: 'name', AttributeType: 'String' },
+          { LogicalName: 'primarycontactid', AttributeType: 'Lookup', Targets: ['contact'] },
+        ],
+        ManyToOneRelationships: [],
+      },
+      contact: {
+        LogicalName: 'contact',
+        EntitySetName: 'contacts',
+        PrimaryIdAttribute: 'contactid',
+        PrimaryNameAttribute: 'fullname',
+        DisplayName: { UserLocalizedLabel: { Label: 'Contact' } },
+        Attributes: [
+          { LogicalName: 'fullname', AttributeType: 'String' },
+          { LogicalName: 'emailaddress1', AttributeType: 'String' },
+          { LogicalName: 'parentcustomerid', AttributeType: 'Customer', Targets: ['account', 'contact'] },
+        ],
+        ManyToOneRelationships: [{
+          SchemaName: 'contact_customer_accounts',
+          ReferencedEntity: 'account',
+          ReferencedAttribute: 'accountid',
+          ReferencingEntity: 'contact',
+          ReferencingAttribute: 'parentcustomerid',
+          ReferencingEntityNavigationPropertyName: 'parentcustomerid_account',
+        }],
+      },
+    };
+
+    const contactForm = (type: number, controls: string) => ({
+      formid: `contact${type}`,
+      name: 'Contact',
+      objecttypecode: 'contact',
+      type,
+      formxml: `<form><tabs><tab id="tab_general" name="general" visible="true">
+        <columns><column width="100%"><sections>
+          <section id="section_info" name="info" visible="true"><rows>${controls}</rows></section>
+        </sections></column></columns>
+      </tab></tabs></form>`,
+    });
+
+    const quickViewForm = contactForm(6, `
+      <row><cell id="c1"><labels><label description="Email" languagecode="1033" /></labels>
+        <control id="emailaddress1" classid="{ADA2203E-B4CD-49BE-9DDF-234642B43B52}" datafieldname="emailaddress1" />
+      </cell></row>`);
+
+    const quickCreateForm = contactForm(7, `
+      <row><cell id="c1"><labels><label description="Full Name" languagecode="1033" /></labels>
+        <control id="fullname" classid="{4273EDBD-AC1D-40D3-9FB2-095C621B552D}" datafieldname="fullname" />
+      </cell></row>`);
+
+    beforeEach(() => {
+      metadataCache.clear();
+      (dataverseClient.fetchEntityDefinitions as jest.Mock).mockImplementation(async (options: { filter?: string }) => {
+        const logicalName = options.filter?.match(/'(.+)'/)?.[1];
+        return { value: logicalName ? [definitions[logicalName]] : Object.values(definitions) };
+      });
+    });
+
+    it('shows the record of a lookup in a quick view form', async () => {
+      const accountForm = {
+        ...mockForm,
+        formxml: mockForm.formxml.replace('</row>', `</row>
+                <row>
+                  <cell id="c_contact">
+                    <labels><label description="Primary Contact" languagecode="1033" /></labels>
+                    <control id="contactquickform" classid="{5C5600E0-1D6E-4205-A272-BE80DA87FD42}" datafieldname="primarycontactid">
+                      <parameters>
+                        <QuickForms>&lt;QuickFormIds&gt;&lt;QuickFormId entityname="contact"&gt;{CONTACT6}&lt;/QuickFormId&gt;&lt;/QuickFormIds&gt;</QuickForms>
+                      </parameters>
+                    </control>
+                  </cell>
+                </row>`),
+      };
+      (dataverseClient.fetchEntities as jest.Mock).mockImplementation(async (entitySetName: string, options: any) => {
+        switch (entitySetName) {
+          case 'systemforms':
+            return { value: options.filter === 'formid eq contact6' ? [quickViewForm] : [accountForm] };
+          case 'accounts':
+            return { value: [{ ...mockRecord, _primarycontactid_value: 'c1' }] };
+          case 'contacts':
+            return { value: [{ contactid: 'c1', fullname: 'Yvonne McKay', emailaddress1: 'yvonne@contoso.com' }] };
+          default:
+            return { value: [] };
+        }
+      });
+
+      render(
+        <EntityForm
+          entityName="account"
+          entityPluralName="accounts"
+          primaryIdAttribute="accountid"
+          recordId="acc1"
+        />
+      );
+
+      const email = await screen.findByDisplayValue('yvonne@contoso.com');
+      expect(email).toBeDisabled();
+      expect(screen.getByText('Primary Contact')).toBeInTheDocument();
+      expect(dataverseClient.fetchEntities).toHaveBeenCalledWith('contacts', expect.objectContaining({
+        filter: 'contactid eq c1',
+      }));
+    });
+
+    it('creates related records of a subgrid in the quick create form', async () => {
+      const accountForm = {
+        ...mockForm,
+        formxml: mockForm.formxml.replace('</row>', `</row>
+                <row>
+                  <cell id="c_contacts">
+                    <labels><label description="Contacts" languagecode="1033" /></labels>
+                    <control id="Contacts" classid="{E7A81278-8635-4D9E-8D4D-59480B391C5B}">
+                      <parameters>
+                        <TargetEntityType>contact</TargetEntityType>
+                        <RelationshipName>contact_customer_accounts</RelationshipName>
+                      </parameters>
+                    </control>
+                  </cell>
+                </row>`),
+      };
+      (dataverseClient.fetchEntities as jest.Mock).mockImplementation(async (entitySetName: string, options: any) => {
+        switch (entitySetName) {
+          case 'systemforms':
+            return { value: options.filter.includes('type eq 7') ? [quickCreateForm] : [accountForm] };
+          case 'accounts':
+            return { value: [mockRecord] };
+          default:
+            return { value: [] };
+        }
+      });
+      (dataverseClient.createEntity as jest.Mock).mockResolvedValue('c2');
+
+      render(
+        <EntityForm
+          entityName="account"
+          entityPluralName="accounts"
+          primaryIdAttribute="accountid"
+          primaryNameAttribute="name"
+          recordId="acc1"
+        />
+      );
+
+      fireEvent.click(await screen.findByText('New'));
+
+      expect(await screen.findByText('Quick Create: Contact')).toBeInTheDocument();
+      fireEvent.change(await screen.findByLabelText('Full Name'), { target: { value: 'Nancy Anderson' } });
+      fireEvent.click(screen.getAllByText('Save').pop()!);
+
+      await waitFor(() => {
+        expect(dataverseClient.createEntity).toHaveBeenCalledWith('contacts', {
+          fullname: 'Nancy Anderson',
+          'parentcustomerid_account@odata.bind': '/accounts(acc1)',
+        });
+      });
+      await waitFor(() => {
+        expect(screen.queryByText('Quick Create: Contact')).not.toBeInTheDocument();
+      });
+      expect(window.location.search).toBe('');
+    });
+  });
 });
@@ -3,7 +3,7 @@
  * Tests rendering of entity records in a data grid with views
  */
 
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import EntityListView from '../EntityListView';
 import { dataverseClient } from '../../lib/dataverse-client';
 
@@ -11,6 +11,10 @@ import { dataverseClient } from '../../lib/dataverse-client';
 jest.mock('../../lib/dataverse-client', () => ({
   dataverseClient: {
     fetchEntities: jest.fn(),
+    fetchNextLink: jest.fn(),
+    fetchEntityDefinitions: jest.fn(),
+    fetchByFetchXml: jest.fn(),
+    batch: jest.fn(),
   },
 }));
 
@@ -30,6 +34,9 @@ jest.mock('@fluentui/react-components', () => ({
     emptyContainer: '',
     dataGrid: '',
     recordCount: '',
+    pagingBar: '',
+    pagingControls: '',
+    pageSizeSwitcher: '',
   }),
 }));
 
@@ -77,6 +84,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -93,6 +101,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -116,6 +125,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -136,6 +146,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -152,6 +163,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -173,6 +185,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
       />
     );
@@ -193,6 +206,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
         initialViewId="view2"
       />
@@ -213,6 +227,7 @@ describe('EntityListView', () => {
       <EntityListView
         entityName="account"
         entityPluralName="accounts"
+        primaryIdAttribute="accountid"
         displayName="Accounts"
         appModuleId="app123"
       />
@@ -225,4 +240,177 @@ describe('EntityListView', () => {
       );
     });
   });
+
+  it('pages through records with @odata.nextLink and shows the total count', async () => {
+    (dataverseClient.fetchEntities as jest.Mock).mockReset();
+    const firstPage = Array.from({ length: 50 }, (_, i) => ({ accountid: `acc${i}`, name: `Account ${i}` }));
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: mockViews })
+      .mockResolvedValueOnce({
+        value: firstPage,
+        '@odata.count': 51,
+        '@odata.nextLink': 'http://localhost/api/data/v9.2/accounts?$skiptoken=page2',
+      });
+    (dataverseClient.fetchNextLink as jest.Mock)
+      .mockResolvedValueOnce({ value: [mockRecords[1]], '@odata.count': 51 });
+
+    render(
+      <EntityListView
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        displayName="Accounts"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Showing 1-50 of 51 records')).toBeInTheDocument();
+    });
+    expect(dataverseClient.fetchEntities).toHaveBeenLastCalledWith(
+      'accounts',
+      expect.objectContaining({ count: true, maxPageSize: 50 })
+    );
+
+    fireEvent.click(screen.getByLabelText('Next page'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Showing 51-51 of 51 records')).toBeInTheDocument();
+    });
+    expect(dataverseClient.fetchNextLink).toHaveBeenCalledWith(
+      'http://localhost/api/data/v9.2/accounts?$skiptoken=page2',
+      { maxPageSize: 50, includeAnnotations: '*' }
+    );
+    expect(screen.getByLabelText('Next page')).toBeDisabled();
+  });
+
+  it('shows formatted values for choices, money, dates and lookups', async () => {
+    (dataverseClient.fetchEntities as jest.Mock).mockReset();
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({
+        value: [{
+          ...mockViews[0],
+          layoutxml: '<grid><row><cell name="name"/><cell name="industrycode"/><cell name="revenue"/>'
+            + '<cell name="createdon"/><cell name="parentaccountid"/></row></grid>',
+        }],
+      })
+      .mockResolvedValueOnce({
+        value: [{
+          accountid: 'acc1',
+          name: 'Contoso',
+          industrycode: 2,
+          'industrycode@OData.Community.Display.V1.FormattedValue': 'Agriculture',
+          revenue: 100000,
+          'revenue@OData.Community.Display.V1.FormattedValue': '$100,000.00',
+          createdon: '2024-03-01T10:00:00Z',
+          'createdon@OData.Community.Display.V1.FormattedValue': '3/1/2024 10:00 AM',
+          _parentaccountid_value: 'acc0',
+          '_parentaccountid_value@OData.Community.Display.V1.FormattedValue': 'Northwind',
+          '_parentaccountid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'account',
+        }],
+      });
+
+    render(
+      <EntityListView
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        displayName="Accounts"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Agriculture')).toBeInTheDocument();
+    });
+    expect(screen.getByText('$100,000.00')).toBeInTheDocument();
+    expect(screen.getByText('3/1/2024 10:00 AM')).toBeInTheDocument();
+    expect(screen.getByText('Northwind')).toBeInTheDocument();
+    expect(dataverseClient.fetchEntities).toHaveBeenLastCalledWith(
+      'accounts',
+      expect.objectContaining({ includeAnnotations: '*' })
+    );
+  });
+
+  it('deletes the selected records in one batch', async () => {
+    (dataverseClient.fetchEntities as jest.Mock).mockReset();
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: mockViews })
+      .mockResolvedValueOnce({ value: mockRecords })
+      .mockResolvedValueOnce({ value: [mockRecords[1]] });
+    const batch = {
+      delete: jest.fn(),
+      execute: jest.fn().mockResolvedValue([{ ok: true, status: 204 }]),
+    };
+    (dataverseClient.batch as jest.Mock).mockReturnValue(batch);
+
+    render(
+      <EntityListView
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        displayName="Accounts"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Contoso')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Delete').closest('button')).toBeDisabled();
+
+    fireEvent.click(screen.getAllByLabelText('Select row')[0]);
+    fireEvent.click(screen.getByText('Delete'));
+    await waitFor(() => {
+      expect(screen.getByText('Confirm Deletion')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getAllByText('Delete').find(el => el.closest('[role="dialog"]'))!);
+
+    await waitFor(() => {
+      expect(batch.execute).toHaveBeenCalled();
+    });
+    expect(dataverseClient.batch).toHaveBeenCalledWith({ continueOnError: true });
+    expect(batch.delete).toHaveBeenCalledWith('accounts', 'acc1');
+    expect(batch.delete).toHaveBeenCalledTimes(1);
+    await waitFor(() => {
+      expect(screen.queryByText('Contoso')).not.toBeInTheDocument();
+    });
+  });
+
+  it('does not select or delete rows returned without a primary id', async () => {
+    (dataverseClient.fetchEntities as jest.Mock).mockReset();
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: mockViews })
+      .mockResolvedValue({ value: [...mockRecords, { name: 'Unkeyed', revenue: 5 }] });
+    const batch = {
+      delete: jest.fn(),
+      execute: jest.fn().mockResolvedValue([{ ok: true, status: 204 }, { ok: true, status: 204 }]),
+    };
+    (dataverseClient.batch as jest.Mock).mockReturnValue(batch);
+
+    render(
+      <EntityListView
+        entityName="account"
+        entityPluralName="accounts"
+        primaryIdAttribute="accountid"
+        displayName="Accounts"
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Unkeyed')).toBeInTheDocument();
+    });
+    const rowCheckboxes = screen.getAllByLabelText('Select row');
+    fireEvent.click(rowCheckboxes[2]);
+    expect(screen.getByText('Delete').closest('button')).toBeDisabled();
+
+    fireEvent.click(screen.getAllByRole('checkbox')[0]);
+    fireEvent.click(screen.getByText('Delete'));
+    await waitFor(() => {
+      expect(screen.getByText('Confirm Deletion')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getAllByText('Delete').find(el => el.closest('[role="dialog"]'))!);
+
+    await waitFor(() => {
+      expect(batch.execute).toHaveBeenCalled();
+    });
+    expect(batch.delete.mock.calls).toEqual([['accounts', 'acc1'], ['accounts', 'acc2']]);
+  });
 });
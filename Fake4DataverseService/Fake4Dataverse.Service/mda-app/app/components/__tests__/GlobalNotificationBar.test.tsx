@@ -0,0 +1,53 @@
+/**
+ * Unit tests for GlobalNotificationBar component
+ * Tests rendering of notifications added through Xrm.App and their actions
+ */
+
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import GlobalNotificationBar from '../GlobalNotificationBar';
+import { XrmApiImplementation } from '../../lib/xrm-api';
+
+// Mock Fluent UI styles
+jest.mock('@fluentui/react-components', () => ({
+  ...jest.requireActual('@fluentui/react-components'),
+  makeStyles: () => () => ({
+    group: '',
+  }),
+}));
+
+describe('GlobalNotificationBar', () => {
+  const xrm = new XrmApiImplementation(
+    { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+    {}
+  ).createXrmApi();
+
+  it('renders notifications added with Xrm.App and runs their actions', async () => {
+    const eventHandler = jest.fn();
+    render(<GlobalNotificationBar />);
+
+    let warningId = '';
+    await act(async () => {
+      warningId = await xrm.App.addGlobalNotification({
+        type: 2,
+        level: 3,
+        message: 'Your trial ends in 3 days',
+        action: { actionLabel: 'Upgrade', eventHandler },
+      });
+      await xrm.App.addGlobalNotification({ type: 2, level: 1, message: 'Import completed', showCloseButton: true });
+    });
+
+    expect(screen.getByText('Your trial ends in 3 days')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Upgrade'));
+    expect(eventHandler).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByLabelText('Close'));
+    expect(screen.queryByText('Import completed')).not.toBeInTheDocument();
+
+    await act(async () => {
+      await xrm.App.clearGlobalNotification(warningId);
+    });
+    expect(screen.queryByText('Your trial ends in 3 days')).not.toBeInTheDocument();
+    await expect(xrm.App.clearGlobalNotification(warningId)).rejects.toThrow('Global notification not found');
+    await expect(xrm.App.addGlobalNotification({ type: 2, level: 5, message: 'Bad' })).rejects.toThrow('Invalid notification level');
+  });
+});
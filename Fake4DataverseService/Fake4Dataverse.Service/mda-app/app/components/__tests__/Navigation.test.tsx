@@ -116,6 +116,26 @@ describe('Navigation', () => {
     expect(mockOnNavigate).toHaveBeenCalledWith('account');
   });
 
+  it('calls onOpenUrl when a Url subarea is clicked', () => {
+    const mockOnNavigate = jest.fn();
+    const mockOnOpenUrl = jest.fn();
+    const areasWithUrl: SiteMapArea[] = [{
+      id: 'area_reports',
+      title: 'Reports',
+      groups: [{
+        id: 'group_dashboards',
+        title: 'Dashboards',
+        subareas: [{ id: 'subarea_sales', title: 'Sales Dashboard', url: '$webresource:new_/pages/sales.htm' }],
+      }],
+    }];
+    render(<Navigation areas={areasWithUrl} onNavigate={mockOnNavigate} onOpenUrl={mockOnOpenUrl} />);
+
+    fireEvent.click(screen.getByText('Sales Dashboard'));
+
+    expect(mockOnOpenUrl).toHaveBeenCalledWith('$webresource:new_/pages/sales.htm');
+    expect(mockOnNavigate).not.toHaveBeenCalled();
+  });
+
   it('applies selected styling to current entity', () => {
     const { container } = render(
       <Navigation areas={mockAreas} selectedEntity="contact" />
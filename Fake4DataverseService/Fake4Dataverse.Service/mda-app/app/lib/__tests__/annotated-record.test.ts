@@ -0,0 +1,56 @@
+/**
+ * Unit tests for AnnotatedRecord
+ * Tests reading formatted values and lookup annotations from retrieved records
+ */
+
+import { AnnotatedRecord } from '../annotated-record';
+
+describe('AnnotatedRecord', () => {
+  const record = {
+    '@odata.etag': 'W/"1234"',
+    accountid: 'acc1',
+    statuscode: 1,
+    'statuscode@OData.Community.Display.V1.FormattedValue': 'Active',
+    _parentcustomerid_value: 'con1',
+    '_parentcustomerid_value@OData.Community.Display.V1.FormattedValue': 'Nancy Davolio',
+    '_parentcustomerid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'contact',
+    '_parentcustomerid_value@Microsoft.Dynamics.CRM.associatednavigationproperty': 'parentcustomerid_contact',
+  };
+
+  it('separates values from formatted values', () => {
+    const annotated = new AnnotatedRecord(record);
+
+    expect(annotated.getValue('statuscode')).toBe(1);
+    expect(annotated.getFormattedValue('statuscode')).toBe('Active');
+    expect(annotated.getFormattedValue('accountid')).toBeUndefined();
+    expect(annotated.getValue('@odata.etag')).toBeUndefined();
+  });
+
+  it('reads lookups from _<name>_value and their annotations', () => {
+    const annotated = new AnnotatedRecord(record);
+
+    expect(annotated.getValue('parentcustomerid')).toBe('con1');
+    expect(annotated.getFormattedValue('parentcustomerid')).toBe('Nancy Davolio');
+    expect(annotated.getAnnotations('parentcustomerid')).toEqual({
+      formattedValue: 'Nancy Davolio',
+      lookupLogicalName: 'contact',
+      associatedNavigationProperty: 'parentcustomerid_contact',
+    });
+    expect(annotated.getLookup('parentcustomerid')).toEqual({
+      id: 'con1',
+      entityType: 'contact',
+      name: 'Nancy Davolio',
+    });
+  });
+
+  it('uses the default target when the lookup has no logical name annotation', () => {
+    const annotated = new AnnotatedRecord({ _primarycontactid_value: 'con2' });
+
+    expect(annotated.getLookup('primarycontactid', 'contact')).toEqual({
+      id: 'con2',
+      entityType: 'contact',
+      name: undefined,
+    });
+    expect(annotated.getLookup('ownerid')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for attribute value utilities
+ * Tests control selection from AttributeMetadata and serialization of form values
+ */
+
+import {
+  getAttributeControlKind,
+  getAttributeOptions,
+  serializeAttributeValue,
+  buildSavePayload,
+} from '../attribute-utils';
+import type { AttributeMetadata } from '../../types/dataverse';
+
+describe('attribute-utils', () => {
+  const picklist: AttributeMetadata = {
+    LogicalName: 'industrycode',
+    AttributeType: 'Picklist',
+    OptionSet: {
+      Options: [
+        { Value: 1, Label: { UserLocalizedLabel: { Label: 'Accounting' } } },
+        { Value: 2, Label: { UserLocalizedLabel: { Label: 'Agriculture' } } },
+      ],
+    },
+  };
+
+  it('selects controls from attribute type and format', () => {
+    expect(getAttributeControlKind({ LogicalName: 'emailaddress1', AttributeType: 'String', Format: 'Email' })).toBe('email');
+    expect(getAttributeControlKind({ LogicalName: 'description', AttributeType: 'Memo' })).toBe('multiline');
+    expect(getAttributeControlKind({
+      LogicalName: 'birthdate',
+      AttributeType: 'DateTime',
+      DateTimeBehavior: { Value: 'DateOnly' },
+    })).toBe('date');
+    expect(getAttributeControlKind({
+      LogicalName: 'new_tags',
+      AttributeType: 'Virtual',
+      AttributeTypeName: { Value: 'MultiSelectPicklistType' },
+    })).toBe('multi-choice');
+    expect(getAttributeControlKind({ LogicalName: 'parentcustomerid', AttributeType: 'Customer' })).toBe('lookup');
+  });
+
+  it('falls back to the form control class ID without metadata', () => {
+    expect(getAttributeControlKind(undefined, '{533b9e00-756b-4312-95a0-dc888637ac78}')).toBe('money');
+    expect(getAttributeControlKind(undefined, '{270BD3DB-D9AF-4782-9025-509E298DEC0A}')).toBe('text');
+  });
+
+  it('reads options from option sets and two-option sets', () => {
+    expect(getAttributeOptions(picklist)).toEqual([
+      { value: 1, label: 'Accounting' },
+      { value: 2, label: 'Agriculture' },
+    ]);
+    expect(getAttributeOptions({
+      LogicalName: 'donotemail',
+      AttributeType: 'Boolean',
+      OptionSet: {
+        TrueOption: { Value: 1, Label: { UserLocalizedLabel: { Label: 'Yes' } } },
+        FalseOption: { Value: 0 },
+      },
+    })).toEqual([{ value: 0, label: '0' }, { value: 1, label: 'Yes' }]);
+  });
+
+  it('serializes form values with Web API JSON types', () => {
+    expect(serializeAttributeValue({ LogicalName: 'x', AttributeType: 'Integer' }, '42')).toBe(42);
+    expect(serializeAttributeValue({ LogicalName: 'x', AttributeType: 'Money' }, '1500.5')).toBe(1500.5);
+    expect(serializeAttributeValue({ LogicalName: 'x', AttributeType: 'Boolean' }, 'true')).toBe(true);
+    expect(serializeAttributeValue(picklist, '2')).toBe(2);
+    expect(serializeAttributeValue({
+      LogicalName: 'x',
+      AttributeType: 'Virtual',
+      AttributeTypeName: { Value: 'MultiSelectPicklistType' },
+    }, [1, 3])).toBe('1,3');
+    expect(serializeAttributeValue({
+      LogicalName: 'x',
+      AttributeType: 'DateTime',
+      Format: 'DateOnly',
+    }, '2024-05-01T00:00:00Z')).toBe('2024-05-01');
+    expect(serializeAttributeValue({ LogicalName: 'x', AttributeType: 'DateTime' }, '2024-05-01T10:30:00Z')).toBe('2024-05-01T10:30:00.000Z');
+    expect(serializeAttributeValue({ LogicalName: 'x', AttributeType: 'Integer' }, '')).toBeNull();
+  });
+
+  it('serializes Date objects set by scripts and rejects values that are not dates', () => {
+    const dateOnly: AttributeMetadata = { LogicalName: 'birthdate', AttributeType: 'DateTime', Format: 'DateOnly' };
+    const dateTime: AttributeMetadata = { LogicalName: 'followupby', AttributeType: 'DateTime' };
+
+    expect(serializeAttributeValue(dateOnly, new Date(2024, 4, 1, 23, 30))).toBe('2024-05-01');
+    expect(serializeAttributeValue(dateTime, new Date(Date.UTC(2024, 4, 1, 10, 30)))).toBe('2024-05-01T10:30:00.000Z');
+    expect(() => serializeAttributeValue(dateOnly, 'next week')).toThrow("'next week' is not a valid date for column birthdate");
+    expect(() => serializeAttributeValue(dateTime, new Date('invalid'))).toThrow('is not a valid date for column followupby');
+  });
+
+  it('builds the save payload from changed columns only', () => {
+    const attributes = new Map<string, AttributeMetadata>([['industrycode', picklist]]);
+
+    const payload = buildSavePayload(
+      { accountid: 'a1', name: 'Contoso', industrycode: '1', '@odata.etag': 'W/"1"' },
+      ['name', 'industrycode'],
+      attributes
+    );
+
+    expect(payload).toEqual({ name: 'Contoso', industrycode: 1 });
+  });
+});
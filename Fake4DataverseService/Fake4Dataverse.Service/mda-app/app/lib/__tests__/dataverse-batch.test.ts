@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the $batch request builder
+ * Tests the multipart request body, Content-ID references and mapping of responses to operations
+ */
+
+import { DataverseBatch, parseBatchResponse } from '../dataverse-batch';
+
+describe('DataverseBatch', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function mockBatchResponse(body: string, boundary: string = 'batchresponse_1') {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: { get: () => `multipart/mixed; boundary=${boundary}` },
+      text: () => Promise.resolve(body.replace(/\n/g, '\r\n')),
+    });
+    global.fetch = fetchMock as any;
+    return fetchMock;
+  }
+
+  it('builds changesets with Content-ID references', () => {
+    const batch = new DataverseBatch('/api/data/v9.2');
+    let accountRef = '';
+    batch
+      .changeset((changeset) => {
+        accountRef = changeset.create('accounts', { name: 'Contoso' });
+        changeset.create('contacts', { lastname: 'Smith', 'parentcustomerid_account@odata.bind': accountRef });
+      })
+      .get('accounts?$select=name');
+
+    const body = batch.buildBody('batch_test');
+
+    expect(accountRef).toBe('$1');
+    expect(batch.size).toBe(3);
+    expect(body).toMatch(/^--batch_test\r\nContent-Type: multipart\/mixed; boundary=changeset_/);
+    expect(body).toContain('Content-ID: 1\r\n\r\nPOST /api/data/v9.2/accounts HTTP/1.1');
+    expect(body).toContain('"parentcustomerid_account@odata.bind":"$1"');
+    expect(body).toContain('Content-ID: 3\r\n\r\nGET /api/data/v9.2/accounts?$select=name HTTP/1.1');
+    expect(body.endsWith('--batch_test--\r\n')).toBe(true);
+    expect(() => batch.changeset(changeset => changeset.request({ method: 'GET', url: 'accounts' }))).toThrow();
+  });
+
+  it('returns one result per operation from a successful response', async () => {
+    const fetchMock = mockBatchResponse(`--batchresponse_1
+Content-Type: multipart/mixed; boundary=changesetresponse_1
+
+--changesetresponse_1
+Content-Type: application/http
+Content-Transfer-Encoding: binary
+Content-ID: 2
+
+HTTP/1.1 204 No Content
+OData-EntityId: https://org.crm.dynamics.com/api/data/v9.2/contacts(c1)
+
+--changesetresponse_1
+Content-Type: application/http
+Content-Transfer-Encoding: binary
+Content-ID: 1
+
+HTTP/1.1 204 No Content
+OData-EntityId: https://org.crm.dynamics.com/api/data/v9.2/accounts(a1)
+
+--changesetresponse_1--
+--batchresponse_1
+Content-Type: application/http
+Content-Transfer-Encoding: binary
+
+HTTP/1.1 200 OK
+Content-Type: application/json; odata.metadata=minimal
+
+{"value":[{"name":"Contoso"}]}
+--batchresponse_1--
+`);
+
+    const batch = new DataverseBatch('/api/data/v9.2', { continueOnError: true });
+    batch
+      .changeset((changeset) => {
+        const ref = changeset.create('accounts', { name: 'Contoso' });
+        changeset.create('contacts', { 'parentcustomerid_account@odata.bind': ref });
+      })
+      .get('accounts?$select=name');
+    const results = await batch.execute();
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/data/v9.2/$batch', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Prefer': 'odata.continue-on-error' }),
+    }));
+    expect(results.map(r => [r.contentId, r.status, r.entityId])).toEqual([
+      ['1', 204, 'a1'],
+      ['2', 204, 'c1'],
+      ['3', 200, undefined],
+    ]);
+    expect(results[2].body).toEqual({ value: [{ name: 'Contoso' }] });
+    expect(results.every(r => r.ok)).toBe(true);
+  });
+
+  it('applies a failed changeset error to all of its operations and marks later operations as not executed', async () => {
+    mockBatchResponse(`--batchresponse_1
+Content-Type: application/http
+Content-Transfer-Encoding: binary
+
+HTTP/1.1 400 Bad Request
+Content-Type: application/json; odata.metadata=minimal
+
+{"error":{"code":"0x80040265","message":"Credit limit exceeded."}}
+--batchresponse_1--
+`);
+
+    const batch = new DataverseBatch('/api/data/v9.2');
+    batch
+      .changeset((changeset) => {
+        changeset.update('accounts', 'a1', { creditlimit: 100 });
+        changeset.delete('contacts', 'c1');
+      })
+      .delete('accounts', 'a2');
+    const results = await batch.execute();
+
+    expect(results[0].ok).toBe(false);
+    expect(results[0].error?.code).toBe('0x80040265');
+    expect(results[0].error?.request).toEqual({
+      method: 'PATCH',
+      url: '/api/data/v9.2/accounts(a1)',
+      body: { creditlimit: 100 },
+    });
+    expect(results[1].error?.message).toBe('Credit limit exceeded.');
+    expect(results[2]).toEqual(expect.objectContaining({ executed: false, ok: false }));
+    expect(results[2].error).toBeUndefined();
+  });
+
+  it('parses quoted boundaries and LF line endings', () => {
+    const parsed = parseBatchResponse(
+      '--b1\nContent-Type: application/http\n\nHTTP/1.1 404 Not Found\n\n--b1--\n',
+      'b1'
+    );
+
+    expect(parsed).toEqual([expect.objectContaining({ status: 404, statusText: 'Not Found' })]);
+  });
+});
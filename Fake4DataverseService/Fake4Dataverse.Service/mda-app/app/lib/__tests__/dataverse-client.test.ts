@@ -0,0 +1,78 @@
+/**
+ * Unit tests for action and function invocation in DataverseApiClient
+ * Tests operation URLs, parameter aliases and request bodies
+ */
+
+import { dataverseClient } from '../dataverse-client';
+
+describe('DataverseApiClient operations', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function jsonResponse(status: number, body?: any) {
+    return {
+      ok: status < 400,
+      status,
+      statusText: '',
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(body === undefined ? '' : JSON.stringify(body)),
+    };
+  }
+
+  it('calls unbound functions with GET and parameter aliases', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { UserId: 'u1' }));
+
+    await dataverseClient.whoAmI();
+    await dataverseClient.executeFunction(
+      'RetrieveUserPrivilegeByPrivilegeName',
+      { UserId: 'u1', PrivilegeName: "prvRead'Account", Filters: 'Entity', Depth: 2 },
+      { parameterTypes: { UserId: 'Edm.Guid', Filters: 'mscrm.EntityFilters' } }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/data/v9.2/WhoAmI()');
+    expect(fetchMock.mock.calls[0][1]).toEqual(expect.objectContaining({ method: 'GET' }));
+    expect(decodeURIComponent(fetchMock.mock.calls[1][0])).toBe(
+      '/api/data/v9.2/RetrieveUserPrivilegeByPrivilegeName(UserId=@p1,PrivilegeName=@p2,Filters=@p3,Depth=@p4)'
+      + "?@p1=u1&@p2='prvRead''Account'&@p3=Microsoft.Dynamics.CRM.EntityFilters'Entity'&@p4=2"
+    );
+  });
+
+  it('calls bound actions with POST and returns null for 204 responses', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(204));
+
+    const result = await dataverseClient.executeAction(
+      'new_Approve',
+      { Comment: 'OK' },
+      { bound: { entitySetName: 'accounts', id: 'a1' } }
+    );
+
+    expect(result).toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/data/v9.2/accounts(a1)/Microsoft.Dynamics.CRM.new_Approve',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ Comment: 'OK' }) })
+    );
+  });
+
+  it('associates records by posting a reference to the collection-valued navigation property', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(204));
+
+    await dataverseClient.associateEntities('accounts', 'a1', 'accountleads_association', 'leads', 'l1');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/data/v9.2/accounts(a1)/accountleads_association/$ref',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ '@odata.id': 'http://localhost/api/data/v9.2/leads(l1)' }),
+      })
+    );
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for DataverseApiError
+ * Tests parsing of OData error bodies and detection of plug-in exceptions
+ */
+
+import { DataverseApiError, getErrorMessage } from '../dataverse-error';
+
+describe('DataverseApiError', () => {
+  const request = { method: 'POST', url: '/api/data/v9.2/accounts', body: { name: 'Contoso' } };
+
+  function errorResponse(status: number, statusText: string, body: string): Response {
+    return {
+      status,
+      statusText,
+      text: () => Promise.resolve(body),
+    } as Response;
+  }
+
+  it('reads code, message, inner error and error details from the response body', async () => {
+    const error = await DataverseApiError.fromResponse(errorResponse(400, 'Bad Request', JSON.stringify({
+      error: {
+        code: '0x80040265',
+        message: 'Credit limit exceeded.',
+        '@Microsoft.PowerApps.CDS.ErrorDetails.OperationStatus': '0',
+        '@Microsoft.PowerApps.CDS.ErrorDetails.ApiExceptionMessageName': 'IsvAborted',
+        '@Microsoft.PowerApps.CDS.TraceText': 'Entered ValidateCreditLimit.Execute()',
+        innererror: { message: 'Credit limit exceeded.', type: 'System.ServiceModel.FaultException' },
+      },
+    })), request);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.status).toBe(400);
+    expect(error.code).toBe('0x80040265');
+    expect(error.message).toBe('Credit limit exceeded.');
+    expect(error.errorDetails).toEqual({ OperationStatus: '0', ApiExceptionMessageName: 'IsvAborted' });
+    expect(error.traceText).toBe('Entered ValidateCreditLimit.Execute()');
+    expect(error.innerError?.type).toBe('System.ServiceModel.FaultException');
+    expect(error.request).toBe(request);
+    expect(error.isPluginError).toBe(true);
+  });
+
+  it('uses the plug-in message when the service wraps the exception', () => {
+    const error = new DataverseApiError(500, 'Internal Server Error', request, {
+      error: {
+        code: '0x80040217',
+        message: 'Error creating entity: Name is required.',
+        innererror: { message: 'Name is required.', type: 'Microsoft.Xrm.Sdk.InvalidPluginExecutionException' },
+      },
+    });
+
+    expect(error.isPluginError).toBe(true);
+    expect(error.pluginMessage).toBe('Name is required.');
+    expect(getErrorMessage(error, 'Failed')).toBe('Name is required.');
+  });
+
+  it('falls back to the status when the body is not an OData error', async () => {
+    const error = await DataverseApiError.fromResponse(errorResponse(502, 'Bad Gateway', '<html></html>'), request);
+
+    expect(error.message).toBe('API request failed: 502 Bad Gateway');
+    expect(error.code).toBeUndefined();
+    expect(error.isPluginError).toBe(false);
+    expect(getErrorMessage('oops', 'Failed')).toBe('Failed');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for FetchXML translation metadata
+ * Tests that column types and navigation properties of link-entity tables reach the translator
+ */
+
+import { loadFetchXmlTranslationOptions } from '../fetchxml-metadata';
+import { translateFetchXml } from '../fetchxml';
+import { metadataCache } from '../metadata-cache';
+import type { AttributeMetadata } from '../../types/dataverse';
+
+jest.mock('../metadata-cache', () => ({
+  metadataCache: {
+    getAttributes: jest.fn(),
+    getManyToOneRelationships: jest.fn(),
+    getManyToManyRelationships: jest.fn(),
+    getLookupNavigationProperty: jest.fn(),
+  },
+}));
+
+describe('fetchxml-metadata', () => {
+  const attributes: Record<string, AttributeMetadata[]> = {
+    contact: [
+      { LogicalName: 'fullname', AttributeType: 'String' },
+      { LogicalName: 'parentcustomerid', AttributeType: 'Customer', Targets: ['account', 'contact'] },
+    ],
+    account: [
+      { LogicalName: 'accountnumber', AttributeType: 'String' },
+      { LogicalName: 'numberofemployees', AttributeType: 'Integer' },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (metadataCache.getAttributes as jest.Mock).mockImplementation(async (name: string) => {
+      if (!attributes[name]) {
+        throw new Error(`Table metadata not found: ${name}`);
+      }
+      return new Map(attributes[name].map(attribute => [attribute.LogicalName, attribute]));
+    });
+    (metadataCache.getManyToOneRelationships as jest.Mock).mockImplementation(async (name: string) =>
+      name === 'contact'
+        ? [
+          {
+            SchemaName: 'contact_customer_accounts',
+            ReferencedEntity: 'account',
+            ReferencedAttribute: 'accountid',
+            ReferencingEntity: 'contact',
+            ReferencingAttribute: 'parentcustomerid',
+            ReferencedEntityNavigationPropertyName: 'contact_customer_accounts',
+            ReferencingEntityNavigationPropertyName: 'parentcustomerid_account',
+          },
+        ]
+        : []
+    );
+    (metadataCache.getManyToManyRelationships as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('types the columns of the root table and of its link-entities', async () => {
+    const fetchXml = `<fetch><entity name="contact">
+      <link-entity name="account" from="accountid" to="parentcustomerid">
+        <link-entity name="new_region" from="new_regionid" to="new_regionid" />
+      </link-entity>
+    </entity></fetch>`;
+
+    const options = await loadFetchXmlTranslationOptions(fetchXml);
+
+    expect(metadataCache.getAttributes).toHaveBeenCalledWith('new_region');
+    expect(options.getAttributeType?.('contact', 'parentcustomerid')).toBe('Customer');
+    expect(options.getAttributeType?.('account', 'numberofemployees')).toBe('Integer');
+    expect(options.getAttributeType?.('new_region', 'name')).toBeUndefined();
+
+    const result = translateFetchXml(`<fetch><entity name="account"><filter>
+      <condition attribute="accountnumber" operator="eq" value="1001" />
+      <condition attribute="numberofemployees" operator="gt" value="10" />
+    </filter></entity></fetch>`, options);
+    expect(result.odata.filter).toBe("accountnumber eq '1001' and numberofemployees gt 10");
+  });
+
+  it('joins link-entities through the navigation properties of their relationships', async () => {
+    const manyToOne = `<fetch><entity name="contact"><attribute name="fullname" />
+      <link-entity name="account" from="accountid" to="parentcustomerid" alias="a"><attribute name="accountnumber" /></link-entity>
+    </entity></fetch>`;
+    const oneToMany = `<fetch><entity name="account">
+      <link-entity name="contact" from="parentcustomerid" to="accountid" link-type="inner">
+        <filter><condition attribute="fullname" operator="eq" value="Nancy Anderson" /></filter>
+      </link-entity>
+    </entity></fetch>`;
+
+    const manyToOneResult = translateFetchXml(manyToOne, await loadFetchXmlTranslationOptions(manyToOne));
+    const oneToManyResult = translateFetchXml(oneToMany, await loadFetchXmlTranslationOptions(oneToMany));
+
+    expect(manyToOneResult.odata.expand).toBe('parentcustomerid_account($select=accountnumber)');
+    expect(oneToManyResult.odata.filter).toBe("contact_customer_accounts/any(o1:o1/fullname eq 'Nancy Anderson')");
+    expect(oneToManyResult.diagnostics).toEqual([]);
+  });
+
+  it('reports links between tables without a relationship', async () => {
+    const fetchXml = `<fetch><entity name="account">
+      <link-entity name="contact" from="fullname" to="accountnumber" link-type="inner" />
+    </entity></fetch>`;
+
+    const result = translateFetchXml(fetchXml, await loadFetchXmlTranslationOptions(fetchXml));
+
+    expect(result.diagnostics.map(d => d.code)).toEqual(['unresolved-navigation-property']);
+    expect(metadataCache.getLookupNavigationProperty).not.toHaveBeenCalled();
+  });
+});
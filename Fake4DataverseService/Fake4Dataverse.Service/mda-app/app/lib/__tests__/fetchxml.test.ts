@@ -0,0 +1,276 @@
+/**
+ * Unit tests for the FetchXML to OData translator
+ * Tests parsing of the FetchXML grammar and the emitted OData query options
+ */
+
+import { translateFetchXml, parseFetchXml, setFetchXmlPaging, parsePagingCookieAnnotation, addFetchXmlCondition } from '../fetchxml';
+
+describe('fetchxml', () => {
+  it('recognizes GUIDs and booleans without metadata and quotes other values', () => {
+    const result = translateFetchXml(`
+      <fetch>
+        <entity name="account">
+          <attribute name="name" />
+          <filter>
+            <condition attribute="accountid" operator="eq" value="{6A0F4C2B-1D3E-4F50-8A9B-0C1D2E3F4A5B}" />
+            <condition attribute="accountnumber" operator="eq" value="1001" />
+            <condition attribute="donotemail" operator="eq" value="false" />
+            <condition attribute="name" operator="eq" value="O'Brien" />
+          </filter>
+        </entity>
+      </fetch>`);
+
+    expect(result.odata.filter).toBe(
+      "accountid eq 6A0F4C2B-1D3E-4F50-8A9B-0C1D2E3F4A5B and accountnumber eq '1001' and donotemail eq false and name eq 'O''Brien'"
+    );
+    expect(result.odata.select).toEqual(['name']);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('uses attribute types from metadata when provided', () => {
+    const result = translateFetchXml(
+      `<fetch><entity name="account"><filter>
+        <condition attribute="accountnumber" operator="eq" value="1001" />
+        <condition attribute="primarycontactid" operator="eq" value="6a0f4c2b-1d3e-4f50-8a9b-0c1d2e3f4a5b" />
+      </filter></entity></fetch>`,
+      {
+        getAttributeType: (_entity, attribute) =>
+          attribute === 'accountnumber' ? 'String' : attribute === 'primarycontactid' ? 'Lookup' : undefined,
+      }
+    );
+
+    expect(result.odata.filter).toBe(
+      "accountnumber eq '1001' and _primarycontactid_value eq 6a0f4c2b-1d3e-4f50-8a9b-0c1d2e3f4a5b"
+    );
+  });
+
+  it('formats columns of an unknown type as strings and reports them', () => {
+    const result = translateFetchXml(
+      `<fetch><entity name="account"><attribute name="new_rating" /><filter>
+        <condition attribute="new_rating" operator="eq" value="5" />
+        <condition attribute="new_rating" operator="ne" value="1" />
+      </filter></entity></fetch>`,
+      { getAttributeType: () => 'ManagedProperty' }
+    );
+
+    expect(result.odata.select).toEqual(['new_rating']);
+    expect(result.odata.filter).toBe("new_rating eq '5' and new_rating ne '1'");
+    expect(result.diagnostics).toEqual([expect.objectContaining({ code: 'unknown-attribute-type', severity: 'warning' })]);
+  });
+
+  it('translates nested and/or filters with grouping', () => {
+    const result = translateFetchXml(`
+      <fetch>
+        <entity name="contact">
+          <filter type="and">
+            <condition attribute="statecode" operator="eq" value="0" />
+            <filter type="or">
+              <condition attribute="lastname" operator="like" value="Smi%" />
+              <condition attribute="emailaddress1" operator="like" value="%@contoso.com" />
+              <condition attribute="jobtitle" operator="like" value="%manager%" />
+            </filter>
+          </filter>
+        </entity>
+      </fetch>`, { getAttributeType: (_entity, attribute) => attribute === 'statecode' ? 'State' : undefined });
+
+    expect(result.odata.filter).toBe(
+      "statecode eq 0 and (startswith(lastname,'Smi') or endswith(emailaddress1,'@contoso.com') or contains(jobtitle,'manager'))"
+    );
+  });
+
+  it('expands in, between and query function operators', () => {
+    const result = translateFetchXml(`
+      <fetch>
+        <entity name="opportunity">
+          <filter>
+            <condition attribute="statuscode" operator="in">
+              <value>1</value>
+              <value>2</value>
+            </condition>
+            <condition attribute="estimatedvalue" operator="between">
+              <value>1000</value>
+              <value>5000</value>
+            </condition>
+            <condition attribute="createdon" operator="last-x-days" value="7" />
+            <condition attribute="modifiedon" operator="on-or-after" value="2024-01-01" />
+            <condition attribute="ownerid" operator="eq-userid" />
+          </filter>
+        </entity>
+      </fetch>`, { getAttributeType: (_entity, attribute) => ({ statuscode: 'Status', estimatedvalue: 'Money' })[attribute] });
+
+    expect(result.odata.filter).toBe(
+      '(statuscode eq 1 or statuscode eq 2) and (estimatedvalue ge 1000 and estimatedvalue le 5000)' +
+      " and Microsoft.Dynamics.CRM.LastXDays(PropertyName='createdon',PropertyValue=7)" +
+      " and Microsoft.Dynamics.CRM.OnOrAfter(PropertyName='modifiedon',PropertyValue='2024-01-01')" +
+      " and Microsoft.Dynamics.CRM.EqualUserId(PropertyName='ownerid')"
+    );
+  });
+
+  it('translates many-to-one link-entities into $expand and navigation filters', () => {
+    const fetchXml = `
+      <fetch>
+        <entity name="contact">
+          <attribute name="fullname" />
+          <link-entity name="account" from="accountid" to="parentcustomerid" alias="a">
+            <attribute name="name" />
+            <filter>
+              <condition attribute="revenue" operator="ge" value="1000000" />
+            </filter>
+          </link-entity>
+        </entity>
+      </fetch>`;
+    const result = translateFetchXml(fetchXml, {
+      getAttributeType: (entity, attribute) => entity === 'account' && attribute === 'revenue' ? 'Money' : undefined,
+      getNavigationProperty: () => ({ name: 'parentcustomerid_account', collection: false }),
+    });
+
+    expect(result.odata.expand).toBe('parentcustomerid_account($select=name)');
+    expect(result.odata.filter).toBe('parentcustomerid_account/revenue ge 1000000');
+    expect(result.aliases).toEqual([
+      { alias: 'a', entityName: 'account', navigationProperty: 'parentcustomerid_account', collection: false },
+    ]);
+
+    // The navigation property of a polymorphic or custom lookup is not the lookup column name
+    const unresolved = translateFetchXml(fetchXml);
+    expect(unresolved.odata.expand).toBeUndefined();
+    expect(unresolved.diagnostics.map(d => d.code)).toEqual(['unresolved-navigation-property']);
+  });
+
+  it('translates one-to-many link-entities through a resolved navigation property', () => {
+    const result = translateFetchXml(
+      `<fetch>
+        <entity name="account">
+          <link-entity name="contact" from="parentcustomerid" to="accountid" alias="c">
+            <filter>
+              <condition attribute="jobtitle" operator="eq" value="CEO" />
+            </filter>
+          </link-entity>
+          <filter>
+            <condition entityname="c" attribute="statecode" operator="eq" value="0" />
+          </filter>
+        </entity>
+      </fetch>`,
+      {
+        getAttributeType: (_entity, attribute) => attribute === 'statecode' ? 'State' : undefined,
+        getNavigationProperty: () => ({ name: 'contact_customer_accounts', collection: true }),
+      }
+    );
+
+    expect(result.odata.filter).toBe(
+      "contact_customer_accounts/any(o1:o1/jobtitle eq 'CEO') and contact_customer_accounts/any(o1:o1/statecode eq 0)"
+    );
+  });
+
+  it('reports typed diagnostics for constructs it cannot translate', () => {
+    const result = translateFetchXml(`
+      <fetch>
+        <entity name="account">
+          <link-entity name="contact" from="parentcustomerid" to="accountid" />
+          <filter>
+            <condition attribute="name" operator="sounds-like" value="Contoso" />
+            <condition attribute="name" operator="eq" />
+          </filter>
+        </entity>
+      </fetch>`);
+
+    expect(result.odata.filter).toBeUndefined();
+    expect(result.diagnostics.map(d => d.code)).toEqual([
+      'unresolved-navigation-property',
+      'unsupported-operator',
+      'invalid-condition',
+    ]);
+    expect(result.diagnostics.every(d => d.severity === 'error')).toBe(true);
+  });
+
+  it('reports distinct queries, which OData cannot express', () => {
+    const result = translateFetchXml('<fetch distinct="true"><entity name="account"><attribute name="name" /></entity></fetch>');
+
+    expect(result.odata.select).toEqual(['name']);
+    expect(result.diagnostics).toEqual([expect.objectContaining({ code: 'unsupported-distinct', severity: 'warning' })]);
+  });
+
+  it('parses fetch paging attributes and orders', () => {
+    const { query } = parseFetchXml(
+      '<fetch top="10" count="25" page="2" returntotalrecordcount="true"><entity name="account"><all-attributes /><order attribute="name" descending="true" /></entity></fetch>'
+    );
+
+    expect(query).toMatchObject({ top: 10, count: 25, page: 2, returnTotalRecordCount: true });
+    expect(query?.entity.allAttributes).toBe(true);
+
+    const result = translateFetchXml(
+      '<fetch count="25"><entity name="account"><all-attributes /><order attribute="name" descending="true" /></entity></fetch>'
+    );
+    expect(result.odata).toEqual({ orderby: 'name desc', pageSize: 25 });
+  });
+
+  it('returns an invalid-xml diagnostic for malformed FetchXML', () => {
+    const result = translateFetchXml('<fetch><entity name="account">');
+
+    expect(result.query).toBeNull();
+    expect(result.diagnostics[0].code).toBe('invalid-xml');
+  });
+
+  it('sets page, count and paging cookie on the fetch element', () => {
+    const paged = setFetchXmlPaging('<fetch><entity name="account" /></fetch>', {
+      page: 2,
+      count: 50,
+      pagingCookie: '<cookie page="1"><accountid last="{A}" first="{B}" /></cookie>',
+    });
+
+    const { query } = parseFetchXml(paged);
+    expect(query).toMatchObject({
+      page: 2,
+      count: 50,
+      pagingCookie: '<cookie page="1"><accountid last="{A}" first="{B}" /></cookie>',
+    });
+  });
+
+  it('keeps the page and paging cookie of the fetch element when none are given', () => {
+    const paged = setFetchXmlPaging(
+      '<fetch page="3" count="10" paging-cookie="&lt;cookie page=&quot;2&quot; /&gt;"><entity name="account" /></fetch>',
+      { returnTotalRecordCount: true }
+    );
+
+    expect(parseFetchXml(paged).query).toMatchObject({ page: 3, count: 10, pagingCookie: '<cookie page="2" />' });
+  });
+
+  it('decodes the paging cookie from the fetchxmlpagingcookie annotation', () => {
+    const inner = '<cookie page="1"><accountid last="{A}" /></cookie>';
+    const annotation = `<cookie pagenumber="2" pagingcookie="${encodeURIComponent(encodeURIComponent(inner))}" istracking="False" />`;
+
+    expect(parsePagingCookieAnnotation(annotation)).toEqual({ pagingCookie: inner, pageNumber: 2 });
+    expect(parsePagingCookieAnnotation(undefined)).toEqual({});
+  });
+
+  it('adds a lookup condition to the root entity without changing the existing filters', () => {
+    const filtered = addFetchXmlCondition(`
+      <fetch>
+        <entity name="contact">
+          <attribute name="fullname" />
+          <filter type="or">
+            <condition attribute="statecode" operator="eq" value="0" />
+            <condition attribute="statecode" operator="eq" value="1" />
+          </filter>
+        </entity>
+      </fetch>`, { attribute: 'parentcustomerid', operator: 'eq', value: '{A1B2C3D4-0000-0000-0000-000000000001}', uitype: 'account' });
+
+    const options = { getAttributeType: (_entity: string, attribute: string) => attribute === 'statecode' ? 'State' : undefined };
+    expect(translateFetchXml(filtered, options).odata.filter).toBe(
+      '(statecode eq 0 or statecode eq 1) and _parentcustomerid_value eq A1B2C3D4-0000-0000-0000-000000000001'
+    );
+    expect(addFetchXmlCondition('<savedquery />', { attribute: 'name', operator: 'eq', value: 'x' })).toBe('<savedquery />');
+  });
+
+  it('adds a condition on an intersect table in an inner link-entity', () => {
+    const filtered = addFetchXmlCondition('<fetch><entity name="lead"><attribute name="fullname" /></entity></fetch>', {
+      attribute: 'accountid',
+      operator: 'eq',
+      value: 'a1',
+      intersect: { name: 'accountleads', from: 'leadid', to: 'leadid' },
+    });
+
+    const link = parseFetchXml(filtered).query!.entity.linkEntities[0];
+    expect(link).toMatchObject({ name: 'accountleads', from: 'leadid', to: 'leadid', linkType: 'inner', intersect: true });
+    expect(link.filters[0].conditions[0]).toMatchObject({ attribute: 'accountid', operator: 'eq', value: 'a1' });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for lookup column utilities
+ * Tests reading lookup values, searching targets and @odata.bind serialization
+ */
+
+import {
+  getLookupValue,
+  searchLookupTargets,
+  buildLookupBindings,
+  getRecentLookupItems,
+  addRecentLookupItem,
+  getRelationshipLookupAttribute,
+  associateLookupRecord,
+  getManyToManyRelationship,
+  associateManyToManyRecord,
+} from '../lookup-utils';
+import { dataverseClient } from '../dataverse-client';
+import { metadataCache } from '../metadata-cache';
+import type { AttributeMetadata } from '../../types/dataverse';
+
+jest.mock('../dataverse-client', () => ({
+  dataverseClient: {
+    fetchEntities: jest.fn(),
+    fetchEntity: jest.fn(),
+    updateEntity: jest.fn(),
+    associateEntities: jest.fn(),
+  },
+}));
+
+jest.mock('../metadata-cache', () => ({
+  metadataCache: {
+    getEntity: jest.fn(),
+    getEntitySetName: jest.fn(),
+    getLookupNavigationProperty: jest.fn(),
+    getManyToOneRelationships: jest.fn(),
+    getManyToManyRelationships: jest.fn(),
+    getAttributes: jest.fn(),
+  },
+}));
+
+describe('lookup-utils', () => {
+  const customerAttribute: AttributeMetadata = {
+    LogicalName: 'parentcustomerid',
+    AttributeType: 'Customer',
+    Targets: ['account', 'contact'],
+  };
+
+  const entities: Record<string, any> = {
+    account: { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+    contact: { logicalName: 'contact', entitySetName: 'contacts', primaryIdAttribute: 'contactid', primaryNameAttribute: 'fullname' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.localStorage.clear();
+    (metadataCache.getEntity as jest.Mock).mockImplementation(async (name: string) => entities[name]);
+    (metadataCache.getEntitySetName as jest.Mock).mockImplementation(async (name: string) => entities[name].entitySetName);
+    (metadataCache.getLookupNavigationProperty as jest.Mock).mockImplementation(
+      async (_entity: string, attribute: string, target: string) => `${attribute}_${target}`
+    );
+  });
+
+  it('reads lookup values from _value properties and their annotations', () => {
+    const record = {
+      _parentcustomerid_value: 'c1',
+      '_parentcustomerid_value@OData.Community.Display.V1.FormattedValue': 'Yvonne McKay',
+      '_parentcustomerid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'contact',
+    };
+
+    expect(getLookupValue(record, 'parentcustomerid', customerAttribute)).toEqual({
+      id: 'c1',
+      entityType: 'contact',
+      name: 'Yvonne McKay',
+    });
+    expect(getLookupValue({ parentcustomerid: null, ...record }, 'parentcustomerid', customerAttribute)).toBeNull();
+    expect(getLookupValue({}, 'parentcustomerid', customerAttribute)).toBeNull();
+  });
+
+  it('searches the primary name column of every target', async () => {
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [{ accountid: 'a1', name: "O'Neil Ltd" }] })
+      .mockResolvedValueOnce({ value: [{ contactid: 'c1', fullname: "Pat O'Neil" }] });
+
+    const results = await searchLookupTargets(['account', 'contact'], "O'Neil");
+
+    expect(dataverseClient.fetchEntities).toHaveBeenCalledWith('accounts', {
+      select: ['accountid', 'name'],
+      filter: "contains(name,'O''Neil')",
+      orderby: 'name asc',
+      top: 10,
+    });
+    expect(results).toEqual([
+      { id: 'a1', entityType: 'account', name: "O'Neil Ltd" },
+      { id: 'c1', entityType: 'contact', name: "Pat O'Neil" },
+    ]);
+  });
+
+  it('writes changed lookups as navigation property bindings', async () => {
+    const attributes = new Map<string, AttributeMetadata>([
+      ['parentcustomerid', customerAttribute],
+      ['ownerid', { LogicalName: 'ownerid', AttributeType: 'Owner', Targets: ['systemuser', 'team'] }],
+      ['name', { LogicalName: 'name', AttributeType: 'String' }],
+    ]);
+    const record = {
+      name: 'Changed',
+      parentcustomerid: { id: 'a1', entityType: 'account', name: 'Contoso' },
+      ownerid: null,
+      _ownerid_value: 't1',
+      '_ownerid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'team',
+    };
+
+    const bindings = await buildLookupBindings('contact', record, ['name', 'parentcustomerid', 'ownerid'], attributes);
+
+    expect(bindings).toEqual({
+      'parentcustomerid_account@odata.bind': '/accounts(a1)',
+      ownerid_team: null,
+    });
+  });
+
+  it('writes lookups set by form scripts as arrays', async () => {
+    const attributes = new Map<string, AttributeMetadata>([
+      ['parentcustomerid', customerAttribute],
+      ['ownerid', { LogicalName: 'ownerid', AttributeType: 'Owner', Targets: ['systemuser', 'team'] }],
+    ]);
+    const record = {
+      parentcustomerid: [{ id: '{A1}', entityType: 'account', name: 'Contoso' }],
+      ownerid: [],
+      _ownerid_value: 'u1',
+      '_ownerid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'systemuser',
+    };
+
+    const bindings = await buildLookupBindings('contact', record, ['parentcustomerid', 'ownerid'], attributes);
+
+    expect(bindings).toEqual({
+      'parentcustomerid_account@odata.bind': '/accounts(A1)',
+      ownerid_systemuser: null,
+    });
+    expect(getLookupValue(record, 'parentcustomerid', customerAttribute)).toEqual({ id: 'A1', entityType: 'account', name: 'Contoso' });
+  });
+
+  it('keeps recently selected records per target', () => {
+    addRecentLookupItem({ id: 'a1', entityType: 'account', name: 'Contoso' });
+    addRecentLookupItem({ id: 'c1', entityType: 'contact', name: 'Yvonne' });
+    addRecentLookupItem({ id: 'a1', entityType: 'account', name: 'Contoso' });
+
+    expect(getRecentLookupItems(['account', 'contact']).map(item => item.id)).toEqual(['a1', 'c1']);
+    expect(getRecentLookupItems(['contact'])).toEqual([{ id: 'c1', entityType: 'contact', name: 'Yvonne' }]);
+  });
+
+  it('finds the lookup of a relationship and associates records through it', async () => {
+    (metadataCache.getManyToOneRelationships as jest.Mock).mockResolvedValueOnce([
+      { SchemaName: 'contact_customer_accounts', ReferencedEntity: 'account', ReferencedAttribute: 'accountid', ReferencingEntity: 'contact', ReferencingAttribute: 'parentcustomerid' },
+    ]).mockRejectedValueOnce(new Error('No relationships'));
+    (metadataCache.getAttributes as jest.Mock).mockResolvedValue(new Map([['parentcustomerid', customerAttribute]]));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await getRelationshipLookupAttribute('contact', 'contact_customer_accounts', 'account')).toBe('parentcustomerid');
+    // Without relationship metadata the only lookup to the table is used
+    expect(await getRelationshipLookupAttribute('contact', 'contact_customer_accounts', 'account')).toBe('parentcustomerid');
+
+    await associateLookupRecord('contact', 'c1', 'parentcustomerid', { id: 'a1', entityType: 'account' });
+
+    expect(dataverseClient.updateEntity).toHaveBeenCalledWith('contacts', 'c1', {
+      'parentcustomerid_account@odata.bind': '/accounts(a1)',
+    });
+  });
+
+  it('finds a many-to-many relationship and associates records through its navigation property', async () => {
+    const accountContacts = {
+      SchemaName: 'new_account_contact',
+      IntersectEntityName: 'new_account_contact',
+      Entity1LogicalName: 'account',
+      Entity1IntersectAttribute: 'accountid',
+      Entity1NavigationPropertyName: 'new_account_contact_account',
+      Entity2LogicalName: 'contact',
+      Entity2IntersectAttribute: 'contactid',
+      Entity2NavigationPropertyName: 'new_account_contact_contact',
+    };
+    (metadataCache.getManyToManyRelationships as jest.Mock).mockResolvedValue([accountContacts]);
+
+    expect(await getManyToManyRelationship('contact', 'new_account_contact', 'account')).toBe(accountContacts);
+    expect(await getManyToManyRelationship('contact', 'new_account_contact', 'lead')).toBeUndefined();
+
+    await associateManyToManyRecord(accountContacts, 'contact', 'c1', { id: 'a1', entityType: 'account' });
+
+    expect(dataverseClient.associateEntities).toHaveBeenCalledWith('contacts', 'c1', 'new_account_contact_contact', 'accounts', 'a1');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the table metadata cache
+ * Tests resolution of entity set names and primary columns from EntityDefinitions
+ */
+
+import { MetadataCache } from '../metadata-cache';
+import { dataverseClient } from '../dataverse-client';
+
+jest.mock('../dataverse-client', () => ({
+  dataverseClient: {
+    fetchEntityDefinitions: jest.fn(),
+    fetchEntityDefinition: jest.fn(),
+    fetchEntityAttributes: jest.fn(),
+  },
+}));
+
+describe('MetadataCache', () => {
+  const definitions = [
+    {
+      LogicalName: 'opportunity',
+      EntitySetName: 'opportunities',
+      DisplayName: { UserLocalizedLabel: { Label: 'Opportunity' } },
+      DisplayCollectionName: { UserLocalizedLabel: { Label: 'Opportunities' } },
+      PrimaryIdAttribute: 'opportunityid',
+      PrimaryNameAttribute: 'name',
+      ObjectTypeCode: 3,
+    },
+    {
+      LogicalName: 'new_project',
+      EntitySetName: 'new_projects',
+      DisplayName: { UserLocalizedLabel: { Label: 'Project' } },
+      PrimaryIdAttribute: 'new_projectid',
+      PrimaryNameAttribute: 'new_name',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dataverseClient.fetchEntityDefinitions as jest.Mock).mockResolvedValue({ value: definitions });
+  });
+
+  it('resolves names from EntityDefinitions with a single request', async () => {
+    const cache = new MetadataCache();
+
+    const [opportunity, project] = await Promise.all([
+      cache.getEntity('opportunity'),
+      cache.getEntity('new_project'),
+    ]);
+
+    expect(opportunity).toEqual({
+      logicalName: 'opportunity',
+      entitySetName: 'opportunities',
+      displayName: 'Opportunity',
+      displayCollectionName: 'Opportunities',
+      primaryIdAttribute: 'opportunityid',
+      primaryNameAttribute: 'name',
+      objectTypeCode: 3,
+    });
+    expect(project.displayCollectionName).toBe('Project');
+    expect(await cache.getEntitySetName('new_project')).toBe('new_projects');
+    expect((await cache.getEntityBySetName('opportunities'))?.logicalName).toBe('opportunity');
+    expect(dataverseClient.fetchEntityDefinitions).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches tables missing from the cached list individually', async () => {
+    (dataverseClient.fetchEntityDefinition as jest.Mock).mockResolvedValue({
+      LogicalName: 'new_task',
+      EntitySetName: 'new_tasks',
+      PrimaryIdAttribute: 'new_taskid',
+    });
+    const cache = new MetadataCache();
+
+    const task = await cache.getEntity('new_task');
+
+    expect(dataverseClient.fetchEntityDefinition).toHaveBeenCalledWith('new_task');
+    expect(task).toMatchObject({ entitySetName: 'new_tasks', displayCollectionName: 'new_task' });
+    await cache.getEntity('new_task');
+    expect(dataverseClient.fetchEntityDefinition).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects tables whose metadata has no entity set name', async () => {
+    (dataverseClient.fetchEntityDefinition as jest.Mock).mockResolvedValue({
+      LogicalName: 'new_broken',
+      PrimaryIdAttribute: 'new_brokenid',
+    });
+    const cache = new MetadataCache();
+
+    await expect(cache.getEntity('new_broken')).rejects.toThrow('Table metadata has no EntitySetName: new_broken');
+  });
+
+  it('loads attributes and merges option sets from derived type requests', async () => {
+    const options = [{ Value: 1, Label: { UserLocalizedLabel: { Label: 'Accounting' } } }];
+    (dataverseClient.fetchEntityDefinitions as jest.Mock).mockResolvedValue({
+      value: [{
+        LogicalName: 'account',
+        Attributes: [
+          { LogicalName: 'name', AttributeType: 'String' },
+          { LogicalName: 'industrycode', AttributeType: 'Picklist' },
+        ],
+      }],
+    });
+    (dataverseClient.fetchEntityAttributes as jest.Mock).mockResolvedValue({
+      value: [{ LogicalName: 'industrycode', OptionSet: { Options: options } }],
+    });
+    const cache = new MetadataCache();
+
+    const attributes = await cache.getAttributes('account');
+
+    expect(dataverseClient.fetchEntityDefinitions).toHaveBeenCalledWith({
+      filter: "LogicalName eq 'account'",
+      select: ['LogicalName'],
+      expand: ['Attributes'],
+    });
+    expect(dataverseClient.fetchEntityAttributes).toHaveBeenCalledTimes(1);
+    expect(dataverseClient.fetchEntityAttributes).toHaveBeenCalledWith('account', {
+      castType: 'PicklistAttributeMetadata',
+      select: ['LogicalName'],
+      expand: ['OptionSet'],
+    });
+    expect(attributes.get('industrycode')?.OptionSet?.Options).toEqual(options);
+    expect(await cache.getAttributes('account')).toBe(attributes);
+  });
+
+  it('resolves lookup navigation properties from many-to-one relationships', async () => {
+    (dataverseClient.fetchEntityDefinitions as jest.Mock).mockImplementation(async (options: any) => {
+      if (options?.expand?.[0] === 'ManyToOneRelationships') {
+        return {
+          value: [{
+            LogicalName: 'contact',
+            ManyToOneRelationships: [{
+              SchemaName: 'contact_customer_accounts',
+              ReferencedEntity: 'account',
+              ReferencedAttribute: 'accountid',
+              ReferencingEntity: 'contact',
+              ReferencingAttribute: 'parentcustomerid',
+              ReferencingEntityNavigationPropertyName: 'parentcustomerid_account',
+            }],
+          }],
+        };
+      }
+      return {
+        value: [{
+          LogicalName: 'contact',
+          Attributes: [{ LogicalName: 'parentcustomerid', AttributeType: 'Customer', Targets: ['account', 'contact'] }],
+        }],
+      };
+    });
+    const cache = new MetadataCache();
+
+    expect(await cache.getLookupNavigationProperty('contact', 'parentcustomerid', 'account')).toBe('parentcustomerid_account');
+    // No relationship metadata for the contact target: fall back to the polymorphic naming convention
+    expect(await cache.getLookupNavigationProperty('contact', 'parentcustomerid', 'contact')).toBe('parentcustomerid_contact');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for the form script sandbox
+ * Tests that form libraries are isolated per form and that dotted handler names resolve
+ */
+
+import { FormScriptSandbox, resolveFunctionName } from '../script-sandbox';
+import type { XrmStatic } from '../xrm-api-types';
+
+describe('FormScriptSandbox', () => {
+  const sandboxes: FormScriptSandbox[] = [];
+  const createSandbox = (name: string) => {
+    const sandbox = new FormScriptSandbox({ Page: { name } } as unknown as XrmStatic);
+    sandboxes.push(sandbox);
+    return sandbox;
+  };
+
+  afterEach(() => {
+    sandboxes.splice(0).forEach(sandbox => sandbox.dispose());
+  });
+
+  it('keeps the functions of each form in its own realm with its own Xrm', () => {
+    const accountForm = createSandbox('account');
+    const contactForm = createSandbox('contact');
+    const library = 'function onLoad() { return Xrm.Page.name; }';
+
+    accountForm.run(library);
+    contactForm.run(library);
+
+    expect((accountForm.resolveFunction('onLoad') as () => string)()).toBe('account');
+    expect((contactForm.resolveFunction('onLoad') as () => string)()).toBe('contact');
+    expect((window as any).onLoad).toBeUndefined();
+  });
+
+  it('resolves dotted function names bound to their namespace', () => {
+    const sandbox = createSandbox('account');
+    sandbox.run(`var Contoso = Contoso || {};
+      Contoso.Account = {
+        prefix: 'Account',
+        onLoad: function () { return this.prefix + ' loaded'; }
+      };`);
+
+    expect((sandbox.resolveFunction('Contoso.Account.onLoad') as () => string)()).toBe('Account loaded');
+    expect(sandbox.resolveFunction('Contoso.Contact.onLoad')).toBeUndefined();
+    expect(resolveFunctionName({ a: { b: 1 } }, 'a.b')).toBe(1);
+  });
+
+  it('throws the errors of a library and removes the iframe when disposed', () => {
+    const sandbox = createSandbox('account');
+
+    expect(() => sandbox.run('throw new Error("Library failed")')).toThrow('Library failed');
+    expect(document.querySelectorAll('iframe')).toHaveLength(1);
+    sandbox.dispose();
+    expect(document.querySelectorAll('iframe')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the web resource loader
+ * Tests dependency ordering, UTF-8 decoding and the modifiedon cache
+ */
+
+import { WebResourceLoader, decodeWebResourceContent, parseWebResourceDependencies } from '../webresource-loader';
+import { dataverseClient } from '../dataverse-client';
+
+jest.mock('../dataverse-client', () => ({
+  dataverseClient: {
+    fetchEntities: jest.fn(),
+    fetchEntity: jest.fn(),
+  },
+}));
+
+const encode = (text: string) => Buffer.from(text, 'utf-8').toString('base64');
+
+const dependencyXml = (...names: string[]) => `<Dependencies>
+  <Dependency componentType="WebResource">
+    ${names.map(name => `<Library name="${name}" displayName="${name}" languagecode="" description="" libraryUniqueId="" />`).join('')}
+  </Dependency>
+  <Dependency componentType="Attribute">
+    <Attribute attributeId="" attributeName="name" entityName="account" />
+  </Dependency>
+</Dependencies>`;
+
+describe('WebResourceLoader', () => {
+  let loader: WebResourceLoader;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loader = new WebResourceLoader();
+  });
+
+  it('orders libraries after their dependencies, one query per dependency level', async () => {
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [
+        { webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3, dependencyxml: dependencyXml('new_common.js') },
+      ] })
+      .mockResolvedValueOnce({ value: [
+        { webresourceid: 'wr2', name: 'new_common.js', webresourcetype: 3, dependencyxml: dependencyXml('new_strings.resx') },
+      ] })
+      .mockResolvedValueOnce({ value: [
+        { webresourceid: 'wr3', name: 'new_strings.resx', webresourcetype: 12 },
+      ] });
+    (dataverseClient.fetchEntity as jest.Mock).mockImplementation((_set: string, id: string) => Promise.resolve({
+      content: encode(id === 'wr1' ? 'var account = "Société";' : id === 'wr2' ? 'var common = 1;' : '<root />'),
+    }));
+
+    const scripts = await loader.loadScripts(['new_account.js']);
+
+    expect(scripts.map(script => script.name)).toEqual(['new_common.js', 'new_account.js']);
+    expect(scripts[1].source).toBe('var account = "Société";\n//# sourceURL=/WebResources/new_account.js');
+    expect(dataverseClient.fetchEntities).toHaveBeenCalledTimes(3);
+    expect((dataverseClient.fetchEntities as jest.Mock).mock.calls[1][1].filter).toBe("name eq 'new_common.js'");
+  });
+
+  it('reuses cached content until the web resource is modified', async () => {
+    const record = { webresourceid: 'wr1', name: 'new_account.js', webresourcetype: 3, modifiedon: '2024-01-01T00:00:00Z' };
+    (dataverseClient.fetchEntities as jest.Mock)
+      .mockResolvedValueOnce({ value: [record] })
+      .mockResolvedValueOnce({ value: [record] })
+      .mockResolvedValueOnce({ value: [{ ...record, modifiedon: '2024-02-01T00:00:00Z' }] });
+    (dataverseClient.fetchEntity as jest.Mock)
+      .mockResolvedValueOnce({ content: encode('var version = 1;') })
+      .mockResolvedValueOnce({ content: encode('var version = 2;') });
+
+    await loader.loadScripts(['new_account.js']);
+    const cached = await loader.loadScripts(['new_account.js']);
+    const modified = await loader.loadScripts(['new_account.js']);
+
+    expect(cached[0].source).toMatch(/^var version = 1;/);
+    expect(modified[0].source).toMatch(/^var version = 2;/);
+    expect(dataverseClient.fetchEntity).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips missing libraries and breaks circular dependencies', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (dataverseClient.fetchEntities as jest.Mock).mockResolvedValueOnce({ value: [
+      { webresourceid: 'wr1', name: 'new_a.js', webresourcetype: 3, dependencyxml: dependencyXml('new_b.js') },
+      { webresourceid: 'wr2', name: 'new_b.js', webresourcetype: 3, dependencyxml: dependencyXml('new_a.js') },
+    ] });
+    (dataverseClient.fetchEntity as jest.Mock).mockImplementation((_set: string, id: string) =>
+      Promise.resolve({ content: encode(`// ${id}`) }));
+
+    const scripts = await loader.loadScripts(['new_a.js', 'new_b.js', 'new_missing.js']);
+
+    expect(scripts.map(script => script.name)).toEqual(['new_b.js', 'new_a.js']);
+    expect(dataverseClient.fetchEntities).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('Web resource new_missing.js was not found');
+    expect(warn).toHaveBeenCalledWith('Circular web resource dependency on new_a.js');
+    warn.mockRestore();
+  });
+
+  it('parses web resource dependencies and decodes UTF-8 content', () => {
+    expect(parseWebResourceDependencies(dependencyXml('new_common.js', 'new_util.js'))).toEqual(['new_common.js', 'new_util.js']);
+    expect(parseWebResourceDependencies(undefined)).toEqual([]);
+    expect(decodeWebResourceContent(encode('Größe ✓'))).toBe('Größe ✓');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the /WebResources/ route
+ * Tests web resource URLs, service worker registration and the responses of the service worker
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getWebResourceName, registerWebResourceRoute, resolveWebResourceUrl } from '../webresource-route';
+
+class FakeResponse {
+  constructor(public body: unknown, public init: { status: number; headers?: Record<string, string> }) {}
+}
+
+/**
+ * Run the service worker script and return a function that sends it a request
+ */
+function loadServiceWorker(webResources: Array<{ name: string; webresourcetype: number; content: string }>) {
+  const listeners: Record<string, (event: any) => void> = {};
+  const self = {
+    location: { origin: 'http://localhost' },
+    addEventListener: (type: string, listener: (event: any) => void) => { listeners[type] = listener; },
+  };
+  const fetch = jest.fn((url: string) => {
+    const name = decodeURIComponent(url).match(/name eq '(.*)'/)![1].replace(/''/g, "'");
+    return Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve({ value: webResources.filter(webResource => webResource.name === name) }),
+    });
+  });
+  const source = fs.readFileSync(path.join(__dirname, '../../../public/webresources-sw.js'), 'utf-8');
+  new Function('self', 'fetch', 'Response', source)(self, fetch, FakeResponse);
+
+  return async (url: string): Promise<FakeResponse | undefined> => {
+    let response: Promise<FakeResponse> | undefined;
+    listeners.fetch({ request: { url, method: 'GET' }, respondWith: (value: Promise<FakeResponse>) => { response = value; } });
+    return response;
+  };
+}
+
+const encode = (text: string) => Buffer.from(text, 'utf-8').toString('base64');
+
+describe('web resource route', () => {
+  it('resolves $webresource: directives and web resource names', () => {
+    expect(resolveWebResourceUrl('$webresource:new_/pages/sales.htm')).toBe('/WebResources/new_/pages/sales.htm');
+    expect(resolveWebResourceUrl('https://contoso.com/')).toBe('https://contoso.com/');
+    expect(getWebResourceName('/WebResources/new_/pages/sales%20report.htm?data=1')).toBe('new_/pages/sales report.htm');
+    expect(getWebResourceName('https://contoso.com/')).toBeUndefined();
+  });
+
+  it('serves text web resources as UTF-8 with $webresource: directives resolved', async () => {
+    const request = loadServiceWorker([
+      { name: 'new_/pages/sales.htm', webresourcetype: 1, content: encode('<img src="$webresource:new_/images/logo.png" /> Café') },
+    ]);
+
+    const response = await request('http://localhost/WebResources/new_/pages/sales.htm');
+
+    expect(response!.init).toEqual({ status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+    expect(response!.body).toBe('<img src="/WebResources/new_/images/logo.png" /> Café');
+  });
+
+  it('serves images as bytes and answers 404 for missing web resources', async () => {
+    const request = loadServiceWorker([
+      { name: 'new_/images/logo.png', webresourcetype: 5, content: btoa('\x89PNG') },
+    ]);
+
+    const image = await request('http://localhost/WebResources/new_/images/logo.png');
+    const missing = await request('http://localhost/WebResources/new_missing.htm');
+
+    expect(image!.init.headers).toEqual({ 'Content-Type': 'image/png' });
+    expect(Array.from(image!.body as Uint8Array)).toEqual([0x89, 0x50, 0x4e, 0x47]);
+    expect(missing!.init.status).toBe(404);
+    expect(await request('http://localhost/main.aspx')).toBeUndefined();
+  });
+
+  it('registers the service worker for /WebResources/ and waits until it is activated', async () => {
+    const worker = Object.assign(new EventTarget(), { state: 'installing' });
+    const register = jest.fn().mockResolvedValue({ installing: worker, waiting: null });
+    Object.defineProperty(navigator, 'serviceWorker', { value: { register }, configurable: true });
+
+    const registered = registerWebResourceRoute();
+    await Promise.resolve();
+    worker.state = 'activated';
+    worker.dispatchEvent(new Event('statechange'));
+
+    expect(await registered).toBe(true);
+    expect(register).toHaveBeenCalledWith('/webresources-sw.js', { scope: '/WebResources/' });
+    expect(await registerWebResourceRoute()).toBe(true);
+    expect(register).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,556 @@
+/**
+ * Unit tests for Xrm.WebApi
+ * Tests retrieve query options and request objects using the getMetadata() convention
+ * for actions, functions and CRUD requests
+ */
+
+import { executeMultipleXrmRequests, executeXrmRequest, XrmApiImplementation } from '../xrm-api';
+import type { XrmFramedControl, XrmGridControl } from '../xrm-api-types';
+import { dataverseClient } from '../dataverse-client';
+import { metadataCache } from '../metadata-cache';
+import { parseFetchXml } from '../fetchxml';
+
+jest.mock('../dataverse-client', () => ({
+  dataverseClient: {
+    executeAction: jest.fn(),
+    executeFunction: jest.fn(),
+    createEntity: jest.fn(),
+    updateEntity: jest.fn(),
+    fetchEntity: jest.fn(),
+    fetchEntities: jest.fn(),
+    fetchNextLink: jest.fn(),
+    fetchByFetchXml: jest.fn(),
+    batch: jest.fn(),
+  },
+}));
+
+jest.mock('../metadata-cache', () => ({
+  metadataCache: {
+    getEntity: jest.fn(),
+    getEntitySetName: jest.fn(),
+  },
+}));
+
+describe('executeXrmRequest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (metadataCache.getEntitySetName as jest.Mock).mockImplementation(async (name: string) => `${name}s`);
+    (metadataCache.getEntity as jest.Mock).mockImplementation(async (name: string) => ({
+      logicalName: name,
+      entitySetName: `${name}s`,
+      primaryIdAttribute: `${name}id`,
+    }));
+  });
+
+  it('executes unbound functions and returns a response with json()', async () => {
+    (dataverseClient.executeFunction as jest.Mock).mockResolvedValue({ UserId: 'u1' });
+
+    const response = await executeXrmRequest({
+      getMetadata: () => ({ boundParameter: null, parameterTypes: {}, operationType: 1, operationName: 'WhoAmI' }),
+    });
+
+    expect(dataverseClient.executeFunction).toHaveBeenCalledWith('WhoAmI', {}, { bound: undefined, parameterTypes: {} });
+    expect(response.ok).toBe(true);
+    expect(await response.json()).toEqual({ UserId: 'u1' });
+  });
+
+  it('executes bound actions with entity parameters', async () => {
+    (dataverseClient.executeAction as jest.Mock).mockResolvedValue(null);
+
+    const response = await executeXrmRequest({
+      entity: { entityType: 'account', id: '{A1}' },
+      Target: { entityType: 'contact', id: 'c1' },
+      Comment: 'Merged',
+      getMetadata: () => ({
+        boundParameter: 'entity',
+        parameterTypes: {
+          entity: { typeName: 'mscrm.account', structuralProperty: 5 },
+          Target: { typeName: 'mscrm.contact', structuralProperty: 5 },
+          Comment: { typeName: 'Edm.String', structuralProperty: 1 },
+        },
+        operationType: 0,
+        operationName: 'new_Merge',
+      }),
+    });
+
+    expect(dataverseClient.executeAction).toHaveBeenCalledWith(
+      'new_Merge',
+      {
+        Target: { '@odata.type': 'Microsoft.Dynamics.CRM.contact', contactid: 'c1' },
+        Comment: 'Merged',
+      },
+      { bound: { entitySetName: 'accounts', id: 'A1' } }
+    );
+    expect(response.status).toBe(204);
+  });
+
+  it('executes CRUD requests through the record methods', async () => {
+    (dataverseClient.createEntity as jest.Mock).mockResolvedValue('a2');
+
+    const response = await executeXrmRequest({
+      etn: 'account',
+      payload: { name: 'Contoso' },
+      getMetadata: () => ({ boundParameter: undefined, operationType: 2, operationName: 'Create' }),
+    });
+
+    expect(dataverseClient.createEntity).toHaveBeenCalledWith('accounts', { name: 'Contoso' });
+    expect(await response.json()).toEqual({ id: 'a2' });
+  });
+});
+
+describe('executeMultipleXrmRequests', () => {
+  const changesetRequests: any[] = [];
+  const batch = {
+    request: jest.fn(),
+    changeset: jest.fn((build: (changeset: any) => void) => build({ request: (r: any) => changesetRequests.push(r) })),
+    execute: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    changesetRequests.length = 0;
+    (dataverseClient.batch as jest.Mock).mockReturnValue(batch);
+    (metadataCache.getEntitySetName as jest.Mock).mockImplementation(async (name: string) => `${name}s`);
+  });
+
+  it('sends requests in one batch with nested arrays as changesets', async () => {
+    batch.execute.mockResolvedValue([
+      { ok: true, status: 200, body: { UserId: 'u1' }, headers: {} },
+      { ok: true, status: 204, entityId: 'a2', headers: {} },
+      { ok: true, status: 204, headers: {} },
+    ]);
+
+    const responses = await executeMultipleXrmRequests([
+      { getMetadata: () => ({ operationType: 1, operationName: 'WhoAmI' }) },
+      [
+        { etn: 'account', payload: { name: 'Contoso' }, getMetadata: () => ({ operationType: 2, operationName: 'Create' }) },
+        { etn: 'account', id: '{A1}', getMetadata: () => ({ operationType: 2, operationName: 'Delete' }) },
+      ],
+    ]);
+
+    expect(batch.request).toHaveBeenCalledWith({ method: 'GET', url: 'WhoAmI()' });
+    expect(changesetRequests).toEqual([
+      { method: 'POST', url: 'accounts', body: { name: 'Contoso' } },
+      { method: 'DELETE', url: 'accounts(A1)' },
+    ]);
+    expect(await responses[0].json()).toEqual({ UserId: 'u1' });
+    expect(await responses[1].json()).toEqual({ id: 'a2' });
+    expect(responses[2].status).toBe(204);
+  });
+
+  it('rejects with the error of the first failed request', async () => {
+    const error = new Error('Name is required');
+    batch.execute.mockResolvedValue([
+      { ok: false, status: 400, error, headers: {} },
+      { ok: false, executed: false, headers: {} },
+    ]);
+
+    await expect(executeMultipleXrmRequests([
+      { etn: 'account', payload: {}, getMetadata: () => ({ operationType: 2, operationName: 'Create' }) },
+      { etn: 'account', id: 'a1', getMetadata: () => ({ operationType: 2, operationName: 'Retrieve' }) },
+    ])).rejects.toBe(error);
+  });
+});
+
+describe('Xrm.WebApi.isAvailableOffline', () => {
+  it('reports only the configured tables as available offline', async () => {
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      {}
+    );
+    const webApi = xrm.createXrmApi().WebApi;
+
+    expect(webApi.isAvailableOffline('account')).toBe(false);
+    await expect(webApi.offline.deleteRecord('account', 'a1')).rejects.toThrow('Table account is not available offline');
+
+    xrm.setOfflineTables(['account']);
+    expect(webApi.isAvailableOffline('account')).toBe(true);
+    expect(webApi.online.isAvailableOffline('contact')).toBe(false);
+  });
+});
+
+describe('Xrm controls', () => {
+  it('reports state changes and notifications to subscribers', () => {
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      {}
+    );
+    xrm.registerAttribute('name');
+    xrm.registerControl('name', 'name', { label: 'Account Name' });
+    const listener = jest.fn();
+    const unsubscribe = xrm.subscribe(listener);
+    const control = xrm.createXrmApi().Page.getControl('name')!;
+
+    control.setVisible(false);
+    control.setLabel('Company');
+    expect(control.setNotification('Name is required', 'name_required')).toBe(true);
+    control.addNotification({ messages: ['Use the legal name'], notificationLevel: 'RECOMMENDATION', uniqueId: 'legal' });
+
+    expect(listener).toHaveBeenCalledTimes(4);
+    expect(xrm.getControlState('name')).toEqual({
+      disabled: false,
+      visible: false,
+      label: 'Company',
+      notifications: [
+        { messages: ['Name is required'], notificationLevel: 'ERROR', uniqueId: 'name_required' },
+        { messages: ['Use the legal name'], notificationLevel: 'RECOMMENDATION', uniqueId: 'legal' },
+      ],
+    });
+
+    expect(control.clearNotification('name_required')).toBe(true);
+    expect(control.clearNotification('name_required')).toBe(false);
+    expect(control.clearNotification()).toBe(true);
+    expect(xrm.getControlState('name')!.notifications).toEqual([]);
+
+    unsubscribe();
+    control.setDisabled(true);
+    expect(listener).toHaveBeenCalledTimes(6);
+  });
+
+  it('gives web resource controls their address and content window', async () => {
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', objectTypeCode: 1 },
+      { accountid: 'a1b2c3d4-0000-0000-0000-000000000001' }
+    );
+    xrm.registerControl('WebResource_panel', undefined, { label: 'Panel', src: '/WebResources/new_/panel.htm' });
+    const control = xrm.createXrmApi().Page.getControl('WebResource_panel') as XrmFramedControl;
+
+    expect(xrm.getPassParameters()).toEqual({
+      typename: 'account',
+      type: '1',
+      id: '{A1B2C3D4-0000-0000-0000-000000000001}',
+      orgname: 'fake4dataverse',
+      userlcid: '1033',
+      orglcid: '1033',
+    });
+
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    const contentWindow = control.getContentWindow();
+    xrm.attachControlFrame('WebResource_panel', frame);
+    frame.dispatchEvent(new Event('load'));
+
+    await expect(contentWindow).resolves.toBe(frame.contentWindow);
+    expect(control.getObject()).toBe(frame);
+
+    control.setSrc('/WebResources/new_/other.htm');
+    expect(control.getSrc()).toBe('/WebResources/new_/other.htm');
+    expect(control.getInitialUrl()).toBe('/WebResources/new_/panel.htm');
+    expect(xrm.getControlState('WebResource_panel')?.src).toBe('/WebResources/new_/other.htm');
+    frame.remove();
+  });
+
+  it('gives subgrid controls their rows and runs OnLoad handlers on each load', () => {
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid' },
+      { accountid: 'a1' }
+    );
+    xrm.registerControl('Contacts', undefined, {
+      label: 'Contacts',
+      grid: { entityName: 'contact', relationshipName: 'contact_customer_accounts' },
+    });
+    const control = xrm.createXrmApi().Page.getControl('Contacts') as XrmGridControl;
+    const onLoad = jest.fn();
+    control.addOnLoad(onLoad);
+
+    control.refresh();
+    expect(xrm.getControlState('Contacts')?.refreshCount).toBe(1);
+
+    xrm.setGridRecords('Contacts', [
+      { id: 'c1', name: 'Yvonne McKay', data: { contactid: 'c1', fullname: 'Yvonne McKay', _parentcustomerid_value: 'a1' } },
+      { id: 'c2', name: 'Nancy Anderson', data: { contactid: 'c2', fullname: 'Nancy Anderson' } },
+    ], 2);
+    xrm.setGridSelection('Contacts', ['c2']);
+
+    const grid = control.getGrid();
+    const entity = grid.getRows().get(0)!.getData().getEntity();
+    expect(onLoad).toHaveBeenCalledTimes(1);
+    expect(onLoad.mock.calls[0][0].getEventSource()).toBe(control);
+    expect(grid.getRows().getLength()).toBe(2);
+    expect(grid.getTotalRecordCount()).toBe(2);
+    expect(entity.getEntityReference()).toEqual({ entityType: 'contact', id: 'c1', name: 'Yvonne McKay' });
+    expect(entity.attributes.get('parentcustomerid')!.getValue()).toEqual({ id: 'a1', entityType: '', name: undefined });
+    expect(grid.getSelectedRows().get().map(row => row.getData().entity.getId())).toEqual(['c2']);
+    expect(control.getRelationship()).toEqual({ name: 'contact_customer_accounts', relationshipType: 0 });
+
+    xrm.setGridRelationshipType('Contacts', 1);
+    expect(control.getRelationship()?.relationshipType).toBe(1);
+  });
+});
+
+describe('Xrm tabs and sections', () => {
+  const section = (name: string, controlId: string) => ({
+    id: `${name}_id`,
+    name,
+    label: name,
+    visible: true,
+    rows: [{ cells: [{ control: { id: controlId, datafieldname: controlId, classid: '' } }] }],
+  });
+
+  it('selects tabs and runs TabStateChange handlers', () => {
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      {}
+    );
+    xrm.registerTab({ id: 't1', name: 'general', label: 'General', visible: true, sections: [section('info', 'name')] });
+    xrm.registerTab({ id: 't2', name: 'details', label: 'Details', visible: true, sections: [section('address', 'address1_city')] });
+    xrm.registerAttribute('address1_city');
+    xrm.registerControl('address1_city', 'address1_city');
+    const tabSelected = jest.fn();
+    xrm.setTabSelectHandler(tabSelected);
+    const tabs = xrm.createXrmApi().Page.ui.tabs;
+    const details = tabs.get('details')!;
+    const sources: string[] = [];
+    details.addTabStateChange(context => sources.push((context.getEventSource() as any).getName()));
+
+    expect(tabs.get().map(tab => tab.getDisplayState())).toEqual(['expanded', 'collapsed']);
+    details.setDisplayState('expanded');
+
+    expect(tabSelected).toHaveBeenCalledWith('details');
+    expect(tabs.get(0)!.getDisplayState()).toBe('collapsed');
+    expect(sources).toEqual(['details']);
+
+    const address = details.sections.get('address')!;
+    address.setVisible(false);
+    address.setLabel('Location');
+    expect(address.getParent()).toBe(details);
+    expect(address.controls.get().map(control => control.getName())).toEqual(['address1_city']);
+    expect(xrm.getSectionState('details', 'address')).toEqual({ label: 'Location', visible: false });
+  });
+});
+
+describe('Xrm form events', () => {
+  const handler = (functionName: string, extra: Record<string, any> = {}) => ({
+    name: 'onsave',
+    application: false,
+    active: true,
+    functionName,
+    libraryName: 'new_account.js',
+    ...extra,
+  });
+
+  afterEach(() => {
+    delete (window as any).firstOnSave;
+    delete (window as any).secondOnSave;
+  });
+
+  it('passes execution contexts with depth, shared variables and parameters', async () => {
+    const calls: any[] = [];
+    (window as any).firstOnSave = (executionContext: any, message: string, limit: number) => {
+      executionContext.setSharedVariable('checked', true);
+      calls.push([executionContext.getDepth(), executionContext.getEventArgs().getSaveMode(), message, limit]);
+    };
+    (window as any).secondOnSave = (...args: any[]) => calls.push(args);
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      {}
+    );
+    xrm.setFormEvents([
+      handler('firstOnSave', { parameters: ["'Name, please'", '10'] }),
+      handler('secondOnSave', { parameters: ['true'], passExecutionContext: false }),
+      handler('firstOnSave', { name: 'onload' }),
+    ]);
+
+    const eventArgs = await xrm.fireOnSave(2);
+
+    expect(calls).toEqual([[1, 2, 'Name, please', 10], [true]]);
+    expect(eventArgs.isDefaultPrevented()).toBe(false);
+  });
+
+  it('cancels the save when a handler prevents it or fails after preventDefaultOnError', async () => {
+    const sources: any[] = [];
+    (window as any).firstOnSave = (executionContext: any) => {
+      sources.push(executionContext.getEventSource());
+      executionContext.getEventArgs().preventDefaultOnError();
+      expect(executionContext.getSharedVariable('checked')).toBeUndefined();
+    };
+    (window as any).secondOnSave = () => {
+      throw new Error('Script error');
+    };
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      {}
+    );
+    xrm.setFormEvents([handler('firstOnSave'), handler('secondOnSave')]);
+
+    expect((await xrm.fireOnSave()).isDefaultPrevented()).toBe(true);
+    expect(sources).toEqual([xrm.getFormContext().data.entity]);
+    consoleError.mockRestore();
+  });
+
+  it('waits for promises returned by handlers up to the timeout', async () => {
+    jest.useFakeTimers();
+    const calls: string[] = [];
+    (window as any).firstOnSave = () => new Promise<void>((resolve) => setTimeout(() => {
+      calls.push('first');
+      resolve();
+    }, 500));
+    (window as any).secondOnSave = () => {
+      calls.push('second');
+      return new Promise(() => {});
+    };
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      {}
+    );
+    xrm.setAsyncHandlerTimeout(2000);
+    xrm.setFormEvents([handler('firstOnSave'), handler('secondOnSave')]);
+
+    const saved = xrm.save();
+    await jest.advanceTimersByTimeAsync(500);
+    expect(calls).toEqual(['first', 'second']);
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(await saved).toBe(false);
+    expect(dataverseClient.updateEntity).not.toHaveBeenCalled();
+    expect(xrm.getFormNotifications()).toEqual([{
+      uniqueId: 'onsave_handler_timeout',
+      message: 'The onsave event handler did not complete within 2 seconds; the record was not saved',
+      level: 'ERROR',
+    }]);
+    jest.useRealTimers();
+  });
+
+  it('fires OnChange for user edits but not for values set by scripts', () => {
+    const changes: any[] = [];
+    (window as any).firstOnSave = (executionContext: any) => changes.push(executionContext.getEventSource().getValue());
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      { name: 'Contoso' }
+    );
+    xrm.registerAttribute('name');
+    xrm.setFormEvents([handler('firstOnSave', { name: 'onchange', attribute: 'name' })]);
+    const name = xrm.getFormContext().getAttribute('name')!;
+    name.addOnChange(() => changes.push('added'));
+
+    name.setValue('Contoso Ltd');
+    xrm.changeAttributeValue('name', 'Fabrikam');
+
+    expect(changes).toEqual(['Fabrikam', 'added']);
+  });
+
+  it('saves through OnSave, PostSave and data OnLoad handlers', async () => {
+    const events: any[] = [];
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValue({ accountid: 'a1', name: 'Contoso (refreshed)' });
+    const xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      { accountid: 'a1', name: 'Contoso' }
+    );
+    xrm.registerAttribute('name');
+    const formContext = xrm.getFormContext();
+    formContext.data.entity.addOnSave((executionContext: any) => {
+      if (formContext.getAttribute('name')!.getValue() === '') {
+        executionContext.getEventArgs().preventDefault();
+      }
+    });
+    formContext.data.entity.addOnPostSave((executionContext: any) => {
+      events.push(['PostSave', executionContext.getEventArgs().getIsSaveSuccess(), executionContext.getEventArgs().getEntityReference()]);
+    });
+    formContext.data.addOnLoad((executionContext: any) => {
+      events.push(['OnLoad', executionContext.getEventArgs().getDataLoadState()]);
+    });
+
+    formContext.getAttribute('name')!.setValue('');
+    await expect(formContext.data.save()).rejects.toThrow('The save was cancelled by an OnSave handler');
+    expect(dataverseClient.updateEntity).not.toHaveBeenCalled();
+
+    formContext.getAttribute('name')!.setValue('Contoso Ltd');
+    expect(await xrm.save()).toBe(true);
+    await formContext.data.refresh();
+
+    expect(dataverseClient.updateEntity).toHaveBeenCalledWith('accounts', 'a1', { name: 'Contoso Ltd' });
+    expect(events).toEqual([
+      ['PostSave', true, { entityType: 'account', id: 'a1', name: 'Contoso Ltd' }],
+      ['OnLoad', 2],
+      ['OnLoad', 3],
+    ]);
+    expect(formContext.getAttribute('name')!.getValue()).toBe('Contoso (refreshed)');
+    expect(formContext.data.entity.getIsDirty()).toBe(false);
+  });
+});
+
+describe('Xrm.WebApi retrieve methods', () => {
+  const webApi = new XrmApiImplementation(
+    { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+    {}
+  ).createXrmApi().WebApi;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (metadataCache.getEntitySetName as jest.Mock).mockImplementation(async (name: string) => `${name}s`);
+    (dataverseClient.fetchEntities as jest.Mock).mockResolvedValue({ value: [], '@odata.nextLink': 'next' });
+  });
+
+  it('passes $select and $expand to retrieveRecord', async () => {
+    (dataverseClient.fetchEntity as jest.Mock).mockResolvedValue({ name: 'Contoso' });
+
+    await webApi.retrieveRecord('account', '{A1}', '?$select=name,revenue&$expand=primarycontactid($select=fullname)');
+
+    expect(dataverseClient.fetchEntity).toHaveBeenCalledWith('accounts', 'A1', {
+      select: ['name', 'revenue'],
+      expand: 'primarycontactid($select=fullname)',
+      includeAnnotations: '*',
+    });
+  });
+
+  it('passes OData query options and maxPageSize to retrieveMultipleRecords', async () => {
+    const result = await webApi.retrieveMultipleRecords(
+      'account',
+      "?$select=name&$filter=name eq 'Contoso'&$orderby=name desc&$top=3",
+      10
+    );
+
+    expect(dataverseClient.fetchEntities).toHaveBeenCalledWith('accounts', expect.objectContaining({
+      select: ['name'],
+      filter: "name eq 'Contoso'",
+      orderby: 'name desc',
+      top: 3,
+      maxPageSize: 10,
+    }));
+    expect(result.nextLink).toBe('next');
+    await expect(webApi.retrieveMultipleRecords('account', '?$search=contoso')).rejects.toThrow('Unsupported query option: $search');
+  });
+
+  it('continues a query from a nextLink and runs FetchXML queries', async () => {
+    (dataverseClient.fetchNextLink as jest.Mock).mockResolvedValue({ value: [{ name: 'Fabrikam' }] });
+    (dataverseClient.fetchByFetchXml as jest.Mock).mockResolvedValue({
+      value: [{ name: 'Contoso' }],
+      moreRecords: true,
+      '@Microsoft.Dynamics.CRM.fetchxmlpagingcookie': '<cookie pagenumber="2" />',
+    });
+    const fetchXml = '<fetch><entity name="account"><attribute name="name" /></entity></fetch>';
+
+    const next = await webApi.retrieveMultipleRecords(
+      'account',
+      'https://org.crm.dynamics.com/api/data/v9.2/accounts?$select=name&$skiptoken=abc',
+      5
+    );
+    const fetched = await webApi.retrieveMultipleRecords('account', `?fetchXml=${encodeURIComponent(fetchXml)}`, 5);
+
+    expect(dataverseClient.fetchNextLink).toHaveBeenCalledWith(
+      'https://org.crm.dynamics.com/api/data/v9.2/accounts?$select=name&$skiptoken=abc',
+      { maxPageSize: 5, includeAnnotations: '*' }
+    );
+    expect(next.entities).toEqual([{ name: 'Fabrikam' }]);
+    expect(dataverseClient.fetchByFetchXml).toHaveBeenCalledWith('accounts', fetchXml, { count: 5, includeAnnotations: '*' });
+    expect(fetched.fetchXmlPagingCookie).toBe('<cookie pagenumber="2" />');
+  });
+
+  it('keeps the page, count and paging cookie a script sets in its FetchXML', async () => {
+    const originalFetch = global.fetch;
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ value: [] }) });
+    global.fetch = fetchMock as any;
+    const { dataverseClient: actualClient } = jest.requireActual('../dataverse-client');
+    (dataverseClient.fetchByFetchXml as jest.Mock).mockImplementation(actualClient.fetchByFetchXml);
+    const fetchXml = '<fetch page="2" count="3" paging-cookie="&lt;cookie page=&quot;1&quot;&gt;&lt;accountid last=&quot;{A}&quot; /&gt;&lt;/cookie&gt;">'
+      + '<entity name="account"><attribute name="name" /></entity></fetch>';
+
+    await webApi.retrieveMultipleRecords('account', `?fetchXml=${encodeURIComponent(fetchXml)}`, 5);
+    global.fetch = originalFetch;
+
+    const url = new URL(fetchMock.mock.calls[0][0], 'http://localhost');
+    const { query } = parseFetchXml(url.searchParams.get('fetchXml')!);
+    expect(query).toMatchObject({ page: 2, count: 3, pagingCookie: '<cookie page="1"><accountid last="{A}" /></cookie>' });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for Xrm form attributes
+ * Tests the typed attribute methods driven by AttributeMetadata and submit modes on save
+ */
+
+import { XrmApiImplementation } from '../xrm-api';
+import { dataverseClient } from '../dataverse-client';
+import type {
+  XrmNumberAttribute,
+  XrmOptionSetAttribute,
+  XrmStringAttribute,
+  XrmBooleanAttribute,
+  XrmDateAttribute,
+  XrmLookupAttribute,
+} from '../xrm-api-types';
+import type { AttributeMetadata } from '../../types/dataverse';
+
+jest.mock('../dataverse-client', () => ({
+  dataverseClient: {
+    updateEntity: jest.fn(),
+    createEntity: jest.fn(),
+  },
+}));
+
+describe('Xrm attributes', () => {
+  const industryCode: AttributeMetadata = {
+    LogicalName: 'industrycode',
+    AttributeType: 'Picklist',
+    RequiredLevel: { Value: 'ApplicationRequired' },
+    OptionSet: {
+      Options: [
+        { Value: 1, Label: { UserLocalizedLabel: { Label: 'Accounting' } } },
+        { Value: 2, Label: { UserLocalizedLabel: { Label: 'Agriculture' } } },
+      ],
+    },
+  };
+  const tags: AttributeMetadata = {
+    ...industryCode,
+    LogicalName: 'new_tags',
+    AttributeType: 'Virtual',
+    AttributeTypeName: { Value: 'MultiSelectPicklistType' },
+    RequiredLevel: { Value: 'None' },
+  };
+  const metadata: AttributeMetadata[] = [
+    industryCode,
+    tags,
+    { LogicalName: 'numberofemployees', AttributeType: 'Integer', MinValue: 0, MaxValue: 1000 },
+    { LogicalName: 'revenue', AttributeType: 'Money', Precision: 4 },
+    { LogicalName: 'emailaddress1', AttributeType: 'String', Format: 'Email', MaxLength: 10, IsValidForUpdate: false },
+    { LogicalName: 'donotemail', AttributeType: 'Boolean' },
+    { LogicalName: 'lastonholdtime', AttributeType: 'DateTime', DateTimeBehavior: { Value: 'DateOnly' } },
+    { LogicalName: 'primarycontactid', AttributeType: 'Lookup' },
+  ];
+
+  let xrm: XrmApiImplementation;
+  const getAttribute = <T,>(name: string) => xrm.createXrmApi().Page.getAttribute(name) as unknown as T;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid', primaryNameAttribute: 'name' },
+      { accountid: 'a1', industrycode: 2, new_tags: '1,2', numberofemployees: 50, donotemail: false }
+    );
+    metadata.forEach(attribute => xrm.registerAttribute(attribute.LogicalName, attribute));
+    xrm.registerControl('industrycode', 'industrycode');
+    xrm.registerControl('header_industrycode', 'industrycode');
+  });
+
+  it('reports attribute types and formats from metadata', () => {
+    const types = metadata.map(attribute => getAttribute<XrmStringAttribute>(attribute.LogicalName).getAttributeType());
+
+    expect(types).toEqual(['optionset', 'multiselectoptionset', 'integer', 'money', 'string', 'boolean', 'datetime', 'lookup']);
+    expect(getAttribute<XrmStringAttribute>('emailaddress1').getFormat()).toBe('email');
+    expect(getAttribute<XrmStringAttribute>('lastonholdtime').getFormat()).toBe('date');
+    expect(getAttribute<XrmStringAttribute>('donotemail').getFormat()).toBeNull();
+    expect(getAttribute<XrmStringAttribute>('emailaddress1').getUserPrivilege()).toEqual({
+      canRead: true,
+      canUpdate: false,
+      canCreate: true,
+    });
+  });
+
+  it('returns options and selected options of choice columns', () => {
+    const industry = getAttribute<XrmOptionSetAttribute>('industrycode');
+    const tagsAttribute = getAttribute<XrmOptionSetAttribute>('new_tags');
+
+    expect(industry.getRequiredLevel()).toBe('required');
+    expect(industry.getOptions()).toEqual([{ text: 'Accounting', value: 1 }, { text: 'Agriculture', value: 2 }]);
+    expect(industry.getOption('1')).toEqual({ text: 'Accounting', value: 1 });
+    expect(industry.getSelectedOption()).toEqual({ text: 'Agriculture', value: 2 });
+    expect(industry.getText()).toBe('Agriculture');
+    expect(tagsAttribute.getValue()).toEqual([1, 2]);
+    expect(tagsAttribute.getText()).toEqual(['Accounting', 'Agriculture']);
+
+    industry.setValue(1);
+    expect(industry.getText()).toBe('Accounting');
+    expect(industry.getInitialValue()).toBe(2);
+    expect(getAttribute<XrmBooleanAttribute>('donotemail').getInitialValue()).toBe(false);
+  });
+
+  it('validates values against the limits of the column', () => {
+    const employees = getAttribute<XrmNumberAttribute>('numberofemployees');
+    const email = getAttribute<XrmStringAttribute>('emailaddress1');
+
+    expect([employees.getMin(), employees.getMax(), employees.getPrecision()]).toEqual([0, 1000, 0]);
+    expect(getAttribute<XrmNumberAttribute>('revenue').getPrecision()).toBe(4);
+    expect(email.getMaxLength()).toBe(10);
+
+    employees.setValue(5000);
+    email.setValue('someone@example.com');
+    expect(employees.isValid()).toBe(false);
+    expect(email.isValid()).toBe(false);
+
+    employees.setValue(10);
+    expect(employees.isValid()).toBe(true);
+    employees.setIsValid(false, 'Too few employees');
+    expect(employees.isValid()).toBe(false);
+  });
+
+  it('returns date and time values as Date objects', () => {
+    const lastOnHold = getAttribute<XrmDateAttribute>('lastonholdtime');
+    expect(lastOnHold.getValue()).toBeNull();
+
+    xrm.setAttributeValue('lastonholdtime', '2024-05-01');
+    expect(lastOnHold.getValue()).toEqual(new Date(2024, 4, 1));
+
+    const followUp = new Date(2024, 4, 2, 9, 15);
+    lastOnHold.setValue(followUp);
+    expect(lastOnHold.getValue()).toBe(followUp);
+  });
+
+  it('returns lookup values as arrays and stores the record they refer to', () => {
+    xrm = new XrmApiImplementation(
+      { logicalName: 'account', entitySetName: 'accounts', primaryIdAttribute: 'accountid' },
+      {
+        accountid: 'a1',
+        _primarycontactid_value: 'c1',
+        '_primarycontactid_value@Microsoft.Dynamics.CRM.lookuplogicalname': 'contact',
+        '_primarycontactid_value@OData.Community.Display.V1.FormattedValue': 'Yvonne McKay',
+      }
+    );
+    xrm.registerAttribute('primarycontactid', metadata.find(attribute => attribute.LogicalName === 'primarycontactid'));
+    const primaryContact = getAttribute<XrmLookupAttribute>('primarycontactid');
+
+    expect(primaryContact.getValue()).toEqual([{ id: 'c1', name: 'Yvonne McKay', entityType: 'contact' }]);
+
+    primaryContact.setValue([{ id: '{C2}', name: 'Nancy Anderson', entityType: 'contact' }]);
+    expect(primaryContact.getValue()).toEqual([{ id: 'C2', name: 'Nancy Anderson', entityType: 'contact' }]);
+    expect(xrm.getRecordData().primarycontactid).toEqual({ id: 'C2', name: 'Nancy Anderson', entityType: 'contact' });
+    expect(primaryContact.getIsDirty()).toBe(true);
+
+    primaryContact.setValue(null);
+    expect(primaryContact.getValue()).toBeNull();
+  });
+
+  it('returns the controls bound to an attribute', () => {
+    const industry = getAttribute<XrmOptionSetAttribute>('industrycode');
+
+    expect(industry.controls.get().map(control => control.getName())).toEqual(['industrycode', 'header_industrycode']);
+    expect(industry.controls.get(1)?.getName()).toBe('header_industrycode');
+    expect(industry.controls.get('industrycode')?.getAttribute()).toBe(industry);
+  });
+
+  it('saves dirty attributes and attributes with submit mode always', async () => {
+    const employees = getAttribute<XrmNumberAttribute>('numberofemployees');
+    const tagsAttribute = getAttribute<XrmOptionSetAttribute>('new_tags');
+    const industry = getAttribute<XrmOptionSetAttribute>('industrycode');
+
+    employees.setValue(75);
+    tagsAttribute.setValue([2]);
+    tagsAttribute.setSubmitMode('never');
+    industry.setSubmitMode('always');
+    expect(employees.getIsDirty()).toBe(true);
+    expect(industry.getIsDirty()).toBe(false);
+
+    await xrm.createXrmApi().Page.data.entity.save();
+
+    expect(dataverseClient.updateEntity).toHaveBeenCalledWith('accounts', 'a1', {
+      numberofemployees: 75,
+      industrycode: 2,
+    });
+    expect(employees.getIsDirty()).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Typed access to records retrieved with Prefer: odata.include-annotations
+ * Annotations are returned as extra properties named <property>@<annotation>.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/select-columns#formatted-values
+ */
+
+import type { EntityRecord, LookupValue } from '../types/dataverse';
+
+// Value of includeAnnotations that returns formatted values, lookup logical names and navigation properties
+export const ALL_ANNOTATIONS = '*';
+
+export const FORMATTED_VALUE_ANNOTATION = '@OData.Community.Display.V1.FormattedValue';
+export const LOOKUP_LOGICAL_NAME_ANNOTATION = '@Microsoft.Dynamics.CRM.lookuplogicalname';
+export const ASSOCIATED_NAVIGATION_PROPERTY_ANNOTATION = '@Microsoft.Dynamics.CRM.associatednavigationproperty';
+
+/**
+ * Annotations returned for a single property
+ */
+export interface PropertyAnnotations {
+  formattedValue?: string;
+  lookupLogicalName?: string;
+  associatedNavigationProperty?: string;
+}
+
+/**
+ * Read-only view of a retrieved record that separates values from their annotations
+ * Lookup columns are addressed by their attribute name; the _<name>_value property is resolved internally.
+ */
+export class AnnotatedRecord {
+  private values: EntityRecord = {};
+  private annotations: Map<string, PropertyAnnotations> = new Map();
+
+  constructor(record: EntityRecord) {
+    Object.keys(record).forEach((key) => {
+      const separator = key.indexOf('@');
+      if (separator < 0) {
+        this.values[key] = record[key];
+        return;
+      }
+
+      // Annotations on the record itself (such as @odata.etag) have no property name
+      const property = key.substring(0, separator);
+      if (!property) {
+        return;
+      }
+
+      const annotation = key.substring(separator);
+      const parsed = this.annotations.get(property) || {};
+      if (annotation === FORMATTED_VALUE_ANNOTATION) {
+        parsed.formattedValue = record[key];
+      } else if (annotation === LOOKUP_LOGICAL_NAME_ANNOTATION) {
+        parsed.lookupLogicalName = record[key];
+      } else if (annotation === ASSOCIATED_NAVIGATION_PROPERTY_ANNOTATION) {
+        parsed.associatedNavigationProperty = record[key];
+      } else {
+        return;
+      }
+      this.annotations.set(property, parsed);
+    });
+  }
+
+  /**
+   * Raw value of a column; for lookups this is the id from _<name>_value
+   */
+  getValue(attributeName: string): any {
+    if (attributeName in this.values) {
+      return this.values[attributeName];
+    }
+    return this.values[lookupProperty(attributeName)];
+  }
+
+  /**
+   * Formatted value as shown in the UI, such as a choice label, currency amount, local date or lookup name
+   */
+  getFormattedValue(attributeName: string): string | undefined {
+    return this.getAnnotations(attributeName).formattedValue;
+  }
+
+  /**
+   * Annotations of a column, read from the column itself or from its _<name>_value property
+   */
+  getAnnotations(attributeName: string): PropertyAnnotations {
+    return this.annotations.get(attributeName)
+      || this.annotations.get(lookupProperty(attributeName))
+      || {};
+  }
+
+  /**
+   * Lookup value of a lookup, customer or owner column
+   * The target table falls back to defaultEntityType when the lookuplogicalname annotation was not returned.
+   */
+  getLookup(attributeName: string, defaultEntityType: string = ''): LookupValue | null {
+    const id = this.values[lookupProperty(attributeName)];
+    if (!id) {
+      return null;
+    }
+
+    const annotations = this.getAnnotations(attributeName);
+    return {
+      id,
+      entityType: annotations.lookupLogicalName || defaultEntityType,
+      name: annotations.formattedValue,
+    };
+  }
+}
+
+function lookupProperty(attributeName: string): string {
+  return `_${attributeName}_value`;
+}
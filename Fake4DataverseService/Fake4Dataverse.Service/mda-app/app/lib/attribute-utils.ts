@@ -0,0 +1,229 @@
+/**
+ * Utilities for working with column values based on AttributeMetadata
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/attributemetadata
+ */
+
+import type { AttributeMetadata, EntityRecord, OptionMetadata } from '../types/dataverse';
+
+/**
+ * Kind of input control rendered for a column
+ */
+export type AttributeControlKind =
+  | 'text'
+  | 'multiline'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'whole-number'
+  | 'decimal'
+  | 'money'
+  | 'date'
+  | 'datetime'
+  | 'boolean'
+  | 'choice'
+  | 'multi-choice'
+  | 'lookup';
+
+/**
+ * Control kinds for form control class IDs, used when no attribute metadata is available
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/getcontroltype
+ */
+const CLASS_ID_CONTROL_KINDS: Record<string, AttributeControlKind> = {
+  '{4273EDBD-AC1D-40D3-9FB2-095C621B552D}': 'text', // Single line text
+  '{E0DECE4B-6FC8-4A8F-A065-082708572369}': 'multiline', // Multiple lines of text
+  '{ADA2203E-B4CD-49BE-9DDF-234642B43B52}': 'email',
+  '{71716B6C-711E-476C-8AB8-5D11542BFB47}': 'url',
+  '{8C10015A-B339-4982-9474-A95FE05631A5}': 'phone',
+  '{C6D124CA-7EDA-4A60-AEA9-7FB8D318B68F}': 'whole-number',
+  '{C3EFE0C3-0EC6-42BE-8349-CBD9079DFD8E}': 'decimal',
+  '{0D2C745A-E5A8-4C8F-BA63-C6D3BB604660}': 'decimal', // Floating point number
+  '{533B9E00-756B-4312-95A0-DC888637AC78}': 'money',
+  '{5B773807-9FB2-42DB-97C3-7A91EFF8ADFF}': 'datetime',
+  '{67FAC785-CD58-4F9F-ABB3-4B7DDC6ED5ED}': 'boolean', // Two options (radio)
+  '{B0C6723A-8503-4FD7-BB28-C8A06AC933C2}': 'boolean', // Two options (check box)
+  '{3EF39988-22BB-4F0B-BBBE-64B5A3748AEE}': 'choice',
+  // The lookup class ID {270BD3DB-...} is not mapped: generated forms also use it for text columns,
+  // so lookups are only detected from metadata.
+};
+
+/**
+ * Determine the control kind for a column
+ * Metadata wins over the form control class ID because the class ID does not carry the format.
+ */
+export function getAttributeControlKind(
+  attribute: AttributeMetadata | undefined,
+  classid?: string
+): AttributeControlKind {
+  if (attribute) {
+    if (attribute.AttributeTypeName?.Value === 'MultiSelectPicklistType') {
+      return 'multi-choice';
+    }
+
+    switch (attribute.AttributeType) {
+      case 'String': {
+        const format = attribute.FormatName?.Value || attribute.Format;
+        if (format === 'Email') return 'email';
+        if (format === 'Url') return 'url';
+        if (format === 'Phone') return 'phone';
+        if (format === 'TextArea') return 'multiline';
+        return 'text';
+      }
+      case 'Memo':
+        return 'multiline';
+      case 'Integer':
+      case 'BigInt':
+        return 'whole-number';
+      case 'Decimal':
+      case 'Double':
+        return 'decimal';
+      case 'Money':
+        return 'money';
+      case 'DateTime':
+        return isDateOnly(attribute) ? 'date' : 'datetime';
+      case 'Boolean':
+        return 'boolean';
+      case 'Picklist':
+      case 'State':
+      case 'Status':
+        return 'choice';
+      case 'Lookup':
+      case 'Customer':
+      case 'Owner':
+        return 'lookup';
+    }
+  }
+
+  return (classid && CLASS_ID_CONTROL_KINDS[classid.toUpperCase()]) || 'text';
+}
+
+/**
+ * Whether a date and time column only stores the date
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/behavior-format-date-time-attribute
+ */
+export function isDateOnly(attribute: AttributeMetadata | undefined): boolean {
+  return attribute?.DateTimeBehavior?.Value === 'DateOnly' || attribute?.Format === 'DateOnly';
+}
+
+/**
+ * Date of a date-only value as YYYY-MM-DD, or undefined when the value is not a date
+ * Date objects, such as those set by form scripts, give their local date.
+ */
+export function toDateOnlyString(value: any): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : formatLocalDate(value);
+  }
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    return text.substring(0, 10);
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : formatLocalDate(date);
+}
+
+function formatLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Options of a choice, multi-select choice, two-option, state or status column
+ */
+export function getAttributeOptions(attribute: AttributeMetadata | undefined): { value: number; label: string }[] {
+  const optionSet = attribute?.OptionSet;
+  if (!optionSet) {
+    return [];
+  }
+
+  const options: OptionMetadata[] = optionSet.Options
+    || [optionSet.FalseOption, optionSet.TrueOption].filter((o): o is OptionMetadata => !!o);
+
+  return options.map(option => ({
+    value: option.Value,
+    label: option.Label?.UserLocalizedLabel?.Label || String(option.Value),
+  }));
+}
+
+/**
+ * Number of decimal places allowed for a numeric column
+ */
+export function getAttributePrecision(attribute: AttributeMetadata | undefined, kind: AttributeControlKind): number {
+  if (kind === 'whole-number') {
+    return 0;
+  }
+  if (attribute?.Precision !== undefined) {
+    return attribute.Precision;
+  }
+  return 2;
+}
+
+/**
+ * Convert a form value to the JSON type the Web API expects for the column
+ * Values that are not dates in a date column are reported as an error naming the column, before anything is sent.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/web-api-types-operations
+ */
+export function serializeAttributeValue(
+  attribute: AttributeMetadata | undefined,
+  value: any,
+  classid?: string
+): any {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  switch (getAttributeControlKind(attribute, classid)) {
+    case 'whole-number':
+      return Math.trunc(Number(value));
+    case 'decimal':
+    case 'money':
+      return Number(value);
+    case 'boolean':
+      return value === true || value === 'true' || value === 1 || value === '1';
+    case 'choice':
+      return parseInt(String(value), 10);
+    case 'multi-choice':
+      // Multi-select choice values are sent as a comma-separated string of option values
+      return Array.isArray(value) ? value.join(',') : String(value);
+    case 'date': {
+      const date = toDateOnlyString(value);
+      if (date === undefined) {
+        throw invalidDateError(attribute, value);
+      }
+      return date;
+    }
+    case 'datetime': {
+      const date = value instanceof Date ? value : new Date(value);
+      if (isNaN(date.getTime())) {
+        throw invalidDateError(attribute, value);
+      }
+      return date.toISOString();
+    }
+    default:
+      return value;
+  }
+}
+
+function invalidDateError(attribute: AttributeMetadata | undefined, value: any): Error {
+  return new Error(`'${value}' is not a valid date for column ${attribute?.LogicalName}`);
+}
+
+/**
+ * Build the request body for create or update from the changed columns of a record
+ * Only changed columns are sent so read-only and annotation properties of the retrieved record are left out.
+ * Lookup columns are skipped; they are written as navigation property bindings (see buildLookupBindings).
+ */
+export function buildSavePayload(
+  record: EntityRecord,
+  changedFields: Iterable<string>,
+  attributes: Map<string, AttributeMetadata>,
+  classIds: Map<string, string> = new Map()
+): EntityRecord {
+  const payload: EntityRecord = {};
+  for (const fieldName of Array.from(changedFields)) {
+    const attribute = attributes.get(fieldName);
+    if (getAttributeControlKind(attribute) === 'lookup') {
+      continue;
+    }
+    payload[fieldName] = serializeAttributeValue(attribute, record[fieldName], classIds.get(fieldName));
+  }
+  return payload;
+}
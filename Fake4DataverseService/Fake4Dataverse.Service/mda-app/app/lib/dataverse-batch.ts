@@ -0,0 +1,363 @@
+/**
+ * $batch request builder for the Dataverse Web API
+ * Operations are sent as one multipart/mixed request; operations in a changeset run in one transaction
+ * and can reference the result of an earlier operation in the same changeset by Content-ID ($1).
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/execute-batch-operations-using-web-api
+ */
+
+import { DataverseApiError } from './dataverse-error';
+
+const CRLF = '\r\n';
+
+/**
+ * A request inside a batch
+ * The url is relative to the Web API root (accounts(…)), absolute, or a Content-ID reference ($1/…).
+ */
+export interface BatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  url: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Response to one operation of a batch
+ * Operations that were not run because an earlier operation failed have executed set to false.
+ */
+export interface BatchOperationResult {
+  method: string;
+  url: string;
+  contentId: string;
+  executed: boolean;
+  ok: boolean;
+  status?: number;
+  statusText?: string;
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+  body?: any;
+  /** Id of the created or updated record, read from the OData-EntityId header */
+  entityId?: string;
+  error?: DataverseApiError;
+}
+
+interface BatchOperation extends BatchRequest {
+  contentId: string;
+}
+
+// A top-level part of the batch: a single operation or a changeset of operations
+type BatchPart =
+  | { kind: 'operation'; operation: BatchOperation }
+  | { kind: 'changeset'; operations: BatchOperation[] };
+
+interface HttpResponsePart {
+  contentId?: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * Operations of one changeset
+ * Every method returns the Content-ID reference of the operation, for use in later operations
+ * of the same changeset (for example "$1" in an @odata.bind value).
+ */
+export class BatchChangeset {
+  constructor(private addOperation: (request: BatchRequest) => BatchOperation) {}
+
+  create(entitySetName: string, data: Record<string, any>): string {
+    return this.request({ method: 'POST', url: entitySetName, body: data });
+  }
+
+  update(entitySetName: string, id: string, data: Record<string, any>): string {
+    return this.request({ method: 'PATCH', url: `${entitySetName}(${id})`, body: data });
+  }
+
+  delete(entitySetName: string, id: string): string {
+    return this.request({ method: 'DELETE', url: `${entitySetName}(${id})` });
+  }
+
+  request(request: BatchRequest): string {
+    if (request.method === 'GET') {
+      throw new Error('GET requests cannot be part of a changeset');
+    }
+    return `$${this.addOperation(request).contentId}`;
+  }
+}
+
+export class DataverseBatch {
+  private parts: BatchPart[] = [];
+  private nextContentId = 1;
+
+  constructor(
+    private apiBaseUrl: string,
+    private options: { continueOnError?: boolean } = {}
+  ) {}
+
+  /**
+   * Add a request outside of any changeset
+   */
+  request(request: BatchRequest): this {
+    this.parts.push({ kind: 'operation', operation: this.createOperation(request) });
+    return this;
+  }
+
+  get(url: string, headers?: Record<string, string>): this {
+    return this.request({ method: 'GET', url, headers });
+  }
+
+  create(entitySetName: string, data: Record<string, any>): this {
+    return this.request({ method: 'POST', url: entitySetName, body: data });
+  }
+
+  update(entitySetName: string, id: string, data: Record<string, any>): this {
+    return this.request({ method: 'PATCH', url: `${entitySetName}(${id})`, body: data });
+  }
+
+  delete(entitySetName: string, id: string): this {
+    return this.request({ method: 'DELETE', url: `${entitySetName}(${id})` });
+  }
+
+  /**
+   * Add a changeset; its operations succeed or fail together
+   */
+  changeset(build: (changeset: BatchChangeset) => void): this {
+    const operations: BatchOperation[] = [];
+    build(new BatchChangeset((request) => {
+      const operation = this.createOperation(request);
+      operations.push(operation);
+      return operation;
+    }));
+    if (operations.length > 0) {
+      this.parts.push({ kind: 'changeset', operations });
+    }
+    return this;
+  }
+
+  get size(): number {
+    return this.parts.reduce((count, part) => count + (part.kind === 'changeset' ? part.operations.length : 1), 0);
+  }
+
+  /**
+   * Send the batch and return one result per operation, in the order the operations were added
+   */
+  async execute(): Promise<BatchOperationResult[]> {
+    const boundary = `batch_${createBoundaryId()}`;
+    const body = this.buildBody(boundary);
+    const url = `${this.apiBaseUrl}/$batch`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': `multipart/mixed; boundary=${boundary}`,
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+        ...(this.options.continueOnError && { 'Prefer': 'odata.continue-on-error' }),
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'POST', url, body });
+    }
+
+    const responseBoundary = getBoundary(response.headers.get('Content-Type') || '');
+    if (!responseBoundary) {
+      throw new Error('The $batch response is not a multipart/mixed response');
+    }
+    return this.mapResults(parseBatchResponse(await response.text(), responseBoundary));
+  }
+
+  /**
+   * Build the multipart/mixed request body
+   */
+  buildBody(boundary: string): string {
+    const lines: string[] = [];
+    this.parts.forEach((part) => {
+      lines.push(`--${boundary}`);
+      if (part.kind === 'operation') {
+        lines.push(...this.formatOperation(part.operation));
+        return;
+      }
+
+      const changesetBoundary = `changeset_${createBoundaryId()}`;
+      lines.push(`Content-Type: multipart/mixed; boundary=${changesetBoundary}`, '');
+      part.operations.forEach((operation) => {
+        lines.push(`--${changesetBoundary}`, ...this.formatOperation(operation));
+      });
+      lines.push(`--${changesetBoundary}--`);
+    });
+    lines.push(`--${boundary}--`, '');
+    return lines.join(CRLF);
+  }
+
+  private createOperation(request: BatchRequest): BatchOperation {
+    return { ...request, contentId: String(this.nextContentId++) };
+  }
+
+  private formatOperation(operation: BatchOperation): string[] {
+    const lines = [
+      'Content-Type: application/http',
+      'Content-Transfer-Encoding: binary',
+      `Content-ID: ${operation.contentId}`,
+      '',
+      `${operation.method} ${this.resolveUrl(operation.url)} HTTP/1.1`,
+    ];
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      ...(operation.body !== undefined && { 'Content-Type': 'application/json; type=entry' }),
+      ...operation.headers,
+    };
+    Object.entries(headers).forEach(([name, value]) => lines.push(`${name}: ${value}`));
+    lines.push('');
+    if (operation.body !== undefined) {
+      lines.push(JSON.stringify(operation.body));
+    }
+    return lines;
+  }
+
+  private resolveUrl(url: string): string {
+    if (url.startsWith('$') || url.startsWith('/') || /^https?:\/\//.test(url)) {
+      return url;
+    }
+    return `${this.apiBaseUrl}/${url}`;
+  }
+
+  /**
+   * Match responses to operations
+   * Each top-level response belongs to the top-level part at the same position. A changeset that fails
+   * returns a single error response that applies to all of its operations; parts after a failure
+   * without continue-on-error have no response.
+   */
+  private mapResults(responses: (HttpResponsePart | HttpResponsePart[])[]): BatchOperationResult[] {
+    const results: BatchOperationResult[] = [];
+    this.parts.forEach((part, index) => {
+      const response = responses[index];
+      if (part.kind === 'operation') {
+        results.push(this.toResult(part.operation, Array.isArray(response) ? response[0] : response));
+        return;
+      }
+
+      if (!Array.isArray(response)) {
+        part.operations.forEach(operation => results.push(this.toResult(operation, response)));
+        return;
+      }
+      const unmatched = [...response];
+      part.operations.forEach((operation) => {
+        const matchIndex = unmatched.findIndex(r => r.contentId === operation.contentId);
+        const matched = matchIndex >= 0 ? unmatched.splice(matchIndex, 1)[0] : unmatched.shift();
+        results.push(this.toResult(operation, matched));
+      });
+    });
+    return results;
+  }
+
+  private toResult(operation: BatchOperation, response: HttpResponsePart | undefined): BatchOperationResult {
+    const result: BatchOperationResult = {
+      method: operation.method,
+      url: operation.url,
+      contentId: operation.contentId,
+      executed: !!response,
+      ok: !!response && response.status >= 200 && response.status < 300,
+      status: response?.status,
+      statusText: response?.statusText,
+      headers: response?.headers || {},
+      body: response?.body,
+    };
+
+    const entityIdHeader = result.headers['odata-entityid'];
+    const match = entityIdHeader?.match(/\(([^)]+)\)$/);
+    if (match) {
+      result.entityId = match[1];
+    }
+
+    if (response && !result.ok) {
+      result.error = new DataverseApiError(
+        response.status,
+        response.statusText,
+        { method: operation.method, url: this.resolveUrl(operation.url), body: operation.body },
+        response.body
+      );
+    }
+    return result;
+  }
+}
+
+/**
+ * Parse a multipart/mixed $batch response
+ * Changeset responses are returned as arrays of their operation responses.
+ */
+export function parseBatchResponse(body: string, boundary: string): (HttpResponsePart | HttpResponsePart[])[] {
+  return splitMultipart(body, boundary).map((part) => {
+    const { headers, content } = splitHeaders(part);
+    const changesetBoundary = getBoundary(headers['content-type'] || '');
+    if (changesetBoundary) {
+      return splitMultipart(content, changesetBoundary).map(parseHttpPart);
+    }
+    return parseHttpPart(part);
+  });
+}
+
+function parseHttpPart(part: string): HttpResponsePart {
+  const { headers: partHeaders, content } = splitHeaders(part);
+  const { headers, content: responseBody } = splitHeaders(content.substring(content.indexOf('\n') + 1));
+  const statusLine = content.substring(0, content.indexOf('\n')).trim();
+  const statusMatch = statusLine.match(/^HTTP\/\d\.\d\s+(\d{3})\s*(.*)$/);
+
+  let parsedBody: any;
+  const text = responseBody.trim();
+  if (text) {
+    try {
+      parsedBody = JSON.parse(text);
+    } catch {
+      parsedBody = text;
+    }
+  }
+
+  return {
+    contentId: partHeaders['content-id'],
+    status: statusMatch ? parseInt(statusMatch[1], 10) : 0,
+    statusText: statusMatch ? statusMatch[2] : '',
+    headers,
+    body: parsedBody,
+  };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts = body.split(delimiter).slice(1);
+  const closingIndex = parts.findIndex(part => part.startsWith('--'));
+  return (closingIndex >= 0 ? parts.slice(0, closingIndex) : parts)
+    .map(part => part.replace(/^\r?\n/, ''));
+}
+
+function splitHeaders(part: string): { headers: Record<string, string>; content: string } {
+  const match = part.match(/\r?\n\r?\n/);
+  const headerText = match ? part.substring(0, match.index) : part;
+  const content = match ? part.substring(match.index! + match[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  headerText.split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim();
+    }
+  });
+  return { headers, content };
+}
+
+function getBoundary(contentType: string): string | undefined {
+  if (!contentType.toLowerCase().startsWith('multipart/mixed')) {
+    return undefined;
+  }
+  const match = contentType.match(/boundary=("?)([^";]+)\1/i);
+  return match ? match[2] : undefined;
+}
+
+function createBoundaryId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(16)}${Math.random().toString(16).substring(2)}`;
+}
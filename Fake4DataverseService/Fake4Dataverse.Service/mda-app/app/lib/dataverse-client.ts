@@ -3,11 +3,39 @@
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/overview
  */
 
-import type { ODataResponse, EntityRecord, AuditRecord, AuditDetail, AuditStatus } from '../types/dataverse';
+import type {
+  ODataResponse,
+  FetchXmlResponse,
+  EntityRecord,
+  AuditRecord,
+  AuditDetail,
+  AuditStatus,
+  OperationBinding,
+  WhoAmIResponse,
+} from '../types/dataverse';
+import { setFetchXmlPaging, parsePagingCookieAnnotation, parseFetchXml } from './fetchxml';
+import { DataverseApiError } from './dataverse-error';
+import { DataverseBatch } from './dataverse-batch';
+import { getActionPath, getFunctionPath } from './operation-path';
 
 const API_BASE_URL = '/api/data/v9.2';
 const AUDIT_API_BASE_URL = '/api/audit';
 
+/**
+ * Build the Prefer header from the requested preferences
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/compose-http-requests-handle-errors#prefer-headers
+ */
+function preferHeader(preferences: { maxPageSize?: number; includeAnnotations?: string }): Record<string, string> {
+  const values: string[] = [];
+  if (preferences.maxPageSize !== undefined) {
+    values.push(`odata.maxpagesize=${preferences.maxPageSize}`);
+  }
+  if (preferences.includeAnnotations) {
+    values.push(`odata.include-annotations="${preferences.includeAnnotations}"`);
+  }
+  return values.length > 0 ? { 'Prefer': values.join(',') } : {};
+}
+
 export class DataverseApiClient {
   /**
    * Fetch entities with OData query options
@@ -19,9 +47,13 @@ export class DataverseApiClient {
       select?: string[];
       filter?: string;
       orderby?: string;
+      expand?: string;
       top?: number;
       skip?: number;
       count?: boolean;
+      skipToken?: string;
+      maxPageSize?: number;
+      includeAnnotations?: string;
     }
   ): Promise<ODataResponse<EntityRecord>> {
     const params = new URLSearchParams();
@@ -35,6 +67,9 @@ export class DataverseApiClient {
     if (options?.orderby) {
       params.append('$orderby', options.orderby);
     }
+    if (options?.expand) {
+      params.append('$expand', options.expand);
+    }
     if (options?.top !== undefined) {
       params.append('$top', options.top.toString());
     }
@@ -44,6 +79,9 @@ export class DataverseApiClient {
     if (options?.count) {
       params.append('$count', 'true');
     }
+    if (options?.skipToken) {
+      params.append('$skiptoken', options.skipToken);
+    }
 
     const url = `${API_BASE_URL}/${entityPluralName}${params.toString() ? '?' + params.toString() : ''}`;
     
@@ -53,16 +91,105 @@ export class DataverseApiClient {
         'Accept': 'application/json',
         'OData-MaxVersion': '4.0',
         'OData-Version': '4.0',
+        ...preferHeader({ maxPageSize: options?.maxPageSize, includeAnnotations: options?.includeAnnotations }),
       },
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
   }
 
+  /**
+   * Fetch the next page of a query from its @odata.nextLink
+   * The same Prefer: odata.maxpagesize value must be sent with every page request.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/page-results
+   */
+  async fetchNextLink(
+    nextLink: string,
+    options?: {
+      maxPageSize?: number;
+      includeAnnotations?: string;
+    }
+  ): Promise<ODataResponse<EntityRecord>> {
+    // nextLink is absolute; keep only the path so requests go through the same origin as the app
+    const apiIndex = nextLink.indexOf(API_BASE_URL);
+    const url = apiIndex >= 0 ? nextLink.substring(apiIndex) : nextLink;
+    
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+        ...preferHeader({ maxPageSize: options?.maxPageSize, includeAnnotations: options?.includeAnnotations }),
+      },
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Execute a FetchXML query on the server through the fetchXml query parameter
+   * Paging options that are not given keep the page, count and paging cookie set in the FetchXML.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/retrieve-data?tabs=webapi
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/page-results
+   */
+  async fetchByFetchXml(
+    entitySetName: string,
+    fetchXml: string,
+    options?: {
+      page?: number;
+      count?: number;
+      pagingCookie?: string;
+      returnTotalRecordCount?: boolean;
+      includeAnnotations?: string;
+    }
+  ): Promise<FetchXmlResponse<EntityRecord>> {
+    const pagedFetchXml = options
+      ? setFetchXmlPaging(fetchXml, {
+          page: options.page,
+          count: options.count,
+          pagingCookie: options.pagingCookie,
+          returnTotalRecordCount: options.returnTotalRecordCount,
+        })
+      : fetchXml;
+    const page = options?.page ?? parseFetchXml(pagedFetchXml).query?.page ?? 1;
+
+    const url = `${API_BASE_URL}/${entitySetName}?fetchXml=${encodeURIComponent(pagedFetchXml)}`;
+    
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+        // The paging cookie and more records flag are Microsoft.Dynamics.CRM annotations
+        ...preferHeader({ includeAnnotations: options?.includeAnnotations || 'Microsoft.Dynamics.CRM.*' }),
+      },
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
+    }
+
+    const result = await response.json();
+    const cookie = parsePagingCookieAnnotation(result['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie']);
+
+    return {
+      ...result,
+      page,
+      pagingCookie: cookie.pagingCookie,
+      moreRecords: result['@Microsoft.Dynamics.CRM.morerecords'] === true,
+    };
+  }
+
   /**
    * Fetch a single entity by ID
    */
@@ -71,6 +198,8 @@ export class DataverseApiClient {
     id: string,
     options?: {
       select?: string[];
+      expand?: string;
+      includeAnnotations?: string;
     }
   ): Promise<EntityRecord> {
     const params = new URLSearchParams();
@@ -78,6 +207,9 @@ export class DataverseApiClient {
     if (options?.select?.length) {
       params.append('$select', options.select.join(','));
     }
+    if (options?.expand) {
+      params.append('$expand', options.expand);
+    }
 
     const url = `${API_BASE_URL}/${entityPluralName}(${id})${params.toString() ? '?' + params.toString() : ''}`;
     
@@ -87,11 +219,12 @@ export class DataverseApiClient {
         'Accept': 'application/json',
         'OData-MaxVersion': '4.0',
         'OData-Version': '4.0',
+        ...preferHeader({ includeAnnotations: options?.includeAnnotations }),
       },
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -118,7 +251,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'POST', url, body: data });
     }
 
     // Extract ID from Location header
@@ -155,7 +288,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'PATCH', url, body: data });
     }
   }
 
@@ -177,10 +310,124 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'DELETE', url });
     }
   }
 
+  /**
+   * Relate two records through a collection-valued navigation property, such as that of a many-to-many relationship
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/associate-disassociate-entities-using-web-api#add-a-reference-to-a-collection-valued-navigation-property
+   */
+  async associateEntities(
+    entityPluralName: string,
+    id: string,
+    navigationProperty: string,
+    targetPluralName: string,
+    targetId: string
+  ): Promise<void> {
+    const url = `${API_BASE_URL}/${entityPluralName}(${id})/${navigationProperty}/$ref`;
+    const body = { '@odata.id': `${window.location.origin}${API_BASE_URL}/${targetPluralName}(${targetId})` };
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'POST', url, body });
+    }
+  }
+
+  /**
+   * Invoke an action with POST
+   * Returns null when the action has no response properties (204 No Content).
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-actions
+   */
+  async executeAction<T = any>(
+    name: string,
+    parameters: Record<string, any> = {},
+    options?: {
+      bound?: OperationBinding;
+    }
+  ): Promise<T | null> {
+    const url = `${API_BASE_URL}/${getActionPath(name, options?.bound)}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+      },
+      body: JSON.stringify(parameters),
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'POST', url, body: parameters });
+    }
+
+    if (response.status === 204) {
+      return null;
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  /**
+   * Invoke a function with GET
+   * Parameters are passed as parameter aliases; see getFunctionPath for how values are formatted.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-functions#passing-parameters-to-a-function
+   */
+  async executeFunction<T = any>(
+    name: string,
+    parameters: Record<string, any> = {},
+    options?: {
+      bound?: OperationBinding;
+      parameterTypes?: Record<string, string>;
+    }
+  ): Promise<T> {
+    const url = `${API_BASE_URL}/${getFunctionPath(name, parameters, options)}`;
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+      },
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Identify the calling user, business unit and organization
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/whoami
+   */
+  async whoAmI(): Promise<WhoAmIResponse> {
+    return this.executeFunction<WhoAmIResponse>('WhoAmI');
+  }
+
+  /**
+   * Start a $batch request
+   * With continueOnError the remaining operations still run after one fails (Prefer: odata.continue-on-error).
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/execute-batch-operations-using-web-api
+   */
+  batch(options?: { continueOnError?: boolean }): DataverseBatch {
+    return new DataverseBatch(API_BASE_URL, options);
+  }
+
   /**
    * Fetch entity metadata (table definitions)
    * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/entitymetadata
@@ -189,6 +436,7 @@ export class DataverseApiClient {
     options?: {
       select?: string[];
       filter?: string;
+      expand?: string[];
     }
   ): Promise<any> {
     const params = new URLSearchParams();
@@ -199,6 +447,9 @@ export class DataverseApiClient {
     if (options?.filter) {
       params.append('$filter', options.filter);
     }
+    if (options?.expand?.length) {
+      params.append('$expand', options.expand.join(','));
+    }
 
     const url = `${API_BASE_URL}/EntityDefinitions${params.toString() ? '?' + params.toString() : ''}`;
     
@@ -212,7 +463,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -246,7 +497,49 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Fetch the attribute definitions of a table
+   * Pass castType (e.g. 'PicklistAttributeMetadata') to read properties that only exist on a derived type,
+   * such as the OptionSet navigation property.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query-metadata-web-api#retrieving-attributes
+   */
+  async fetchEntityAttributes(
+    logicalName: string,
+    options?: {
+      castType?: string;
+      select?: string[];
+      expand?: string[];
+    }
+  ): Promise<any> {
+    const params = new URLSearchParams();
+    
+    if (options?.select?.length) {
+      params.append('$select', options.select.join(','));
+    }
+    if (options?.expand?.length) {
+      params.append('$expand', options.expand.join(','));
+    }
+
+    const cast = options?.castType ? `/Microsoft.Dynamics.CRM.${options.castType}` : '';
+    const url = `${API_BASE_URL}/EntityDefinitions(LogicalName='${logicalName}')/Attributes${cast}${params.toString() ? '?' + params.toString() : ''}`;
+    
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0',
+      },
+    });
+
+    if (!response.ok) {
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -289,7 +582,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -313,7 +606,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -334,7 +627,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -354,7 +647,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'GET', url });
     }
 
     return response.json();
@@ -376,7 +669,7 @@ export class DataverseApiClient {
     });
 
     if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      throw await DataverseApiError.fromResponse(response, { method: 'POST', url, body: { isAuditEnabled: isEnabled } });
     }
 
     return response.json();
@@ -0,0 +1,118 @@
+/**
+ * Errors returned by the Dataverse Web API
+ * Failed requests return an OData error body: { error: { code, message, innererror, @Microsoft.PowerApps.CDS.* } }.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/compose-http-requests-handle-errors#parse-errors-from-the-response
+ */
+
+/**
+ * Error code returned when a plug-in throws InvalidPluginExecutionException (IsvAborted)
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/web-service-error-codes
+ */
+export const ISV_ABORTED_ERROR_CODE = '0x80040265';
+
+const ERROR_DETAILS_ANNOTATION_PREFIX = '@Microsoft.PowerApps.CDS.ErrorDetails.';
+const TRACE_TEXT_ANNOTATION = '@Microsoft.PowerApps.CDS.TraceText';
+const HELP_LINK_ANNOTATION = '@Microsoft.PowerApps.CDS.HelpLink';
+
+/**
+ * The innererror object of an OData error
+ */
+export interface DataverseInnerError {
+  message?: string;
+  type?: string;
+  stacktrace?: string;
+  internalexception?: DataverseInnerError;
+}
+
+/**
+ * The request that failed
+ */
+export interface DataverseRequestInfo {
+  method: string;
+  url: string;
+  body?: any;
+}
+
+export class DataverseApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  /** Dataverse error code as a hex string, such as 0x80040265 */
+  readonly code?: string;
+  readonly innerError?: DataverseInnerError;
+  /** @Microsoft.PowerApps.CDS.ErrorDetails.* annotations without the prefix, such as OperationStatus or ApiExceptionSourceKey */
+  readonly errorDetails: Record<string, string>;
+  /** Plug-in trace log returned with @Microsoft.PowerApps.CDS.TraceText */
+  readonly traceText?: string;
+  readonly helpLink?: string;
+  readonly request: DataverseRequestInfo;
+
+  constructor(
+    status: number,
+    statusText: string,
+    request: DataverseRequestInfo,
+    body?: any
+  ) {
+    const error = body?.error;
+    super(error?.message || `API request failed: ${status} ${statusText}`);
+    this.name = 'DataverseApiError';
+    this.status = status;
+    this.statusText = statusText;
+    this.request = request;
+    this.code = error?.code || undefined;
+    this.innerError = error?.innererror;
+    this.traceText = error?.[TRACE_TEXT_ANNOTATION];
+    this.helpLink = error?.[HELP_LINK_ANNOTATION];
+    this.errorDetails = {};
+    Object.keys(error || {})
+      .filter(key => key.startsWith(ERROR_DETAILS_ANNOTATION_PREFIX))
+      .forEach((key) => {
+        this.errorDetails[key.substring(ERROR_DETAILS_ANNOTATION_PREFIX.length)] = String(error[key]);
+      });
+  }
+
+  /**
+   * Create the error from a failed fetch response, reading the OData error body when there is one
+   */
+  static async fromResponse(response: Response, request: DataverseRequestInfo): Promise<DataverseApiError> {
+    let body: any;
+    try {
+      const text = await response.text();
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not a JSON error body (for example a proxy error page)
+      body = undefined;
+    }
+    return new DataverseApiError(response.status, response.statusText, request, body);
+  }
+
+  /**
+   * Whether the error was thrown by a plug-in, which the UI shows as a Business Process Error
+   * The fake service reports plug-in exceptions through the inner error type rather than the IsvAborted code.
+   */
+  get isPluginError(): boolean {
+    return this.code?.toLowerCase() === ISV_ABORTED_ERROR_CODE
+      || this.errorDetails.ApiExceptionMessageName === 'IsvAborted'
+      || !!this.innerError?.type?.includes('InvalidPluginExecutionException');
+  }
+
+  /**
+   * The message the plug-in threw
+   * When the service wraps the exception in its own message the inner error carries the original text.
+   */
+  get pluginMessage(): string {
+    if (this.innerError?.message && this.innerError.type?.includes('InvalidPluginExecutionException')) {
+      return this.innerError.message;
+    }
+    return this.message;
+  }
+}
+
+/**
+ * Message for any error caught from the client
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof DataverseApiError) {
+    return error.isPluginError ? error.pluginMessage : error.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
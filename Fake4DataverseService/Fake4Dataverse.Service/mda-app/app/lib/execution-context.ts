@@ -0,0 +1,270 @@
+/**
+ * Execution contexts and event arguments passed to form event handlers
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/clientapi-execution-context
+ */
+
+import type {
+  ExecutionContext,
+  FormContext,
+  XrmEventHandler,
+  XrmEventSource,
+  XrmLoadEventArgs,
+  XrmPostSaveEventArgs,
+  XrmSaveEventArgs,
+} from './xrm-api-types';
+import type { FormEvent } from '../types/dataverse';
+import { DataverseApiError } from './dataverse-error';
+
+// Values returned by getSaveMode
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/save-event-arguments/getsavemode
+export const XRM_SAVE_MODE = {
+  Save: 1,
+  SaveAndClose: 2,
+  SaveAndNew: 59,
+  AutoSave: 70,
+};
+
+// Time the form waits for a promise returned by an OnLoad or OnSave handler, in milliseconds
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/events-forms-grids#asynchronous-event-handler-support
+export const DEFAULT_ASYNC_HANDLER_TIMEOUT = 10000;
+
+// Values returned by getDataLoadState
+export const XRM_DATA_LOAD_STATE = {
+  InitialLoad: 1,
+  Save: 2,
+  Refresh: 3,
+};
+
+/**
+ * Source and arguments of an event, shared by the execution contexts of its handlers
+ */
+export interface XrmEventOptions {
+  eventSource?: XrmEventSource | null;
+  eventArgs?: XrmSaveEventArgsImpl | XrmPostSaveEventArgsImpl | XrmLoadEventArgsImpl | null;
+}
+
+export class XrmSaveEventArgsImpl implements XrmSaveEventArgs {
+  private defaultPrevented = false;
+  private preventOnError = false;
+
+  constructor(private saveMode: number = XRM_SAVE_MODE.Save) {}
+
+  getSaveMode(): number {
+    return this.saveMode;
+  }
+
+  isDefaultPrevented(): boolean {
+    return this.defaultPrevented;
+  }
+
+  preventDefault(): void {
+    this.defaultPrevented = true;
+  }
+
+  /**
+   * Cancel the save if a later handler of the event throws
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/save-event-arguments/preventdefaultonerror
+   */
+  preventDefaultOnError(): void {
+    this.preventOnError = true;
+  }
+
+  /**
+   * Called when a handler of the event throws
+   */
+  handleError(): void {
+    if (this.preventOnError) {
+      this.defaultPrevented = true;
+    }
+  }
+}
+
+export class XrmPostSaveEventArgsImpl implements XrmPostSaveEventArgs {
+  constructor(
+    private entityReference: { entityType: string; id: string; name: string },
+    private saveError?: unknown
+  ) {}
+
+  getEntityReference(): { entityType: string; id: string; name: string } {
+    return this.entityReference;
+  }
+
+  getIsSaveSuccess(): boolean {
+    return this.saveError === undefined;
+  }
+
+  getSaveErrorInfo(): { errorCode?: number; message: string } | null {
+    if (this.saveError === undefined) {
+      return null;
+    }
+    if (this.saveError instanceof DataverseApiError) {
+      return {
+        errorCode: this.saveError.code ? parseInt(this.saveError.code, 16) : undefined,
+        message: this.saveError.message,
+      };
+    }
+    return { message: this.saveError instanceof Error ? this.saveError.message : String(this.saveError) };
+  }
+}
+
+export class XrmLoadEventArgsImpl implements XrmLoadEventArgs {
+  constructor(private dataLoadState: number = XRM_DATA_LOAD_STATE.InitialLoad) {}
+
+  getDataLoadState(): number {
+    return this.dataLoadState;
+  }
+}
+
+export class XrmExecutionContext implements ExecutionContext {
+  constructor(
+    private formContext: FormContext,
+    private options: XrmEventOptions,
+    private sharedVariables: Map<string, any>,
+    private depth: number
+  ) {}
+
+  getFormContext(): FormContext {
+    return this.formContext;
+  }
+
+  getEventSource(): XrmEventSource | null {
+    return this.options.eventSource ?? null;
+  }
+
+  getEventArgs(): XrmSaveEventArgs | XrmPostSaveEventArgs | XrmLoadEventArgs | null {
+    return this.options.eventArgs ?? null;
+  }
+
+  /**
+   * Position of the handler among the handlers of the event, starting at 1
+   */
+  getDepth(): number {
+    return this.depth;
+  }
+
+  getSharedVariable(key: string): any {
+    return this.sharedVariables.get(key);
+  }
+
+  setSharedVariable(key: string, value: any): void {
+    this.sharedVariables.set(key, value);
+  }
+}
+
+/**
+ * Run the handlers of one event in order
+ * Every handler gets its own execution context; the handlers of an event share their shared variables.
+ * A handler that throws does not stop the handlers after it.
+ */
+export function executeEventHandlers(
+  eventName: string,
+  handlers: XrmEventHandler[],
+  formContext: FormContext,
+  options: XrmEventOptions = {}
+): void {
+  const sharedVariables = new Map<string, any>();
+  handlers.forEach((handler, index) => {
+    try {
+      handler(new XrmExecutionContext(formContext, options, sharedVariables, index + 1));
+    } catch (error) {
+      console.error(`Error in ${eventName} handler:`, error);
+      if (options.eventArgs instanceof XrmSaveEventArgsImpl) {
+        options.eventArgs.handleError();
+      }
+    }
+  });
+}
+
+/**
+ * Run the handlers of an event that supports asynchronous handlers (OnLoad and OnSave)
+ * A handler that returns a promise is awaited before the next handler runs, for at most the timeout.
+ * A handler that does not finish in time is reported as a form notification and, in OnSave, cancels
+ * the save. A rejected promise is handled like a handler that throws.
+ */
+export async function executeAsyncEventHandlers(
+  eventName: string,
+  handlers: XrmEventHandler[],
+  formContext: FormContext,
+  options: XrmEventOptions = {},
+  timeout: number = DEFAULT_ASYNC_HANDLER_TIMEOUT
+): Promise<void> {
+  const sharedVariables = new Map<string, any>();
+  for (let index = 0; index < handlers.length; index++) {
+    try {
+      const result = handlers[index](new XrmExecutionContext(formContext, options, sharedVariables, index + 1));
+      if (isPromiseLike(result) && !await completesWithin(result, timeout)) {
+        const saveEventArgs = options.eventArgs instanceof XrmSaveEventArgsImpl ? options.eventArgs : null;
+        saveEventArgs?.preventDefault();
+        formContext.ui.setFormNotification(
+          `The ${eventName} event handler did not complete within ${timeout / 1000} seconds`
+            + (saveEventArgs ? '; the record was not saved' : ''),
+          saveEventArgs ? 'ERROR' : 'WARNING',
+          `${eventName}_handler_timeout`
+        );
+      }
+    } catch (error) {
+      console.error(`Error in ${eventName} handler:`, error);
+      if (options.eventArgs instanceof XrmSaveEventArgsImpl) {
+        options.eventArgs.handleError();
+      }
+    }
+  }
+}
+
+/**
+ * Handler that calls the function a FormXML event handler names
+ * The function is looked up when the event fires, after the form libraries have run. The execution
+ * context is passed first when passExecutionContext is set, followed by the handler parameters.
+ */
+export function createFormEventHandler(
+  event: FormEvent,
+  resolveFunction: (functionName: string) => unknown
+): XrmEventHandler {
+  return (executionContext) => {
+    const func = resolveFunction(event.functionName!);
+    if (typeof func !== 'function') {
+      console.warn(`Function ${event.functionName} not found for event ${event.name}`);
+      return;
+    }
+    const parameters = (event.parameters || []).map(parseHandlerParameter);
+    return func(...(event.passExecutionContext !== false ? [executionContext, ...parameters] : parameters));
+  };
+}
+
+/**
+ * Value of a handler parameter
+ * Parameters are written as script literals in the form editor: quoted strings, numbers, booleans or null.
+ */
+export function parseHandlerParameter(parameter: string): any {
+  const text = parameter.trim();
+  const quoted = text.match(/^(['"])([\s\S]*)\1$/);
+  if (quoted) {
+    return quoted[2];
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (text === 'null') {
+    return null;
+  }
+  if (text !== '' && !isNaN(Number(text))) {
+    return Number(text);
+  }
+  return text;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * Wait for a promise; resolves to false when it is still pending after the timeout
+ */
+function completesWithin(promise: PromiseLike<unknown>, timeout: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout);
+  });
+  return Promise.race([Promise.resolve(promise).then(() => true), timedOut])
+    .finally(() => clearTimeout(timer));
+}
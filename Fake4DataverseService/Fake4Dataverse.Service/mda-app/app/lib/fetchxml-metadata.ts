@@ -0,0 +1,142 @@
+/**
+ * Table metadata for FetchXML translation
+ * Loads the column types of every table a query reads, including its link-entities, so the translator formats
+ * literals by column type instead of by their text. Link-entities are joined through the navigation properties of
+ * the relationships between their tables, and links to an intersect table through those of its many-to-many
+ * relationship.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query-metadata-web-api
+ */
+
+import { parseFetchXml } from './fetchxml';
+import { metadataCache } from './metadata-cache';
+import type { FetchEntityBase, FetchLinkEntity, FetchNavigationProperty, FetchXmlTranslationOptions } from './fetchxml';
+import type {
+  AttributeMetadata,
+  ManyToManyRelationshipMetadata,
+  OneToManyRelationshipMetadata,
+} from '../types/dataverse';
+
+/**
+ * Build the translation options for a query from the metadata of its tables
+ * Tables whose metadata fails to load have no column types; their literals are formatted without metadata.
+ */
+export async function loadFetchXmlTranslationOptions(fetchXml: string): Promise<FetchXmlTranslationOptions> {
+  const { query } = parseFetchXml(fetchXml);
+  const tableNames = new Set<string>();
+  if (query) {
+    collectTableNames(query.entity, tableNames);
+  }
+
+  const attributesByTable = new Map<string, Map<string, AttributeMetadata>>();
+  await Promise.all(Array.from(tableNames).map(async (tableName) => {
+    const attributes = await metadataCache.getAttributes(tableName).catch((err) => {
+      console.warn(`Failed to load attribute metadata for ${tableName}:`, err);
+      return new Map<string, AttributeMetadata>();
+    });
+    attributesByTable.set(tableName, attributes);
+  }));
+
+  const navigationProperties = new Map<string, FetchNavigationProperty>();
+  if (query) {
+    await resolveNavigationProperties(query.entity, attributesByTable, navigationProperties);
+  }
+
+  return {
+    getAttributeType: (tableName, attributeName) => attributesByTable.get(tableName)?.get(attributeName)?.AttributeType,
+    getNavigationProperty: (parentEntityName, link) => navigationProperties.get(getLinkKey(parentEntityName, link)),
+  };
+}
+
+function collectTableNames(entity: FetchEntityBase, tableNames: Set<string>): void {
+  tableNames.add(entity.name);
+  entity.linkEntities.forEach(link => collectTableNames(link, tableNames));
+}
+
+async function resolveNavigationProperties(
+  parent: FetchEntityBase,
+  attributesByTable: Map<string, Map<string, AttributeMetadata>>,
+  navigationProperties: Map<string, FetchNavigationProperty>
+): Promise<void> {
+  for (const link of parent.linkEntities) {
+    const navigation = await resolveNavigationProperty(parent.name, link, attributesByTable);
+    if (navigation) {
+      navigationProperties.set(getLinkKey(parent.name, link), navigation);
+    }
+    await resolveNavigationProperties(link, attributesByTable, navigationProperties);
+  }
+}
+
+/**
+ * Find the relationship a link-entity joins through
+ * Many-to-one links use the lookup of the parent table, one-to-many links a lookup of the linked table to the parent.
+ * Intersect tables have no navigation properties; a link to one joins the records of the other table of the
+ * many-to-many relationship, whose primary id columns the intersect columns are named after.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/web-api-navigation-properties
+ */
+async function resolveNavigationProperty(
+  parentEntityName: string,
+  link: FetchLinkEntity,
+  attributesByTable: Map<string, Map<string, AttributeMetadata>>
+): Promise<FetchNavigationProperty | undefined> {
+  const manyToOne = (await loadManyToOneRelationships(parentEntityName)).find(r =>
+    r.ReferencingAttribute === link.to && r.ReferencedEntity === link.name
+  );
+  if (manyToOne?.ReferencingEntityNavigationPropertyName) {
+    return { name: manyToOne.ReferencingEntityNavigationPropertyName, collection: false };
+  }
+
+  const oneToMany = (await loadManyToOneRelationships(link.name)).find(r =>
+    r.ReferencingAttribute === link.from && r.ReferencedEntity === parentEntityName
+  );
+  if (oneToMany?.ReferencedEntityNavigationPropertyName) {
+    return { name: oneToMany.ReferencedEntityNavigationPropertyName, collection: true };
+  }
+
+  const manyToMany = (await loadManyToManyRelationships(parentEntityName)).find(r => r.IntersectEntityName === link.name);
+  const manyToManyNavigationProperty = manyToMany && getManyToManyNavigationProperty(manyToMany, parentEntityName, link.from);
+  if (manyToManyNavigationProperty) {
+    return { name: manyToManyNavigationProperty, collection: true };
+  }
+
+  // Without relationship metadata, a lookup of the parent to the linked table still names its navigation property
+  const lookup = attributesByTable.get(parentEntityName)?.get(link.to);
+  if (lookup?.Targets?.includes(link.name)) {
+    return { name: await metadataCache.getLookupNavigationProperty(parentEntityName, link.to, link.name), collection: false };
+  }
+  return undefined;
+}
+
+async function loadManyToOneRelationships(logicalName: string): Promise<OneToManyRelationshipMetadata[]> {
+  return metadataCache.getManyToOneRelationships(logicalName).catch((err) => {
+    console.warn(`Failed to load relationships for ${logicalName}:`, err);
+    return [];
+  });
+}
+
+async function loadManyToManyRelationships(logicalName: string): Promise<ManyToManyRelationshipMetadata[]> {
+  return metadataCache.getManyToManyRelationships(logicalName).catch((err) => {
+    console.warn(`Failed to load relationships for ${logicalName}:`, err);
+    return [];
+  });
+}
+
+/**
+ * Collection-valued navigation property of a table in a many-to-many relationship, by the intersect column of the table
+ */
+function getManyToManyNavigationProperty(
+  relationship: ManyToManyRelationshipMetadata,
+  entityName: string,
+  intersectAttribute: string
+): string | undefined {
+  if (relationship.Entity1LogicalName === entityName && relationship.Entity1IntersectAttribute === intersectAttribute) {
+    return relationship.Entity1NavigationPropertyName;
+  }
+  if (relationship.Entity2LogicalName === entityName && relationship.Entity2IntersectAttribute === intersectAttribute) {
+    return relationship.Entity2NavigationPropertyName;
+  }
+  return undefined;
+}
+
+function getLinkKey(parentEntityName: string, link: FetchLinkEntity): string {
+  return `${parentEntityName}|${link.to}|${link.name}|${link.from}`;
+}
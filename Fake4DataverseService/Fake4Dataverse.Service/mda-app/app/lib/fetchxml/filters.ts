@@ -0,0 +1,63 @@
+/**
+ * FetchXML filter helpers
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/filter-rows
+ */
+
+/**
+ * Condition added to a query, such as the lookup to the parent record of a subgrid
+ */
+export interface FetchXmlConditionInput {
+  attribute: string;
+  operator: string;
+  value: string;
+  uitype?: string; // Table of the record a lookup condition refers to
+  /** Intersect table the condition applies to, joined to the root entity, for records of a many-to-many relationship */
+  intersect?: { name: string; from: string; to: string };
+}
+
+/**
+ * Restrict the root <entity> of a query with one more condition
+ * The condition goes in a filter of its own, so the filters already in the query still apply unchanged.
+ * A condition on an intersect table goes in an inner link-entity to that table instead.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/link-entity
+ */
+export function addFetchXmlCondition(fetchXml: string, condition: FetchXmlConditionInput): string {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(fetchXml, 'text/xml');
+  const fetchElement = xmlDoc.documentElement;
+
+  if (!fetchElement || fetchElement.tagName !== 'fetch' || xmlDoc.getElementsByTagName('parsererror').length > 0) {
+    return fetchXml;
+  }
+
+  const entityElement = Array.from(fetchElement.children).find(child => child.tagName === 'entity');
+  if (!entityElement) {
+    return fetchXml;
+  }
+
+  const filterElement = xmlDoc.createElement('filter');
+  filterElement.setAttribute('type', 'and');
+  const conditionElement = xmlDoc.createElement('condition');
+  conditionElement.setAttribute('attribute', condition.attribute);
+  conditionElement.setAttribute('operator', condition.operator);
+  conditionElement.setAttribute('value', condition.value);
+  if (condition.uitype) {
+    conditionElement.setAttribute('uitype', condition.uitype);
+  }
+  filterElement.appendChild(conditionElement);
+
+  if (condition.intersect) {
+    const linkElement = xmlDoc.createElement('link-entity');
+    linkElement.setAttribute('name', condition.intersect.name);
+    linkElement.setAttribute('from', condition.intersect.from);
+    linkElement.setAttribute('to', condition.intersect.to);
+    linkElement.setAttribute('link-type', 'inner');
+    linkElement.setAttribute('intersect', 'true');
+    linkElement.appendChild(filterElement);
+    entityElement.appendChild(linkElement);
+  } else {
+    entityElement.appendChild(filterElement);
+  }
+
+  return new XMLSerializer().serializeToString(xmlDoc);
+}
@@ -0,0 +1,38 @@
+/**
+ * FetchXML to OData translator
+ * Parses the FetchXML grammar into a FetchQuery tree and emits equivalent Web API query options.
+ * Constructs that have no OData equivalent are reported as typed diagnostics.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/overview
+ */
+
+import { parseFetchXml } from './parser';
+import { toODataQuery } from './odata';
+import type { FetchXmlTranslation, FetchXmlTranslationOptions } from './types';
+
+export { parseFetchXml } from './parser';
+export { toODataQuery } from './odata';
+export { setFetchXmlPaging, parsePagingCookieAnnotation } from './paging';
+export { addFetchXmlCondition } from './filters';
+export type { FetchXmlConditionInput } from './filters';
+export * from './types';
+
+/**
+ * Parse FetchXML and translate it to OData query options in one step
+ */
+export function translateFetchXml(
+  fetchXml: string,
+  options: FetchXmlTranslationOptions = {}
+): FetchXmlTranslation {
+  const parsed = parseFetchXml(fetchXml);
+  if (!parsed.query) {
+    return { query: null, odata: {}, aliases: [], diagnostics: parsed.diagnostics };
+  }
+
+  const translated = toODataQuery(parsed.query, options);
+  return {
+    query: parsed.query,
+    odata: translated.odata,
+    aliases: translated.aliases,
+    diagnostics: [...parsed.diagnostics, ...translated.diagnostics],
+  };
+}
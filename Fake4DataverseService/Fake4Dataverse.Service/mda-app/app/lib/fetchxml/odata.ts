@@ -0,0 +1,571 @@
+/**
+ * FetchXML to OData translation
+ * Emits $select, $filter, $orderby, $expand and $top for a parsed FetchQuery
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query-data-web-api
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/filter-rows
+ */
+
+import type {
+  FetchQuery,
+  FetchEntityBase,
+  FetchLinkEntity,
+  FetchFilter,
+  FetchCondition,
+  FetchValueType,
+  FetchXmlDiagnostic,
+  FetchXmlDiagnosticCode,
+  FetchXmlDiagnosticSeverity,
+  FetchXmlTranslationOptions,
+  FetchAliasMapping,
+  ODataQueryOptions,
+} from './types';
+import { QUERY_FUNCTION_OPERATORS, COMPARISON_OPERATORS } from './operators';
+
+const GUID_PATTERN = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Link types that restrict the parent rows to those with a matching linked row
+ */
+const EXISTS_LINK_TYPES = ['inner', 'any', 'exists', 'in'];
+
+/**
+ * Map AttributeMetadata.AttributeType values onto literal value types
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/attributetypecode
+ */
+const ATTRIBUTE_TYPE_MAP: Record<string, FetchValueType> = {
+  lookup: 'lookup',
+  customer: 'lookup',
+  owner: 'lookup',
+  integer: 'number',
+  bigint: 'number',
+  decimal: 'number',
+  double: 'number',
+  money: 'number',
+  picklist: 'number',
+  state: 'number',
+  status: 'number',
+  boolean: 'boolean',
+  datetime: 'datetime',
+  uniqueidentifier: 'guid',
+  string: 'string',
+  memo: 'string',
+  entityname: 'string',
+};
+
+const VALUE_TYPES: FetchValueType[] = ['string', 'number', 'boolean', 'guid', 'datetime', 'lookup'];
+
+/**
+ * Attribute addressing for one level of the query
+ * prefix is prepended to column names, e.g. "parentaccountid/" or "o1/" inside a lambda.
+ */
+interface Scope {
+  entityName: string;
+  prefix: string;
+  depth: number;
+}
+
+interface AliasScope extends FetchAliasMapping {
+  parentPrefix: string;
+  rootAddressable: boolean;
+}
+
+interface TranslationContext {
+  options: FetchXmlTranslationOptions;
+  diagnostics: FetchXmlDiagnostic[];
+  aliases: Map<string, AliasScope>;
+}
+
+/**
+ * Translate a parsed FetchQuery to OData query options
+ */
+export function toODataQuery(
+  query: FetchQuery,
+  options: FetchXmlTranslationOptions = {}
+): { odata: ODataQueryOptions; aliases: FetchAliasMapping[]; diagnostics: FetchXmlDiagnostic[] } {
+  const ctx: TranslationContext = {
+    options,
+    diagnostics: [],
+    aliases: new Map(),
+  };
+  const entity = query.entity;
+  const rootScope: Scope = { entityName: entity.name, prefix: '', depth: 0 };
+  const odata: ODataQueryOptions = {};
+
+  if (query.aggregate) {
+    report(ctx, 'unsupported-aggregate', 'error', 'Aggregate queries cannot be expressed as OData row queries; rows are returned ungrouped');
+  }
+  if (query.distinct) {
+    report(ctx, 'unsupported-distinct', 'warning', 'Distinct has no OData equivalent; each record is returned once, but records with the same column values are not merged');
+  }
+
+  // Link-entities first so conditions referencing their aliases can be resolved
+  const expands: string[] = [];
+  const filterParts: string[] = [];
+  for (const link of entity.linkEntities) {
+    const result = translateLinkEntity(link, rootScope, true, ctx);
+    if (result.expand) {
+      expands.push(result.expand);
+    }
+    if (result.filter) {
+      filterParts.push(result.filter);
+    }
+  }
+
+  for (const filter of entity.filters) {
+    const expression = translateFilter(filter, rootScope, ctx, filter.type === 'or');
+    if (expression) {
+      filterParts.push(expression);
+    }
+  }
+
+  const select = selectColumns(entity, rootScope, ctx);
+  if (select.length > 0 && !entity.allAttributes) {
+    odata.select = select;
+  }
+  if (filterParts.length > 0) {
+    odata.filter = joinExpressions(filterParts, 'and', false);
+  }
+  if (expands.length > 0) {
+    odata.expand = expands.join(',');
+  }
+
+  const orderby = translateOrders(entity, rootScope, ctx);
+  if (orderby) {
+    odata.orderby = orderby;
+  }
+  if (query.top !== undefined) {
+    odata.top = query.top;
+  }
+  if (query.count !== undefined) {
+    odata.pageSize = query.count;
+  }
+  if (query.returnTotalRecordCount) {
+    odata.count = true;
+  }
+
+  const aliases = Array.from(ctx.aliases.values()).map(({ alias, entityName, navigationProperty, collection }) => ({
+    alias,
+    entityName,
+    navigationProperty,
+    collection,
+  }));
+
+  return { odata, aliases, diagnostics: ctx.diagnostics };
+}
+
+function translateLinkEntity(
+  link: FetchLinkEntity,
+  parent: Scope,
+  rootAddressable: boolean,
+  ctx: TranslationContext
+): { expand?: string; filter?: string } {
+  const label = link.alias || link.name;
+  const navigation = ctx.options.getNavigationProperty?.(parent.entityName, link);
+
+  if (!navigation) {
+    const affectsRows = EXISTS_LINK_TYPES.includes(link.linkType) || link.linkType === 'not any';
+    report(
+      ctx,
+      'unresolved-navigation-property',
+      affectsRows ? 'error' : 'warning',
+      `No navigation property found for link-entity '${label}' (${parent.entityName}.${link.to} -> ${link.name}.${link.from}); it was skipped`
+    );
+    return {};
+  }
+  const { name: navigationProperty, collection } = navigation;
+
+  ctx.aliases.set(label, {
+    alias: label,
+    entityName: link.name,
+    navigationProperty,
+    collection,
+    parentPrefix: parent.prefix,
+    rootAddressable,
+  });
+
+  if (link.orders.length > 0) {
+    report(ctx, 'unsupported-order', 'warning', `Ordering by columns of link-entity '${label}' is not supported in OData and was ignored`);
+  }
+
+  if (link.linkType === 'all' || link.linkType === 'not all') {
+    report(ctx, 'unsupported-link-type', 'error', `Link type '${link.linkType}' on link-entity '${label}' is not supported; its filters were skipped`);
+  }
+
+  // Scope used for the link's own columns: a navigation path for many-to-one, a lambda variable for collections
+  const innerScope: Scope = collection
+    ? { entityName: link.name, prefix: `o${parent.depth + 1}/`, depth: parent.depth + 1 }
+    : { entityName: link.name, prefix: `${parent.prefix}${navigationProperty}/`, depth: parent.depth };
+
+  const restrictsParent = EXISTS_LINK_TYPES.includes(link.linkType) || link.linkType === 'not any';
+  const expandScope: Scope = { entityName: link.name, prefix: '', depth: 0 };
+
+  // Nested link-entities contribute to the parent filter through the same scope
+  const nestedExpands: string[] = [];
+  const linkFilterParts: string[] = [];
+  for (const nested of link.linkEntities) {
+    const result = translateLinkEntity(nested, innerScope, rootAddressable && !collection, ctx);
+    if (result.expand) {
+      nestedExpands.push(result.expand);
+    }
+    if (result.filter) {
+      linkFilterParts.push(result.filter);
+    }
+  }
+
+  const expandOptions: string[] = [];
+  let filter: string | undefined;
+  if (restrictsParent) {
+    for (const linkFilterElement of link.filters) {
+      const expression = translateFilter(linkFilterElement, innerScope, ctx);
+      if (expression) {
+        linkFilterParts.push(expression);
+      }
+    }
+    const linkFilter = linkFilterParts.length > 0 ? joinExpressions(linkFilterParts, 'and', false) : undefined;
+    const navigationPath = `${parent.prefix}${navigationProperty}`;
+
+    let exists: string;
+    if (collection) {
+      exists = linkFilter
+        ? `${navigationPath}/any(${innerScope.prefix.slice(0, -1)}:${linkFilter})`
+        : `${navigationPath}/any()`;
+    } else {
+      exists = linkFilter || `${parent.prefix}${lookupValueName(link.to)} ne null`;
+    }
+    filter = link.linkType === 'not any' ? `not (${exists})` : exists;
+  } else if (link.filters.length > 0 && link.linkType !== 'all' && link.linkType !== 'not all') {
+    if (collection) {
+      // Outer joins only limit the joined rows, which maps onto a filter inside $expand
+      const expandFilterParts = link.filters
+        .map(f => translateFilter(f, expandScope, ctx))
+        .filter((e): e is string => !!e);
+      if (expandFilterParts.length > 0) {
+        expandOptions.push(`$filter=${joinExpressions(expandFilterParts, 'and', false)}`);
+      }
+    } else {
+      report(ctx, 'unsupported-link-type', 'warning', `Filters on outer link-entity '${label}' only limit the joined columns in FetchXML and were not applied`);
+    }
+  }
+
+  // Expand options: columns and nested expands
+  const linkSelect = selectColumns(link, expandScope, ctx);
+  if (linkSelect.length > 0 && !link.allAttributes) {
+    expandOptions.unshift(`$select=${linkSelect.join(',')}`);
+  }
+  if (nestedExpands.length > 0) {
+    expandOptions.push(`$expand=${nestedExpands.join(',')}`);
+  }
+
+  let expand: string | undefined;
+  if (linkSelect.length > 0 || link.allAttributes || nestedExpands.length > 0) {
+    expand = expandOptions.length > 0 ? `${navigationProperty}(${expandOptions.join(';')})` : navigationProperty;
+  }
+
+  return { expand, filter };
+}
+
+function translateFilter(filter: FetchFilter, scope: Scope, ctx: TranslationContext, nested: boolean = true): string | undefined {
+  const parts: string[] = [];
+
+  for (const condition of filter.conditions) {
+    const expression = translateCondition(condition, scope, ctx);
+    if (expression) {
+      parts.push(expression);
+    }
+  }
+  for (const child of filter.filters) {
+    const expression = translateFilter(child, scope, ctx);
+    if (expression) {
+      parts.push(expression);
+    }
+  }
+
+  if (parts.length === 0) {
+    return undefined;
+  }
+  return joinExpressions(parts, filter.type, nested);
+}
+
+function translateCondition(condition: FetchCondition, scope: Scope, ctx: TranslationContext): string | undefined {
+  if (!condition.attribute || !condition.operator) {
+    report(ctx, 'invalid-condition', 'error', 'Condition without an attribute or operator was skipped');
+    return undefined;
+  }
+
+  // Conditions on a link-entity column placed in the parent filter
+  if (condition.entityName) {
+    const alias = ctx.aliases.get(condition.entityName);
+    if (!alias || !alias.rootAddressable) {
+      report(ctx, 'unknown-alias', 'error', `Condition on '${condition.entityName}.${condition.attribute}' refers to an unknown or unreachable link-entity alias and was skipped`);
+      return undefined;
+    }
+    const unscoped: FetchCondition = { ...condition, entityName: undefined };
+    if (alias.collection) {
+      const variable = `o${scope.depth + 1}`;
+      const expression = translateCondition(unscoped, { entityName: alias.entityName, prefix: `${variable}/`, depth: scope.depth + 1 }, ctx);
+      return expression ? `${alias.parentPrefix}${alias.navigationProperty}/any(${variable}:${expression})` : undefined;
+    }
+    return translateCondition(unscoped, { entityName: alias.entityName, prefix: `${alias.parentPrefix}${alias.navigationProperty}/`, depth: scope.depth }, ctx);
+  }
+
+  const operator = condition.operator;
+  const valueType = resolveValueType(scope.entityName, condition.attribute, condition.uitype, ctx, true);
+  const path = scope.prefix + (valueType === 'lookup' ? lookupValueName(condition.attribute) : condition.attribute);
+  const values = condition.values.length > 0
+    ? condition.values
+    : condition.value !== undefined ? [condition.value] : [];
+
+  // Column comparison
+  // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/filter-rows#filter-using-column-values
+  if (condition.valueOfColumn) {
+    const odataOperator = COMPARISON_OPERATORS[operator];
+    if (!odataOperator) {
+      report(ctx, 'unsupported-operator', 'error', `Operator '${operator}' cannot compare '${condition.attribute}' with column '${condition.valueOfColumn}'`);
+      return undefined;
+    }
+    return `${path} ${odataOperator} ${scope.prefix}${condition.valueOfColumn}`;
+  }
+
+  if (COMPARISON_OPERATORS[operator]) {
+    if (values.length === 0) {
+      return missingValue(condition, ctx);
+    }
+    return `${path} ${COMPARISON_OPERATORS[operator]} ${formatLiteral(values[0], valueType, condition, ctx)}`;
+  }
+
+  switch (operator) {
+    case 'null':
+      return `${path} eq null`;
+    case 'not-null':
+      return `${path} ne null`;
+    case 'like':
+    case 'not-like':
+      if (values.length === 0) {
+        return missingValue(condition, ctx);
+      }
+      return negate(translateLike(path, values[0], condition, ctx), operator === 'not-like');
+    case 'begins-with':
+    case 'not-begin-with':
+      if (values.length === 0) {
+        return missingValue(condition, ctx);
+      }
+      return negate(`startswith(${path},${formatString(values[0])})`, operator === 'not-begin-with');
+    case 'ends-with':
+    case 'not-end-with':
+      if (values.length === 0) {
+        return missingValue(condition, ctx);
+      }
+      return negate(`endswith(${path},${formatString(values[0])})`, operator === 'not-end-with');
+    case 'in':
+    case 'not-in': {
+      if (values.length === 0) {
+        return missingValue(condition, ctx);
+      }
+      const comparison = operator === 'in' ? 'eq' : 'ne';
+      const parts = values.map(v => `${path} ${comparison} ${formatLiteral(v, valueType, condition, ctx)}`);
+      return joinExpressions(parts, operator === 'in' ? 'or' : 'and', true);
+    }
+    case 'between':
+    case 'not-between': {
+      if (values.length < 2) {
+        return missingValue(condition, ctx);
+      }
+      const low = formatLiteral(values[0], valueType, condition, ctx);
+      const high = formatLiteral(values[1], valueType, condition, ctx);
+      return operator === 'between'
+        ? `(${path} ge ${low} and ${path} le ${high})`
+        : `(${path} lt ${low} or ${path} gt ${high})`;
+    }
+  }
+
+  const queryFunction = QUERY_FUNCTION_OPERATORS[operator];
+  if (queryFunction) {
+    if (scope.prefix) {
+      report(ctx, 'unsupported-operator', 'error', `Operator '${operator}' on link-entity column '${condition.attribute}' cannot be expressed in OData and was skipped`);
+      return undefined;
+    }
+    const args = [`PropertyName='${condition.attribute}'`];
+    switch (queryFunction.parameters) {
+      case 'number':
+      case 'string':
+        if (values.length === 0) {
+          return missingValue(condition, ctx);
+        }
+        args.push(`PropertyValue=${queryFunction.parameters === 'number' ? values[0] : formatString(values[0])}`);
+        break;
+      case 'number-pair':
+        if (values.length < 2) {
+          return missingValue(condition, ctx);
+        }
+        args.push(`PropertyValue1=${values[0]}`, `PropertyValue2=${values[1]}`);
+        break;
+      case 'list':
+        if (values.length === 0) {
+          return missingValue(condition, ctx);
+        }
+        args.push(`PropertyValues=[${values.map(formatString).join(',')}]`);
+        break;
+    }
+    return `Microsoft.Dynamics.CRM.${queryFunction.functionName}(${args.join(',')})`;
+  }
+
+  report(ctx, 'unsupported-operator', 'error', `Operator '${operator}' on '${condition.attribute}' is not supported and the condition was skipped`);
+  return undefined;
+}
+
+/**
+ * Translate a LIKE pattern into contains/startswith/endswith/eq
+ * Only leading and trailing % wildcards can be expressed; other wildcards are matched literally.
+ */
+function translateLike(path: string, pattern: string, condition: FetchCondition, ctx: TranslationContext): string {
+  const leading = pattern.startsWith('%');
+  const trailing = pattern.length > 1 && pattern.endsWith('%');
+  const text = pattern.substring(leading ? 1 : 0, trailing ? pattern.length - 1 : pattern.length);
+
+  if (text.includes('%') || /\[.*\]/.test(text)) {
+    report(
+      ctx,
+      'unsupported-like-pattern',
+      'warning',
+      `Wildcards inside the like pattern '${pattern}' on '${condition.attribute}' are not supported in OData and are matched literally`
+    );
+  }
+
+  if (leading && trailing) {
+    return `contains(${path},${formatString(text)})`;
+  }
+  if (trailing) {
+    return `startswith(${path},${formatString(text)})`;
+  }
+  if (leading) {
+    return `endswith(${path},${formatString(text)})`;
+  }
+  return `${path} eq ${formatString(text)}`;
+}
+
+function translateOrders(entity: FetchEntityBase, scope: Scope, ctx: TranslationContext): string | undefined {
+  const parts: string[] = [];
+  for (const order of entity.orders) {
+    if (!order.attribute) {
+      report(ctx, 'unsupported-order', 'warning', `Ordering by alias '${order.alias}' is only meaningful for aggregate queries and was ignored`);
+      continue;
+    }
+    const valueType = resolveValueType(scope.entityName, order.attribute, undefined, ctx);
+    const column = valueType === 'lookup' ? lookupValueName(order.attribute) : order.attribute;
+    parts.push(`${column} ${order.descending ? 'desc' : 'asc'}`);
+  }
+  return parts.length > 0 ? parts.join(',') : undefined;
+}
+
+function selectColumns(entity: FetchEntityBase, scope: Scope, ctx: TranslationContext): string[] {
+  return entity.attributes.map((attribute) => {
+    const valueType = resolveValueType(scope.entityName, attribute.name, undefined, ctx);
+    return valueType === 'lookup' ? lookupValueName(attribute.name) : attribute.name;
+  });
+}
+
+/**
+ * Resolve the type of a column from the caller's metadata, falling back to the lookup hint from uitype
+ * Types that are neither a value type nor a known AttributeType are treated as strings, and reported when a literal
+ * of the column is formatted.
+ */
+function resolveValueType(
+  entityName: string,
+  attribute: string,
+  uitype: string | undefined,
+  ctx: TranslationContext,
+  formatsLiteral: boolean = false
+): FetchValueType | undefined {
+  const resolved = ctx.options.getAttributeType?.(entityName, attribute);
+  if (resolved) {
+    const normalized = resolved.toLowerCase();
+    const valueType = ATTRIBUTE_TYPE_MAP[normalized] ?? VALUE_TYPES.find(type => type === normalized);
+    if (valueType) {
+      return valueType;
+    }
+    const message = `Column '${entityName}.${attribute}' has unknown type '${resolved}'; its values were formatted as strings`;
+    if (formatsLiteral && !ctx.diagnostics.some(d => d.message === message)) {
+      report(ctx, 'unknown-attribute-type', 'warning', message);
+    }
+    return 'string';
+  }
+  if (uitype) {
+    return 'lookup';
+  }
+  return undefined;
+}
+
+/**
+ * Format a FetchXML value as an OData literal
+ * Without metadata GUIDs, booleans and ISO dates stay unquoted. Numbers are quoted, since text columns such as
+ * accountnumber hold numeric-looking values too.
+ */
+function formatLiteral(value: string, valueType: FetchValueType | undefined, condition: FetchCondition, ctx: TranslationContext): string {
+  const type = valueType ?? inferValueType(value);
+
+  switch (type) {
+    case 'guid':
+    case 'lookup':
+      return value.replace(/[{}]/g, '');
+    case 'number':
+      if (!NUMBER_PATTERN.test(value)) {
+        report(ctx, 'invalid-condition', 'warning', `Value '${value}' for numeric column '${condition.attribute}' is not a number`);
+        return formatString(value);
+      }
+      return value;
+    case 'boolean':
+      return value === '1' || value.toLowerCase() === 'true' ? 'true' : 'false';
+    case 'datetime':
+      return value;
+    default:
+      return formatString(value);
+  }
+}
+
+function inferValueType(value: string): FetchValueType {
+  if (GUID_PATTERN.test(value)) {
+    return 'guid';
+  }
+  if (value === 'true' || value === 'false') {
+    return 'boolean';
+  }
+  if (DATE_PATTERN.test(value)) {
+    return 'datetime';
+  }
+  return 'string';
+}
+
+function formatString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Lookup columns are exposed as _name_value properties in the Web API
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/web-api-properties#lookup-properties
+ */
+function lookupValueName(attribute: string): string {
+  return `_${attribute}_value`;
+}
+
+function negate(expression: string, shouldNegate: boolean): string {
+  return shouldNegate ? `not ${expression}` : expression;
+}
+
+function joinExpressions(parts: string[], type: 'and' | 'or', wrap: boolean): string {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+  const joined = parts.join(` ${type} `);
+  return wrap ? `(${joined})` : joined;
+}
+
+function missingValue(condition: FetchCondition, ctx: TranslationContext): undefined {
+  report(ctx, 'invalid-condition', 'error', `Operator '${condition.operator}' on '${condition.attribute}' requires a value; the condition was skipped`);
+  return undefined;
+}
+
+function report(ctx: TranslationContext, code: FetchXmlDiagnosticCode, severity: FetchXmlDiagnosticSeverity, message: string): void {
+  ctx.diagnostics.push({ code, severity, message });
+}
@@ -0,0 +1,113 @@
+/**
+ * FetchXML condition operators that map onto Dataverse Web API query functions
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/operators
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/queryfunctions
+ */
+
+/**
+ * How the values of a condition are passed to the query function
+ * - none: PropertyName only
+ * - number: PropertyValue as a number (e.g. LastXDays)
+ * - string: PropertyValue as a quoted string (e.g. On, Under)
+ * - number-pair: PropertyValue1 and PropertyValue2 as numbers (fiscal period and year)
+ * - list: PropertyValues as a quoted string array (multi-select choices)
+ */
+export type QueryFunctionParameterKind = 'none' | 'number' | 'string' | 'number-pair' | 'list';
+
+export interface QueryFunctionMapping {
+  functionName: string;
+  parameters: QueryFunctionParameterKind;
+}
+
+export const QUERY_FUNCTION_OPERATORS: Record<string, QueryFunctionMapping> = {
+  // Relative dates without a value
+  'today': { functionName: 'Today', parameters: 'none' },
+  'yesterday': { functionName: 'Yesterday', parameters: 'none' },
+  'tomorrow': { functionName: 'Tomorrow', parameters: 'none' },
+  'last-seven-days': { functionName: 'Last7Days', parameters: 'none' },
+  'next-seven-days': { functionName: 'Next7Days', parameters: 'none' },
+  'last-week': { functionName: 'LastWeek', parameters: 'none' },
+  'this-week': { functionName: 'ThisWeek', parameters: 'none' },
+  'next-week': { functionName: 'NextWeek', parameters: 'none' },
+  'last-month': { functionName: 'LastMonth', parameters: 'none' },
+  'this-month': { functionName: 'ThisMonth', parameters: 'none' },
+  'next-month': { functionName: 'NextMonth', parameters: 'none' },
+  'last-year': { functionName: 'LastYear', parameters: 'none' },
+  'this-year': { functionName: 'ThisYear', parameters: 'none' },
+  'next-year': { functionName: 'NextYear', parameters: 'none' },
+
+  // Relative dates with a count
+  'last-x-hours': { functionName: 'LastXHours', parameters: 'number' },
+  'next-x-hours': { functionName: 'NextXHours', parameters: 'number' },
+  'last-x-days': { functionName: 'LastXDays', parameters: 'number' },
+  'next-x-days': { functionName: 'NextXDays', parameters: 'number' },
+  'last-x-weeks': { functionName: 'LastXWeeks', parameters: 'number' },
+  'next-x-weeks': { functionName: 'NextXWeeks', parameters: 'number' },
+  'last-x-months': { functionName: 'LastXMonths', parameters: 'number' },
+  'next-x-months': { functionName: 'NextXMonths', parameters: 'number' },
+  'last-x-years': { functionName: 'LastXYears', parameters: 'number' },
+  'next-x-years': { functionName: 'NextXYears', parameters: 'number' },
+  'olderthan-x-minutes': { functionName: 'OlderThanXMinutes', parameters: 'number' },
+  'olderthan-x-hours': { functionName: 'OlderThanXHours', parameters: 'number' },
+  'olderthan-x-days': { functionName: 'OlderThanXDays', parameters: 'number' },
+  'olderthan-x-weeks': { functionName: 'OlderThanXWeeks', parameters: 'number' },
+  'olderthan-x-months': { functionName: 'OlderThanXMonths', parameters: 'number' },
+  'olderthan-x-years': { functionName: 'OlderThanXYears', parameters: 'number' },
+
+  // Absolute dates (date part only)
+  'on': { functionName: 'On', parameters: 'string' },
+  'on-or-after': { functionName: 'OnOrAfter', parameters: 'string' },
+  'on-or-before': { functionName: 'OnOrBefore', parameters: 'string' },
+
+  // Fiscal periods
+  'this-fiscal-year': { functionName: 'ThisFiscalYear', parameters: 'none' },
+  'this-fiscal-period': { functionName: 'ThisFiscalPeriod', parameters: 'none' },
+  'next-fiscal-year': { functionName: 'NextFiscalYear', parameters: 'none' },
+  'next-fiscal-period': { functionName: 'NextFiscalPeriod', parameters: 'none' },
+  'last-fiscal-year': { functionName: 'LastFiscalYear', parameters: 'none' },
+  'last-fiscal-period': { functionName: 'LastFiscalPeriod', parameters: 'none' },
+  'last-x-fiscal-years': { functionName: 'LastXFiscalYears', parameters: 'number' },
+  'last-x-fiscal-periods': { functionName: 'LastXFiscalPeriods', parameters: 'number' },
+  'next-x-fiscal-years': { functionName: 'NextXFiscalYears', parameters: 'number' },
+  'next-x-fiscal-periods': { functionName: 'NextXFiscalPeriods', parameters: 'number' },
+  'in-fiscal-year': { functionName: 'InFiscalYear', parameters: 'number' },
+  'in-fiscal-period': { functionName: 'InFiscalPeriod', parameters: 'number' },
+  'in-fiscal-period-and-year': { functionName: 'InFiscalPeriodAndYear', parameters: 'number-pair' },
+  'in-or-before-fiscal-period-and-year': { functionName: 'InOrBeforeFiscalPeriodAndYear', parameters: 'number-pair' },
+  'in-or-after-fiscal-period-and-year': { functionName: 'InOrAfterFiscalPeriodAndYear', parameters: 'number-pair' },
+
+  // Current user, team and business unit
+  'eq-userid': { functionName: 'EqualUserId', parameters: 'none' },
+  'ne-userid': { functionName: 'NotEqualUserId', parameters: 'none' },
+  'eq-userteams': { functionName: 'EqualUserTeams', parameters: 'none' },
+  'eq-useroruserteams': { functionName: 'EqualUserOrUserTeams', parameters: 'none' },
+  'eq-useroruserhierarchy': { functionName: 'EqualUserOrUserHierarchy', parameters: 'none' },
+  'eq-useroruserhierarchyandteams': { functionName: 'EqualUserOrUserHierarchyAndTeams', parameters: 'none' },
+  'eq-businessid': { functionName: 'EqualBusinessId', parameters: 'none' },
+  'ne-businessid': { functionName: 'NotEqualBusinessId', parameters: 'none' },
+  'eq-userlanguage': { functionName: 'EqualUserLanguage', parameters: 'none' },
+
+  // Hierarchies
+  'under': { functionName: 'Under', parameters: 'string' },
+  'eq-or-under': { functionName: 'UnderOrEqual', parameters: 'string' },
+  'not-under': { functionName: 'NotUnder', parameters: 'string' },
+  'above': { functionName: 'Above', parameters: 'string' },
+  'eq-or-above': { functionName: 'AboveOrEqual', parameters: 'string' },
+
+  // Multi-select choices
+  'contain-values': { functionName: 'ContainValues', parameters: 'list' },
+  'not-contain-values': { functionName: 'DoesNotContainValues', parameters: 'list' },
+};
+
+/**
+ * Plain comparison operators and their OData equivalent
+ */
+export const COMPARISON_OPERATORS: Record<string, string> = {
+  'eq': 'eq',
+  'ne': 'ne',
+  'neq': 'ne',
+  'gt': 'gt',
+  'ge': 'ge',
+  'lt': 'lt',
+  'le': 'le',
+};
@@ -0,0 +1,68 @@
+/**
+ * FetchXML paging helpers
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/page-results
+ */
+
+/**
+ * Set page, page size, paging cookie and total count request on the <fetch> element
+ * Attributes that are not provided are left as they are in the original FetchXML.
+ */
+export function setFetchXmlPaging(
+  fetchXml: string,
+  paging: { page?: number; count?: number; pagingCookie?: string; returnTotalRecordCount?: boolean }
+): string {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(fetchXml, 'text/xml');
+  const fetchElement = xmlDoc.documentElement;
+
+  if (!fetchElement || fetchElement.tagName !== 'fetch' || xmlDoc.getElementsByTagName('parsererror').length > 0) {
+    return fetchXml;
+  }
+
+  if (paging.page !== undefined) {
+    fetchElement.setAttribute('page', paging.page.toString());
+  }
+  if (paging.count !== undefined) {
+    fetchElement.setAttribute('count', paging.count.toString());
+  }
+  if (paging.returnTotalRecordCount) {
+    fetchElement.setAttribute('returntotalrecordcount', 'true');
+  }
+  if (paging.pagingCookie) {
+    fetchElement.setAttribute('paging-cookie', paging.pagingCookie);
+  }
+
+  return new XMLSerializer().serializeToString(xmlDoc);
+}
+
+/**
+ * Extract the paging cookie and page number from the fetchxmlpagingcookie annotation
+ * The annotation is a <cookie pagenumber="2" pagingcookie="..." /> element whose pagingcookie
+ * attribute is URL-encoded twice; the decoded value is what goes back into the paging-cookie attribute.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/page-results#paging-cookies
+ */
+export function parsePagingCookieAnnotation(annotation: string | undefined): { pagingCookie?: string; pageNumber?: number } {
+  if (!annotation) {
+    return {};
+  }
+
+  try {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(annotation, 'text/xml');
+    const cookieElement = xmlDoc.documentElement;
+    if (!cookieElement || cookieElement.tagName !== 'cookie') {
+      return {};
+    }
+
+    const encoded = cookieElement.getAttribute('pagingcookie');
+    const pageNumber = parseInt(cookieElement.getAttribute('pagenumber') || '', 10);
+
+    return {
+      pagingCookie: encoded ? decodeURIComponent(decodeURIComponent(encoded)) : undefined,
+      pageNumber: isNaN(pageNumber) ? undefined : pageNumber,
+    };
+  } catch (err) {
+    console.error('Error parsing paging cookie annotation:', err);
+    return {};
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * FetchXML parser
+ * Converts a FetchXML document into a FetchQuery tree
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/overview
+ */
+
+import type {
+  FetchQuery,
+  FetchEntityBase,
+  FetchLinkEntity,
+  FetchLinkType,
+  FetchAttribute,
+  FetchOrder,
+  FetchFilter,
+  FetchCondition,
+  FetchXmlDiagnostic,
+} from './types';
+
+const LINK_TYPES: FetchLinkType[] = [
+  'inner',
+  'outer',
+  'any',
+  'not any',
+  'all',
+  'not all',
+  'exists',
+  'in',
+  'matchfirstrowusingcrossapply',
+];
+
+/**
+ * Parse FetchXML into a FetchQuery
+ * Returns a null query together with an error diagnostic when the document is not usable.
+ */
+export function parseFetchXml(fetchXml: string): { query: FetchQuery | null; diagnostics: FetchXmlDiagnostic[] } {
+  const diagnostics: FetchXmlDiagnostic[] = [];
+
+  let xmlDoc: Document;
+  try {
+    const parser = new DOMParser();
+    xmlDoc = parser.parseFromString(fetchXml, 'text/xml');
+  } catch (err) {
+    diagnostics.push({
+      code: 'invalid-xml',
+      severity: 'error',
+      message: `FetchXML could not be parsed: ${err instanceof Error ? err.message : String(err)}`,
+    });
+    return { query: null, diagnostics };
+  }
+
+  const fetchElement = xmlDoc.documentElement;
+  if (!fetchElement || xmlDoc.getElementsByTagName('parsererror').length > 0 || fetchElement.tagName !== 'fetch') {
+    diagnostics.push({
+      code: 'invalid-xml',
+      severity: 'error',
+      message: 'FetchXML is not well-formed or does not have a <fetch> root element',
+    });
+    return { query: null, diagnostics };
+  }
+
+  const entityElement = childElements(fetchElement, 'entity')[0];
+  if (!entityElement || !entityElement.getAttribute('name')) {
+    diagnostics.push({
+      code: 'missing-entity',
+      severity: 'error',
+      message: 'FetchXML does not contain an <entity> element with a name',
+    });
+    return { query: null, diagnostics };
+  }
+
+  const query: FetchQuery = {
+    entity: parseEntityBody(entityElement),
+    top: parseOptionalInt(fetchElement.getAttribute('top')),
+    count: parseOptionalInt(fetchElement.getAttribute('count')),
+    page: parseOptionalInt(fetchElement.getAttribute('page')),
+    pagingCookie: fetchElement.getAttribute('paging-cookie') || undefined,
+    distinct: fetchElement.getAttribute('distinct') === 'true',
+    aggregate: fetchElement.getAttribute('aggregate') === 'true',
+    returnTotalRecordCount: fetchElement.getAttribute('returntotalrecordcount') === 'true',
+  };
+
+  return { query, diagnostics };
+}
+
+function parseEntityBody(element: Element): FetchEntityBase {
+  return {
+    name: element.getAttribute('name') || '',
+    allAttributes: childElements(element, 'all-attributes').length > 0,
+    attributes: childElements(element, 'attribute').map(parseAttribute).filter(a => a.name),
+    orders: childElements(element, 'order').map(parseOrder),
+    filters: childElements(element, 'filter').map(parseFilter),
+    linkEntities: childElements(element, 'link-entity').map(parseLinkEntity),
+  };
+}
+
+function parseLinkEntity(element: Element): FetchLinkEntity {
+  const linkTypeAttr = (element.getAttribute('link-type') || 'inner') as FetchLinkType;
+
+  return {
+    ...parseEntityBody(element),
+    from: element.getAttribute('from') || '',
+    to: element.getAttribute('to') || '',
+    alias: element.getAttribute('alias') || undefined,
+    linkType: LINK_TYPES.includes(linkTypeAttr) ? linkTypeAttr : 'inner',
+    intersect: element.getAttribute('intersect') === 'true',
+  };
+}
+
+function parseAttribute(element: Element): FetchAttribute {
+  return {
+    name: element.getAttribute('name') || '',
+    alias: element.getAttribute('alias') || undefined,
+    aggregate: element.getAttribute('aggregate') || undefined,
+    groupby: element.getAttribute('groupby') === 'true',
+  };
+}
+
+function parseOrder(element: Element): FetchOrder {
+  return {
+    attribute: element.getAttribute('attribute') || undefined,
+    alias: element.getAttribute('alias') || undefined,
+    descending: element.getAttribute('descending') === 'true',
+  };
+}
+
+function parseFilter(element: Element): FetchFilter {
+  return {
+    type: element.getAttribute('type') === 'or' ? 'or' : 'and',
+    conditions: childElements(element, 'condition').map(parseCondition),
+    filters: childElements(element, 'filter').map(parseFilter),
+  };
+}
+
+function parseCondition(element: Element): FetchCondition {
+  return {
+    attribute: element.getAttribute('attribute') || '',
+    operator: element.getAttribute('operator') || '',
+    value: element.hasAttribute('value') ? element.getAttribute('value') || '' : undefined,
+    values: childElements(element, 'value').map(v => v.textContent || ''),
+    entityName: element.getAttribute('entityname') || undefined,
+    valueOfColumn: element.getAttribute('valueof') || undefined,
+    uitype: element.getAttribute('uitype') || undefined,
+  };
+}
+
+/**
+ * Direct child elements with the given tag name
+ * getElementsByTagName is recursive, which would mix nested filters and link-entities into their parents.
+ */
+function childElements(parent: Element, tagName: string): Element[] {
+  const result: Element[] = [];
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const node = parent.childNodes[i];
+    if (node.nodeType === 1 && (node as Element).tagName === tagName) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+function parseOptionalInt(value: string | null): number | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
@@ -0,0 +1,199 @@
+/**
+ * FetchXML abstract syntax tree and translation types
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/
+ */
+
+/**
+ * Root <fetch> element
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/fetch
+ */
+export interface FetchQuery {
+  entity: FetchEntity;
+  top?: number;
+  count?: number; // Page size
+  page?: number;
+  pagingCookie?: string;
+  distinct: boolean;
+  aggregate: boolean;
+  returnTotalRecordCount: boolean;
+}
+
+/**
+ * Shared shape of <entity> and <link-entity>
+ */
+export interface FetchEntityBase {
+  name: string;
+  allAttributes: boolean;
+  attributes: FetchAttribute[];
+  orders: FetchOrder[];
+  filters: FetchFilter[];
+  linkEntities: FetchLinkEntity[];
+}
+
+/**
+ * Root <entity> element
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/entity
+ */
+export type FetchEntity = FetchEntityBase;
+
+/**
+ * <link-entity> element
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/link-entity
+ */
+export interface FetchLinkEntity extends FetchEntityBase {
+  from: string; // Column on the linked entity
+  to: string; // Column on the parent entity
+  alias?: string;
+  linkType: FetchLinkType;
+  intersect: boolean;
+}
+
+export type FetchLinkType =
+  | 'inner'
+  | 'outer'
+  | 'any'
+  | 'not any'
+  | 'all'
+  | 'not all'
+  | 'exists'
+  | 'in'
+  | 'matchfirstrowusingcrossapply';
+
+/**
+ * <attribute> element
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/attribute
+ */
+export interface FetchAttribute {
+  name: string;
+  alias?: string;
+  aggregate?: string;
+  groupby: boolean;
+}
+
+/**
+ * <order> element
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/order
+ */
+export interface FetchOrder {
+  attribute?: string;
+  alias?: string;
+  descending: boolean;
+}
+
+/**
+ * <filter> element - conditions and nested filters combined with the same logical operator
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/filter
+ */
+export interface FetchFilter {
+  type: 'and' | 'or';
+  conditions: FetchCondition[];
+  filters: FetchFilter[];
+}
+
+/**
+ * <condition> element
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/reference/condition
+ */
+export interface FetchCondition {
+  attribute: string;
+  operator: string;
+  value?: string; // Single value from the value attribute
+  values: string[]; // Values from child <value> elements
+  entityName?: string; // Alias of a link-entity the condition applies to
+  valueOfColumn?: string; // Column comparison (valueof attribute)
+  uitype?: string; // Set on lookup conditions saved by the view designer
+}
+
+/**
+ * Severity of a translation diagnostic
+ * 'error' means the construct was dropped and the query returns different rows than FetchXML would.
+ * 'warning' means the construct was approximated or ignored without changing which rows match.
+ */
+export type FetchXmlDiagnosticSeverity = 'error' | 'warning';
+
+export type FetchXmlDiagnosticCode =
+  | 'invalid-xml'
+  | 'missing-entity'
+  | 'invalid-condition'
+  | 'unsupported-operator'
+  | 'unsupported-link-type'
+  | 'unresolved-navigation-property'
+  | 'unknown-alias'
+  | 'unsupported-aggregate'
+  | 'unsupported-distinct'
+  | 'unknown-attribute-type'
+  | 'unsupported-order'
+  | 'unsupported-like-pattern';
+
+/**
+ * A construct that could not be translated faithfully
+ */
+export interface FetchXmlDiagnostic {
+  code: FetchXmlDiagnosticCode;
+  severity: FetchXmlDiagnosticSeverity;
+  message: string;
+}
+
+/**
+ * Value types used to format OData literals
+ */
+export type FetchValueType = 'string' | 'number' | 'boolean' | 'guid' | 'datetime' | 'lookup';
+
+/**
+ * Hooks that let callers supply metadata the FetchXML itself does not carry
+ */
+export interface FetchXmlTranslationOptions {
+  /**
+   * Resolve the value type of a column so literals are formatted correctly.
+   * AttributeMetadata.AttributeType values (e.g. 'Lookup', 'Integer') are accepted as well.
+   * When no type is returned GUIDs, booleans and dates are recognized from the literal; other values are quoted.
+   */
+  getAttributeType?: (entityName: string, attributeName: string) => FetchValueType | string | undefined;
+
+  /**
+   * Resolve the navigation property used to $expand a link-entity.
+   * Navigation property names cannot be derived from the join columns, so a link-entity without one is reported and skipped.
+   */
+  getNavigationProperty?: (parentEntityName: string, link: FetchLinkEntity) => FetchNavigationProperty | undefined;
+}
+
+/**
+ * Navigation property from a parent table to a link-entity
+ */
+export interface FetchNavigationProperty {
+  name: string;
+  collection: boolean; // Collection-valued (one-to-many, many-to-many) links are filtered with any()
+}
+
+/**
+ * OData query options produced from a FetchXML query
+ */
+export interface ODataQueryOptions {
+  select?: string[];
+  filter?: string;
+  orderby?: string;
+  expand?: string;
+  top?: number;
+  pageSize?: number;
+  count?: boolean;
+}
+
+/**
+ * Link-entity alias mapped to the navigation property it was expanded through
+ */
+export interface FetchAliasMapping {
+  alias: string;
+  entityName: string;
+  navigationProperty: string;
+  collection: boolean;
+}
+
+/**
+ * Result of translating FetchXML to OData
+ */
+export interface FetchXmlTranslation {
+  query: FetchQuery | null;
+  odata: ODataQueryOptions;
+  aliases: FetchAliasMapping[];
+  diagnostics: FetchXmlDiagnostic[];
+}
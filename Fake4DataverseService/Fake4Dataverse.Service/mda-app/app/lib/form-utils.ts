@@ -3,7 +3,40 @@
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/customize-entity-forms
  */
 
-import type { FormDefinition, FormTab, FormSection, FormRow, FormCell, FormControl, FormLibrary, FormEvent } from '../types/dataverse';
+import type {
+  FormDefinition,
+  FormTab,
+  FormSection,
+  FormRow,
+  FormCell,
+  FormControl,
+  FormControlParameters,
+  QuickFormReference,
+  FormLibrary,
+  FormEvent,
+  AttributeMetadata,
+  EntityRecord,
+} from '../types/dataverse';
+import { getAttributeControlKind } from './attribute-utils';
+import { resolveWebResourceUrl, webResourceUrl, WEB_RESOURCE_PATH } from './webresource-route';
+
+/**
+ * Kind of page a web resource or IFRAME control shows
+ */
+export type FrameControlType = 'webresource' | 'iframe';
+
+// Class IDs of controls that show a page instead of a column
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/use-iframe-and-web-resource-controls-on-a-form
+const FRAME_CONTROL_CLASS_IDS: Record<string, FrameControlType> = {
+  '{9FDF5F91-88B1-47F4-AD53-C11EFC01A01D}': 'webresource',
+  '{FD2A7985-3187-444E-908D-6624B21F69C0}': 'iframe',
+};
+
+// Class ID of subgrid controls
+const SUBGRID_CLASS_ID = '{E7A81278-8635-4D9E-8D4D-59480B391C5B}';
+
+// Class ID of quick view controls
+const QUICK_VIEW_CLASS_ID = '{5C5600E0-1D6E-4205-A272-BE80DA87FD42}';
 
 /**
  * Parse FormXML string into structured FormDefinition
@@ -170,6 +203,7 @@ function parseCell(cellElement: Element): FormCell | null {
       classid: controlElement.getAttribute('classid') || '',
       label: label || undefined,
       disabled: controlElement.getAttribute('disabled') === 'true',
+      parameters: parseControlParameters(controlElement),
     };
   }
   
@@ -180,6 +214,165 @@ function parseCell(cellElement: Element): FormCell | null {
   };
 }
 
+/**
+ * Parse the parameters of web resource, IFRAME, subgrid and quick view controls
+ * Other controls have parameters too; only the ones the form uses are kept.
+ */
+function parseControlParameters(controlElement: Element): FormControlParameters | undefined {
+  const parametersElement = Array.from(controlElement.children).find(child => child.tagName === 'parameters');
+  if (!parametersElement) {
+    return undefined;
+  }
+
+  const getText = (name: string) => {
+    const element = Array.from(parametersElement.children).find(child => child.tagName === name);
+    return element?.textContent?.trim() || undefined;
+  };
+  const height = parseInt(getText('Height') || '');
+  const recordsPerPage = parseInt(getText('RecordsPerPage') || '');
+
+  return {
+    url: getText('Url'),
+    data: getText('Data'),
+    passParameters: getText('PassParameters') === 'true',
+    height: isNaN(height) ? undefined : height,
+    scrolling: getText('Scrolling'),
+    border: getText('Border') !== 'false',
+    targetEntityType: getText('TargetEntityType'),
+    viewId: getText('ViewId'),
+    relationshipName: getText('RelationshipName'),
+    recordsPerPage: isNaN(recordsPerPage) ? undefined : recordsPerPage,
+    quickForms: parseQuickForms(parametersElement),
+  };
+}
+
+/**
+ * Parse the quick view forms of a quick view control
+ * QuickForms holds <QuickFormIds><QuickFormId entityname="contact">{id}</QuickFormId></QuickFormIds>, usually as
+ * escaped XML text.
+ */
+function parseQuickForms(parametersElement: Element): QuickFormReference[] | undefined {
+  const quickFormsElement = Array.from(parametersElement.children).find(child => child.tagName === 'QuickForms');
+  if (!quickFormsElement) {
+    return undefined;
+  }
+
+  let container: Element | Document = quickFormsElement;
+  if (quickFormsElement.children.length === 0) {
+    container = new DOMParser().parseFromString(quickFormsElement.textContent || '', 'text/xml');
+  }
+  return Array.from(container.getElementsByTagName('QuickFormId'))
+    .map(element => ({
+      entityName: element.getAttribute('entityname') || '',
+      formId: (element.textContent || '').trim().replace(/[{}]/g, '').toLowerCase(),
+    }))
+    .filter(quickForm => quickForm.entityName && quickForm.formId);
+}
+
+/**
+ * Whether a control is a subgrid showing the records of a table
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/grids
+ */
+export function isSubgridControl(control: FormControl): boolean {
+  return control.classid.toUpperCase() === SUBGRID_CLASS_ID && !!control.parameters?.targetEntityType;
+}
+
+/**
+ * Whether a control shows a web resource or an IFRAME, from its class ID
+ */
+export function getFrameControlType(control: FormControl): FrameControlType | undefined {
+  return FRAME_CONTROL_CLASS_IDS[control.classid.toUpperCase()];
+}
+
+/**
+ * Address a web resource or IFRAME control shows
+ * With PassParameters the record and organization are added as query string parameters (typename, type, id,
+ * orgname, userlcid, orglcid); web resources also get their custom parameter as data.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/webpage-html-web-resources#pass-parameters-to-html-web-resources
+ */
+export function getFrameControlUrl(control: FormControl, contextParameters: Record<string, string>): string | undefined {
+  const frameType = getFrameControlType(control);
+  const url = control.parameters?.url;
+  if (!frameType || !url) {
+    return undefined;
+  }
+
+  const query = new URLSearchParams(control.parameters?.passParameters ? contextParameters : {});
+  let address = url;
+  if (frameType === 'webresource') {
+    // The Url of a web resource control is the web resource name
+    address = url.startsWith(WEB_RESOURCE_PATH) || url.startsWith('$webresource:') ? resolveWebResourceUrl(url) : webResourceUrl(url);
+    if (control.parameters?.data) {
+      query.set('data', control.parameters.data);
+    }
+  }
+
+  const queryString = query.toString();
+  return queryString ? `${address}${address.includes('?') ? '&' : '?'}${queryString}` : address;
+}
+
+/**
+ * Whether a control shows a related record in a quick view form
+ * The control is bound to the lookup column of the related record.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/maker/model-driven-apps/create-edit-quick-view-forms
+ */
+export function isQuickViewControl(control: FormControl): boolean {
+  return control.classid.toUpperCase() === QUICK_VIEW_CLASS_ID && !!control.datafieldname && !!control.parameters?.quickForms?.length;
+}
+
+/**
+ * Column values passed to a new record form in its extraqs parameter
+ * A lookup is passed as the record id, with <column>name and <column>type parameters for the record name and
+ * table; the table can be left out when the column has a single target.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/set-field-values-using-parameters-passed-form
+ */
+export function parseFormParameters(
+  formParameters: string | undefined,
+  attributes: Map<string, AttributeMetadata>
+): EntityRecord {
+  const params = new URLSearchParams(formParameters || '');
+  const isLookup = (name: string) => {
+    const attribute = attributes.get(name);
+    return attribute ? getAttributeControlKind(attribute) === 'lookup' : params.has(`${name}type`);
+  };
+  const values: EntityRecord = {};
+
+  params.forEach((value, name) => {
+    // Names and tables of lookups are read with the lookup itself
+    const lookupName = name.match(/^(.+)(name|type)$/)?.[1];
+    if (lookupName && params.has(lookupName) && isLookup(lookupName)) {
+      return;
+    }
+
+    const attribute = attributes.get(name);
+    if (isLookup(name)) {
+      const entityType = params.get(`${name}type`) || attribute?.Targets?.[0];
+      if (entityType && value) {
+        values[name] = { id: value.replace(/[{}]/g, ''), entityType, name: params.get(`${name}name`) || undefined };
+      }
+      return;
+    }
+
+    switch (getAttributeControlKind(attribute)) {
+      case 'whole-number':
+      case 'decimal':
+      case 'money':
+      case 'choice':
+        if (value !== '' && !isNaN(Number(value))) {
+          values[name] = Number(value);
+        }
+        break;
+      case 'boolean':
+        values[name] = value === '1' || value.toLowerCase() === 'true';
+        break;
+      default:
+        values[name] = value;
+    }
+  });
+
+  return values;
+}
+
 /**
  * Parse form libraries (script references) from FormXML
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/formcontext-data-process
@@ -233,7 +426,11 @@ function parseFormEvents(formElement: Element): FormEvent[] {
       const functionName = handlerElement.getAttribute('functionName') || undefined;
       const libraryName = handlerElement.getAttribute('libraryName') || undefined;
       const parametersAttr = handlerElement.getAttribute('parameters') || '';
-      const parameters = parametersAttr ? parametersAttr.split(',').map(p => p.trim()) : [];
+      // Split on the commas between parameters, keeping commas inside quoted strings
+      const parameters = (parametersAttr.match(/'[^']*'|"[^"]*"|[^,]+/g) || [])
+        .map(p => p.trim())
+        .filter(p => p !== '');
+      const passExecutionContext = handlerElement.getAttribute('passExecutionContext') !== 'false';
       
       events.push({
         name,
@@ -243,6 +440,7 @@ function parseFormEvents(formElement: Element): FormEvent[] {
         functionName,
         libraryName,
         parameters,
+        passExecutionContext,
       });
     }
   }
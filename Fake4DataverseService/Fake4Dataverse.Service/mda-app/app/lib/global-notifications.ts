@@ -0,0 +1,74 @@
+/**
+ * Global notifications added with Xrm.App.addGlobalNotification
+ * Notifications belong to the app rather than a form, so they outlive the form that added them.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-app/addglobalnotification
+ */
+
+import type { XrmGlobalNotification } from './xrm-api-types';
+
+// Value of XrmGlobalNotification.type for global notifications
+const GLOBAL_NOTIFICATION_TYPE = 2;
+
+export interface GlobalNotificationEntry extends XrmGlobalNotification {
+  id: string;
+}
+
+class GlobalNotificationStore {
+  private notifications: GlobalNotificationEntry[] = [];
+  private listeners: Set<() => void> = new Set();
+  private nextId = 1;
+
+  /**
+   * Add a notification and return its id
+   * Invalid notifications are rejected as the real app does.
+   */
+  add(notification: XrmGlobalNotification): string {
+    if (notification.type !== GLOBAL_NOTIFICATION_TYPE) {
+      throw new Error(`Unsupported notification type: ${notification.type}`);
+    }
+    if (![1, 2, 3, 4].includes(notification.level)) {
+      throw new Error(`Invalid notification level: ${notification.level}`);
+    }
+    if (!notification.message) {
+      throw new Error('Notification message is required');
+    }
+
+    const id = `globalnotification_${this.nextId++}`;
+    this.notifications = [...this.notifications, { ...notification, id }];
+    this.notify();
+    return id;
+  }
+
+  /**
+   * Remove a notification; returns false when no notification has the id
+   */
+  clear(id: string): boolean {
+    const remaining = this.notifications.filter(notification => notification.id !== id);
+    if (remaining.length === this.notifications.length) {
+      return false;
+    }
+    this.notifications = remaining;
+    this.notify();
+    return true;
+  }
+
+  getAll(): GlobalNotificationEntry[] {
+    return this.notifications;
+  }
+
+  /**
+   * Returns a function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const globalNotificationStore = new GlobalNotificationStore();
@@ -0,0 +1,300 @@
+/**
+ * Utilities for lookup columns
+ * Reads lookup values from _<name>_value properties, searches target tables and
+ * writes lookups back as @odata.bind references.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/associate-disassociate-entities-using-web-api
+ */
+
+import type {
+  AttributeMetadata,
+  EntityRecord,
+  LookupValue,
+  ManyToManyRelationshipMetadata,
+  OneToManyRelationshipMetadata,
+} from '../types/dataverse';
+import { dataverseClient } from './dataverse-client';
+import { metadataCache } from './metadata-cache';
+import { getAttributeControlKind } from './attribute-utils';
+import { AnnotatedRecord } from './annotated-record';
+
+const RECENT_ITEMS_STORAGE_KEY = 'fake4dataverse.lookup.recent';
+const MAX_RECENT_ITEMS = 10;
+
+/**
+ * Read the value of a lookup column from a record
+ * A value set on the form is kept under the attribute name; retrieved values come from _<name>_value.
+ */
+export function getLookupValue(
+  record: EntityRecord,
+  attributeName: string,
+  attribute?: AttributeMetadata
+): LookupValue | null {
+  if (attributeName in record) {
+    return toLookupValue(record[attributeName]);
+  }
+
+  const targets = attribute?.Targets || [];
+  return new AnnotatedRecord(record).getLookup(attributeName, targets.length === 1 ? targets[0] : '');
+}
+
+/**
+ * Normalize a lookup value to a single LookupValue, or null when the lookup is empty
+ * Form scripts set lookups as arrays of { id, name, entityType } with braced ids; an empty array clears the lookup.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/setvalue
+ */
+export function toLookupValue(value: any): LookupValue | null {
+  const item = Array.isArray(value) ? value[0] : value;
+  if (!item?.id || !item.entityType) {
+    return null;
+  }
+  const lookup: LookupValue = { id: String(item.id).replace(/[{}]/g, ''), entityType: item.entityType };
+  if (item.name) {
+    lookup.name = item.name;
+  }
+  return lookup;
+}
+
+/**
+ * Resolve the primary name of a lookup value that was retrieved without annotations
+ */
+export async function resolveLookupName(value: LookupValue): Promise<LookupValue> {
+  if (value.name || !value.entityType) {
+    return value;
+  }
+
+  const target = await metadataCache.getEntity(value.entityType);
+  if (!target.primaryNameAttribute) {
+    return value;
+  }
+
+  const record = await dataverseClient.fetchEntity(target.entitySetName, value.id, {
+    select: [target.primaryNameAttribute],
+  });
+  return { ...value, name: record[target.primaryNameAttribute] };
+}
+
+/**
+ * Search the primary name column of each target table
+ * Polymorphic lookups search all targets and return the results together.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query/filter-rows
+ */
+export async function searchLookupTargets(
+  targets: string[],
+  searchText: string,
+  top: number = 10
+): Promise<LookupValue[]> {
+  const results = await Promise.all(targets.map(async (target) => {
+    const names = await metadataCache.getEntity(target);
+    const nameColumn = names.primaryNameAttribute;
+    if (!nameColumn) {
+      return [];
+    }
+
+    const text = searchText.trim();
+    const response = await dataverseClient.fetchEntities(names.entitySetName, {
+      select: [names.primaryIdAttribute, nameColumn],
+      ...(text && { filter: `contains(${nameColumn},'${text.replace(/'/g, "''")}')` }),
+      orderby: `${nameColumn} asc`,
+      top,
+    });
+
+    return response.value.map((item): LookupValue => ({
+      id: item[names.primaryIdAttribute],
+      entityType: target,
+      name: item[nameColumn],
+    }));
+  }));
+
+  return results.flat();
+}
+
+/**
+ * Recently selected lookup values for the given target tables, most recent first
+ */
+export function getRecentLookupItems(targets: string[]): LookupValue[] {
+  return readRecentItems().filter(item => targets.includes(item.entityType));
+}
+
+/**
+ * Remember a selected lookup value
+ */
+export function addRecentLookupItem(value: LookupValue): void {
+  const items = readRecentItems().filter(item => !(item.id === value.id && item.entityType === value.entityType));
+  items.unshift({ id: value.id, entityType: value.entityType, name: value.name });
+  try {
+    window.localStorage.setItem(RECENT_ITEMS_STORAGE_KEY, JSON.stringify(items.slice(0, MAX_RECENT_ITEMS)));
+  } catch (err) {
+    console.warn('Failed to store recent lookup items:', err);
+  }
+}
+
+function readRecentItems(): LookupValue[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const stored = window.localStorage.getItem(RECENT_ITEMS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the @odata.bind properties for changed lookup columns
+ * Setting a lookup binds the single-valued navigation property to the target record;
+ * clearing it sets the navigation property to null.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/associate-disassociate-entities-using-web-api#disassociate-with-a-single-valued-navigation-property
+ */
+export async function buildLookupBindings(
+  entityName: string,
+  record: EntityRecord,
+  changedFields: Iterable<string>,
+  attributes: Map<string, AttributeMetadata>
+): Promise<EntityRecord> {
+  const bindings: EntityRecord = {};
+
+  for (const fieldName of Array.from(changedFields)) {
+    const attribute = attributes.get(fieldName);
+    if (getAttributeControlKind(attribute) !== 'lookup') {
+      continue;
+    }
+
+    const value = toLookupValue(record[fieldName]);
+    if (value) {
+      const navigationProperty = await metadataCache.getLookupNavigationProperty(entityName, fieldName, value.entityType);
+      const entitySetName = await metadataCache.getEntitySetName(value.entityType);
+      bindings[`${navigationProperty}@odata.bind`] = `/${entitySetName}(${value.id})`;
+    } else {
+      // A polymorphic lookup is cleared through the navigation property of its current target
+      const { [fieldName]: _cleared, ...retrieved } = record;
+      const original = getLookupValue(retrieved, fieldName, attribute);
+      const targetEntity = original?.entityType || attribute?.Targets?.[0];
+      if (targetEntity) {
+        const navigationProperty = await metadataCache.getLookupNavigationProperty(entityName, fieldName, targetEntity);
+        bindings[navigationProperty] = null;
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Lookup column through which a one-to-many relationship relates the records of a table to another table
+ * Without relationship metadata the only lookup column of the table to the other table is used.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/entity-relationship-metadata
+ */
+export async function getRelationshipLookupAttribute(
+  entityName: string,
+  relationshipName: string,
+  referencedEntity: string
+): Promise<string | undefined> {
+  let relationships: OneToManyRelationshipMetadata[] = [];
+  try {
+    relationships = await metadataCache.getManyToOneRelationships(entityName);
+  } catch (err) {
+    console.warn(`Failed to load relationships for ${entityName}:`, err);
+  }
+
+  const relationship = relationships.find(r => r.SchemaName === relationshipName);
+  if (relationship) {
+    return relationship.ReferencingAttribute;
+  }
+
+  const attributes = await metadataCache.getAttributes(entityName).catch(() => new Map<string, AttributeMetadata>());
+  const lookups = Array.from(attributes.values()).filter(attribute =>
+    getAttributeControlKind(attribute) === 'lookup' && attribute.Targets?.includes(referencedEntity)
+  );
+  return lookups.length === 1 ? lookups[0].LogicalName : undefined;
+}
+
+/**
+ * Relate an existing record to another record by setting one of its lookup columns
+ * The server has no $ref support, so the record is updated through the single-valued navigation property.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/associate-disassociate-entities-using-web-api#associate-with-a-single-valued-navigation-property
+ */
+export async function associateLookupRecord(
+  entityName: string,
+  recordId: string,
+  attributeName: string,
+  target: LookupValue
+): Promise<void> {
+  const entitySetName = await metadataCache.getEntitySetName(entityName);
+  const navigationProperty = await metadataCache.getLookupNavigationProperty(entityName, attributeName, target.entityType);
+  const targetSetName = await metadataCache.getEntitySetName(target.entityType);
+  await dataverseClient.updateEntity(entitySetName, recordId, {
+    [`${navigationProperty}@odata.bind`]: `/${targetSetName}(${target.id})`,
+  });
+}
+
+/**
+ * Many-to-many relationship between two tables, by its schema name
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/entity-relationship-metadata
+ */
+export async function getManyToManyRelationship(
+  entityName: string,
+  relationshipName: string,
+  relatedEntity: string
+): Promise<ManyToManyRelationshipMetadata | undefined> {
+  let relationships: ManyToManyRelationshipMetadata[] = [];
+  try {
+    relationships = await metadataCache.getManyToManyRelationships(entityName);
+  } catch (err) {
+    console.warn(`Failed to load relationships for ${entityName}:`, err);
+  }
+
+  return relationships.find(r =>
+    r.SchemaName === relationshipName
+    && ((r.Entity1LogicalName === entityName && r.Entity2LogicalName === relatedEntity)
+      || (r.Entity2LogicalName === entityName && r.Entity1LogicalName === relatedEntity))
+  );
+}
+
+/**
+ * Intersect columns and navigation property of one table of a many-to-many relationship
+ */
+export interface ManyToManyRole {
+  /** Intersect column holding the id of the record */
+  intersectAttribute: string;
+  /** Intersect column holding the id of the related record */
+  relatedIntersectAttribute: string;
+  /** Collection-valued navigation property from the record to the related records */
+  navigationProperty?: string;
+}
+
+/**
+ * Role of a table in a many-to-many relationship; in a relationship of a table to itself, the table is Entity1
+ */
+export function getManyToManyRole(relationship: ManyToManyRelationshipMetadata, entityName: string): ManyToManyRole {
+  return relationship.Entity1LogicalName === entityName
+    ? {
+      intersectAttribute: relationship.Entity1IntersectAttribute,
+      relatedIntersectAttribute: relationship.Entity2IntersectAttribute,
+      navigationProperty: relationship.Entity1NavigationPropertyName,
+    }
+    : {
+      intersectAttribute: relationship.Entity2IntersectAttribute,
+      relatedIntersectAttribute: relationship.Entity1IntersectAttribute,
+      navigationProperty: relationship.Entity2NavigationPropertyName,
+    };
+}
+
+/**
+ * Relate two records through a many-to-many relationship, which adds a row to its intersect table
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/associate-disassociate-entities-using-web-api#add-a-reference-to-a-collection-valued-navigation-property
+ */
+export async function associateManyToManyRecord(
+  relationship: ManyToManyRelationshipMetadata,
+  entityName: string,
+  recordId: string,
+  target: LookupValue
+): Promise<void> {
+  const { navigationProperty } = getManyToManyRole(relationship, entityName);
+  if (!navigationProperty) {
+    throw new Error(`Relationship ${relationship.SchemaName} has no navigation property on ${entityName}`);
+  }
+  const entitySetName = await metadataCache.getEntitySetName(entityName);
+  const targetSetName = await metadataCache.getEntitySetName(target.entityType);
+  await dataverseClient.associateEntities(entitySetName, recordId, navigationProperty, targetSetName, target.id);
+}
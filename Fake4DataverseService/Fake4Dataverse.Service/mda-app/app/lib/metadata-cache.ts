@@ -0,0 +1,274 @@
+/**
+ * Cache of table naming metadata
+ * Resolves EntitySetName, DisplayCollectionName, PrimaryIdAttribute and PrimaryNameAttribute
+ * from EntityDefinitions instead of deriving them from the logical name.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query-metadata-web-api
+ */
+
+import type {
+  EntityDefinition,
+  EntityNames,
+  AttributeMetadata,
+  OneToManyRelationshipMetadata,
+  ManyToManyRelationshipMetadata,
+} from '../types/dataverse';
+import { dataverseClient } from './dataverse-client';
+
+const ENTITY_NAME_PROPERTIES = [
+  'LogicalName',
+  'EntitySetName',
+  'DisplayName',
+  'DisplayCollectionName',
+  'PrimaryIdAttribute',
+  'PrimaryNameAttribute',
+  'ObjectTypeCode',
+];
+
+// Derived attribute types whose OptionSet is only returned when the collection is cast to that type
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/query-metadata-web-api#retrieving-attributes
+const OPTION_SET_ATTRIBUTE_TYPES: Record<string, string> = {
+  Picklist: 'PicklistAttributeMetadata',
+  State: 'StateAttributeMetadata',
+  Status: 'StatusAttributeMetadata',
+  Boolean: 'BooleanAttributeMetadata',
+  MultiSelectPicklistType: 'MultiSelectPicklistAttributeMetadata',
+};
+
+export class MetadataCache {
+  private entities: Map<string, EntityNames> | null = null;
+  private loading: Promise<Map<string, EntityNames>> | null = null;
+  private attributes: Map<string, Promise<Map<string, AttributeMetadata>>> = new Map();
+  private manyToOneRelationships: Map<string, Promise<OneToManyRelationshipMetadata[]>> = new Map();
+  private manyToManyRelationships: Map<string, Promise<ManyToManyRelationshipMetadata[]>> = new Map();
+
+  /**
+   * Resolve naming metadata for a table by logical name
+   * All tables are loaded with one request the first time; tables created afterwards
+   * (e.g. a new custom table) are fetched individually.
+   */
+  async getEntity(logicalName: string): Promise<EntityNames> {
+    const entities = await this.loadEntities();
+    const cached = entities.get(logicalName);
+    if (cached) {
+      return cached;
+    }
+
+    const definition = await dataverseClient.fetchEntityDefinition(logicalName);
+    const names = toEntityNames(definition);
+    entities.set(names.logicalName, names);
+    return names;
+  }
+
+  /**
+   * Resolve the Web API collection name for a table
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/web-api-service-documents#entity-set-name
+   */
+  async getEntitySetName(logicalName: string): Promise<string> {
+    return (await this.getEntity(logicalName)).entitySetName;
+  }
+
+  /**
+   * Resolve a table from its Web API collection name
+   */
+  async getEntityBySetName(entitySetName: string): Promise<EntityNames | undefined> {
+    const entities = await this.loadEntities();
+    for (const names of entities.values()) {
+      if (names.entitySetName === entitySetName) {
+        return names;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the attribute definitions of a table keyed by logical name
+   * Option sets of choice, two-option, state and status columns are included.
+   */
+  async getAttributes(logicalName: string): Promise<Map<string, AttributeMetadata>> {
+    let attributes = this.attributes.get(logicalName);
+    if (!attributes) {
+      attributes = loadAttributes(logicalName);
+      this.attributes.set(logicalName, attributes);
+      // Do not keep a failed load so the next lookup retries
+      attributes.catch(() => this.attributes.delete(logicalName));
+    }
+    return attributes;
+  }
+
+  /**
+   * Resolve the many-to-one relationships of a table (one per lookup target)
+   */
+  async getManyToOneRelationships(logicalName: string): Promise<OneToManyRelationshipMetadata[]> {
+    let relationships = this.manyToOneRelationships.get(logicalName);
+    if (!relationships) {
+      relationships = dataverseClient
+        .fetchEntityDefinitions({
+          filter: `LogicalName eq '${logicalName}'`,
+          select: ['LogicalName'],
+          expand: ['ManyToOneRelationships'],
+        })
+        .then((response) => (response.value?.[0] as EntityDefinition | undefined)?.ManyToOneRelationships || []);
+      this.manyToOneRelationships.set(logicalName, relationships);
+      relationships.catch(() => this.manyToOneRelationships.delete(logicalName));
+    }
+    return relationships;
+  }
+
+  /**
+   * Resolve the many-to-many relationships of a table, on either side of the relationship
+   */
+  async getManyToManyRelationships(logicalName: string): Promise<ManyToManyRelationshipMetadata[]> {
+    let relationships = this.manyToManyRelationships.get(logicalName);
+    if (!relationships) {
+      relationships = dataverseClient
+        .fetchEntityDefinitions({
+          filter: `LogicalName eq '${logicalName}'`,
+          select: ['LogicalName'],
+          expand: ['ManyToManyRelationships'],
+        })
+        .then((response) => (response.value?.[0] as EntityDefinition | undefined)?.ManyToManyRelationships || []);
+      this.manyToManyRelationships.set(logicalName, relationships);
+      relationships.catch(() => this.manyToManyRelationships.delete(logicalName));
+    }
+    return relationships;
+  }
+
+  /**
+   * Resolve the single-valued navigation property used to set a lookup to a target table
+   * Polymorphic lookups (customer, owner) have one navigation property per target, e.g. parentcustomerid_account.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/associate-disassociate-entities-using-web-api#associate-with-a-single-valued-navigation-property
+   */
+  async getLookupNavigationProperty(logicalName: string, attributeName: string, targetEntity: string): Promise<string> {
+    let relationships: OneToManyRelationshipMetadata[] = [];
+    try {
+      relationships = await this.getManyToOneRelationships(logicalName);
+    } catch (err) {
+      console.warn(`Failed to load relationships for ${logicalName}:`, err);
+    }
+
+    const relationship = relationships.find(r =>
+      r.ReferencingAttribute === attributeName && r.ReferencedEntity === targetEntity
+    );
+    if (relationship?.ReferencingEntityNavigationPropertyName) {
+      return relationship.ReferencingEntityNavigationPropertyName;
+    }
+
+    // Without relationship metadata use the platform naming: the attribute name, suffixed with the target for polymorphic lookups
+    const attributes = await this.getAttributes(logicalName).catch(() => new Map<string, AttributeMetadata>());
+    const attribute = attributes.get(attributeName);
+    const targets = attribute?.Targets || [];
+    return targets.length > 1 ? `${attributeName}_${targetEntity}` : attributeName;
+  }
+
+  /**
+   * Drop cached metadata so the next lookup reloads it
+   */
+  clear(): void {
+    this.entities = null;
+    this.loading = null;
+    this.attributes.clear();
+    this.manyToOneRelationships.clear();
+    this.manyToManyRelationships.clear();
+  }
+
+  private async loadEntities(): Promise<Map<string, EntityNames>> {
+    if (this.entities) {
+      return this.entities;
+    }
+
+    if (!this.loading) {
+      this.loading = dataverseClient
+        .fetchEntityDefinitions({ select: ENTITY_NAME_PROPERTIES })
+        .then((response) => {
+          const entities = new Map<string, EntityNames>();
+          (response.value || []).forEach((definition: EntityDefinition) => {
+            if (definition.LogicalName && definition.EntitySetName && definition.PrimaryIdAttribute) {
+              const names = toEntityNames(definition);
+              entities.set(names.logicalName, names);
+            }
+          });
+          this.entities = entities;
+          return entities;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    return this.loading;
+  }
+}
+
+async function loadAttributes(logicalName: string): Promise<Map<string, AttributeMetadata>> {
+  const response = await dataverseClient.fetchEntityDefinitions({
+    filter: `LogicalName eq '${logicalName}'`,
+    select: ['LogicalName'],
+    expand: ['Attributes'],
+  });
+  const definition: EntityDefinition | undefined = response.value?.[0];
+  if (!definition) {
+    throw new Error(`Table metadata not found: ${logicalName}`);
+  }
+
+  const attributes = new Map<string, AttributeMetadata>();
+  (definition.Attributes || []).forEach((attribute) => {
+    attributes.set(attribute.LogicalName, attribute);
+  });
+
+  // Fetch option sets the expanded attributes did not include, one request per derived type
+  const castTypes = new Set<string>();
+  attributes.forEach((attribute) => {
+    const castType = OPTION_SET_ATTRIBUTE_TYPES[attribute.AttributeTypeName?.Value || '']
+      || OPTION_SET_ATTRIBUTE_TYPES[attribute.AttributeType || ''];
+    if (castType && !attribute.OptionSet) {
+      castTypes.add(castType);
+    }
+  });
+
+  await Promise.all(Array.from(castTypes).map(async (castType) => {
+    try {
+      const optionSets = await dataverseClient.fetchEntityAttributes(logicalName, {
+        castType,
+        select: ['LogicalName'],
+        expand: ['OptionSet'],
+      });
+      (optionSets.value || []).forEach((item: AttributeMetadata) => {
+        const attribute = attributes.get(item.LogicalName);
+        if (attribute && item.OptionSet) {
+          attribute.OptionSet = item.OptionSet;
+        }
+      });
+    } catch (err) {
+      console.warn(`Failed to load ${castType} option sets for ${logicalName}:`, err);
+    }
+  }));
+
+  return attributes;
+}
+
+/**
+ * Map an EntityDefinition to the names the app needs
+ * Throws when the definition lacks the entity set name or primary key, since neither can be guessed reliably.
+ */
+function toEntityNames(definition: EntityDefinition): EntityNames {
+  if (!definition.EntitySetName) {
+    throw new Error(`Table metadata has no EntitySetName: ${definition.LogicalName}`);
+  }
+  if (!definition.PrimaryIdAttribute) {
+    throw new Error(`Table metadata has no PrimaryIdAttribute: ${definition.LogicalName}`);
+  }
+
+  const displayName = definition.DisplayName?.UserLocalizedLabel?.Label || definition.LogicalName;
+
+  return {
+    logicalName: definition.LogicalName,
+    entitySetName: definition.EntitySetName,
+    displayName,
+    displayCollectionName: definition.DisplayCollectionName?.UserLocalizedLabel?.Label || displayName,
+    primaryIdAttribute: definition.PrimaryIdAttribute,
+    primaryNameAttribute: definition.PrimaryNameAttribute || undefined,
+    objectTypeCode: definition.ObjectTypeCode,
+  };
+}
+
+export const metadataCache = new MetadataCache();
@@ -0,0 +1,81 @@
+/**
+ * Request paths of Web API actions and functions, relative to the Web API root
+ * Shared by direct calls in DataverseApiClient and operations sent in a $batch.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-functions
+ */
+
+import type { OperationBinding } from '../types/dataverse';
+
+// Bound actions and functions are addressed by their qualified name
+const OPERATION_NAMESPACE = 'Microsoft.Dynamics.CRM';
+
+/**
+ * Path of an action; the parameters go in the POST body
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-actions
+ */
+export function getActionPath(name: string, bound?: OperationBinding): string {
+  return operationPath(name, bound);
+}
+
+/**
+ * Path of a function with its parameters passed as parameter aliases (Name=@p1?@p1=value)
+ * parameterTypes holds the Edm or Microsoft.Dynamics.CRM type name of a parameter where the
+ * JavaScript value is ambiguous, for example Edm.Guid or an enum type.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-functions#passing-parameters-to-a-function
+ */
+export function getFunctionPath(
+  name: string,
+  parameters: Record<string, any> = {},
+  options?: {
+    bound?: OperationBinding;
+    parameterTypes?: Record<string, string>;
+  }
+): string {
+  const names = Object.keys(parameters);
+  const aliases = names.map((parameterName, index) => `${parameterName}=@p${index + 1}`);
+  const aliasValues = names.map((parameterName, index) =>
+    `@p${index + 1}=${encodeURIComponent(formatFunctionParameter(parameters[parameterName], options?.parameterTypes?.[parameterName]))}`
+  );
+  return `${operationPath(name, options?.bound)}(${aliases.join(',')})`
+    + (aliasValues.length > 0 ? `?${aliasValues.join('&')}` : '');
+}
+
+/**
+ * Path of an action or function, qualified with the namespace when it is bound
+ */
+function operationPath(name: string, bound?: OperationBinding): string {
+  if (!bound) {
+    return name;
+  }
+  const qualifiedName = name.includes('.') ? name : `${OPERATION_NAMESPACE}.${name}`;
+  const target = bound.id ? `${bound.entitySetName}(${bound.id})` : bound.entitySetName;
+  return `${target}/${qualifiedName}`;
+}
+
+/**
+ * Format a function parameter alias value as an OData literal
+ * Strings are quoted unless the type says otherwise, enum members use the Type'Member' syntax,
+ * and entity or complex values are passed as JSON.
+ */
+function formatFunctionParameter(value: any, typeName?: string): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  if (typeName && !typeName.startsWith('Edm.')) {
+    const enumType = typeName.replace(/^mscrm\./, `${OPERATION_NAMESPACE}.`);
+    return `${enumType}'${value}'`;
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  if (typeName === 'Edm.Guid' || typeName === 'Edm.DateTimeOffset') {
+    return value;
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+}
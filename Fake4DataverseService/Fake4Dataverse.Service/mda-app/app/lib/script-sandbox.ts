@@ -0,0 +1,83 @@
+/**
+ * Isolated script realm for the form libraries of one form
+ * Libraries run as classic scripts in a hidden iframe, so the functions and variables they declare
+ * belong to the form instead of the app window, and every form has its own Xrm global.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/script-jscript-web-resources
+ */
+
+import type { XrmStatic } from './xrm-api-types';
+
+export class FormScriptSandbox {
+  private iframe: HTMLIFrameElement;
+
+  constructor(xrm: XrmStatic) {
+    this.iframe = document.createElement('iframe');
+    // allow-same-origin lets the form reach the functions the libraries declare; the iframe isolates
+    // globals, it is not a security boundary
+    this.iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin');
+    this.iframe.setAttribute('aria-hidden', 'true');
+    this.iframe.style.display = 'none';
+    document.body.appendChild(this.iframe);
+    (this.getWindow() as any).Xrm = xrm;
+  }
+
+  /**
+   * Global object of the libraries
+   */
+  getWindow(): Window {
+    return this.iframe.contentWindow!;
+  }
+
+  /**
+   * Run a library as a classic script
+   * The first uncaught error of the script is thrown.
+   */
+  run(scriptContent: string): void {
+    const sandboxWindow = this.getWindow();
+    const document = sandboxWindow.document;
+    let scriptError: unknown;
+    const onError = (event: ErrorEvent) => {
+      if (scriptError === undefined) {
+        scriptError = event.error ?? new Error(event.message);
+      }
+      event.preventDefault();
+    };
+
+    sandboxWindow.addEventListener('error', onError);
+    try {
+      const script = document.createElement('script');
+      script.text = scriptContent;
+      document.head.appendChild(script);
+    } finally {
+      sandboxWindow.removeEventListener('error', onError);
+    }
+    if (scriptError !== undefined) {
+      throw scriptError;
+    }
+  }
+
+  /**
+   * Function a form event handler names, such as onLoad or Contoso.Account.onLoad
+   */
+  resolveFunction(functionName: string): unknown {
+    return resolveFunctionName(this.getWindow(), functionName);
+  }
+
+  /**
+   * Remove the iframe; the libraries can no longer be called
+   */
+  dispose(): void {
+    this.iframe.remove();
+  }
+}
+
+/**
+ * Look up a function name relative to a global object, following dotted namespaces
+ * Functions are bound to the namespace object that holds them, as when called by their dotted name.
+ */
+export function resolveFunctionName(root: any, functionName: string): unknown {
+  const parts = functionName.split('.');
+  const owner = parts.slice(0, -1).reduce((scope, part) => (scope == null ? undefined : scope[part]), root);
+  const value = owner == null ? undefined : owner[parts[parts.length - 1]];
+  return typeof value === 'function' ? value.bind(owner) : value;
+}
@@ -0,0 +1,44 @@
+/**
+ * Loading forms of a table by form type
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/entities/systemform
+ */
+
+import { dataverseClient } from './dataverse-client';
+import type { SystemForm } from '../types/dataverse';
+
+/**
+ * Values of SystemForm.type used by the runtime
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/entities/systemform#type-choicesoptions
+ */
+export const SYSTEM_FORM_TYPE = {
+  Main: 2,
+  QuickView: 6,
+  QuickCreate: 7,
+} as const;
+
+const FORM_SELECT = ['formid', 'name', 'objecttypecode', 'type', 'formxml', 'isdefault'];
+
+/**
+ * Load a form by its id, or undefined when it does not exist
+ */
+export async function fetchSystemForm(formId: string): Promise<SystemForm | undefined> {
+  const response = await dataverseClient.fetchEntities('systemforms', {
+    filter: `formid eq ${formId}`,
+    select: FORM_SELECT,
+    top: 1,
+  });
+  return response.value[0] as SystemForm | undefined;
+}
+
+/**
+ * Whether records of a table can be created in a quick create form
+ * Reference: https://learn.microsoft.com/en-us/power-apps/maker/model-driven-apps/create-edit-quick-create-forms
+ */
+export async function hasQuickCreateForm(entityName: string): Promise<boolean> {
+  const response = await dataverseClient.fetchEntities('systemforms', {
+    filter: `objecttypecode eq '${entityName}' and type eq ${SYSTEM_FORM_TYPE.QuickCreate}`,
+    select: ['formid'],
+    top: 1,
+  });
+  return response.value.length > 0;
+}
@@ -0,0 +1,189 @@
+/**
+ * Loader of web resources for forms
+ * Resolves the dependencies declared on each web resource, fetches the web resources in parallel and
+ * keeps their content in memory until the web resource is modified.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resources
+ */
+
+import type { WebResource } from '../types/dataverse';
+import { dataverseClient } from './dataverse-client';
+import { webResourceUrl } from './webresource-route';
+
+// Web resource type of script (JScript) libraries
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/entities/webresource#webresourcetype-choicesoptions
+export const WEB_RESOURCE_TYPE_SCRIPT = 3;
+
+/**
+ * Web resource with its content and the names of the web resources it depends on
+ */
+export interface LoadedWebResource {
+  webResourceId: string;
+  name: string;
+  webResourceType: number;
+  modifiedOn?: string;
+  dependencies: string[];
+  content: string; // Base64 encoded content
+}
+
+/**
+ * Script library ready to run, with its dependencies placed before it
+ */
+export interface WebResourceScript {
+  name: string;
+  source: string;
+}
+
+export class WebResourceLoader {
+  private cache: Map<string, LoadedWebResource> = new Map();
+
+  /**
+   * Load script libraries and the libraries they depend on, in the order they must run
+   * Every library comes after its dependencies and runs once; otherwise the requested order is kept.
+   * Libraries that do not exist are skipped with a warning.
+   */
+  async loadScripts(names: string[]): Promise<WebResourceScript[]> {
+    const webResources = await this.getWebResources(names);
+    return orderByDependencies(names, webResources)
+      .filter(webResource => webResource.webResourceType === WEB_RESOURCE_TYPE_SCRIPT && webResource.content)
+      .map(webResource => ({
+        name: webResource.name,
+        source: `${decodeWebResourceContent(webResource.content)}\n//# sourceURL=${webResourceUrl(webResource.name)}`,
+      }));
+  }
+
+  /**
+   * Fetch web resources and all their dependencies keyed by name
+   * Dependencies are resolved one level at a time with a single query per level; the content of the
+   * web resources that are not cached, or were modified since they were cached, is then fetched in parallel.
+   */
+  async getWebResources(names: string[]): Promise<Map<string, LoadedWebResource>> {
+    const records = new Map<string, WebResource>();
+    let pending = unique(names);
+
+    while (pending.length > 0) {
+      const response = await dataverseClient.fetchEntities('webresources', {
+        filter: pending.map(name => `name eq '${name.replace(/'/g, "''")}'`).join(' or '),
+        select: ['webresourceid', 'name', 'webresourcetype', 'modifiedon', 'dependencyxml'],
+      });
+      const found = response.value as WebResource[];
+      found.forEach(record => records.set(record.name, record));
+
+      pending
+        .filter(name => !records.has(name))
+        .forEach(name => console.warn(`Web resource ${name} was not found`));
+
+      pending = unique(found.flatMap(record => parseWebResourceDependencies(record.dependencyxml)))
+        .filter(name => !records.has(name));
+    }
+
+    const webResources = await Promise.all(
+      Array.from(records.values()).map(record => this.getWebResource(record))
+    );
+    return new Map(webResources.map(webResource => [webResource.name, webResource]));
+  }
+
+  /**
+   * Forget all cached web resources
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async getWebResource(record: WebResource): Promise<LoadedWebResource> {
+    const cached = this.cache.get(record.name);
+    // Without modifiedon there is no way to tell whether the cached content is current
+    if (cached && record.modifiedon && cached.modifiedOn === record.modifiedon) {
+      return cached;
+    }
+
+    const withContent = await dataverseClient.fetchEntity('webresources', record.webresourceid, {
+      select: ['content'],
+    }) as WebResource;
+    const webResource: LoadedWebResource = {
+      webResourceId: record.webresourceid,
+      name: record.name,
+      webResourceType: record.webresourcetype,
+      modifiedOn: record.modifiedon,
+      dependencies: parseWebResourceDependencies(record.dependencyxml),
+      content: withContent.content || '',
+    };
+    if (record.modifiedon) {
+      this.cache.set(record.name, webResource);
+    }
+    return webResource;
+  }
+}
+
+/**
+ * Names of the web resources a web resource depends on
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resource-dependencies
+ */
+export function parseWebResourceDependencies(dependencyXml?: string | null): string[] {
+  if (!dependencyXml) {
+    return [];
+  }
+
+  try {
+    const doc = new DOMParser().parseFromString(dependencyXml, 'text/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      console.warn('Invalid web resource dependency XML');
+      return [];
+    }
+    return Array.from(doc.getElementsByTagName('Dependency'))
+      .filter(dependency => dependency.getAttribute('componentType') === 'WebResource')
+      .flatMap(dependency => Array.from(dependency.getElementsByTagName('Library')))
+      .map(library => library.getAttribute('name') || '')
+      .filter(name => name !== '');
+  } catch (error) {
+    console.warn('Error parsing web resource dependency XML:', error);
+    return [];
+  }
+}
+
+/**
+ * Decode base64 web resource content as UTF-8 text
+ * atob alone returns one character per byte, which garbles characters outside ASCII.
+ */
+export function decodeWebResourceContent(content: string): string {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * Web resources in the order they must load: depth first, dependencies before the web resources
+ * that need them. A circular dependency is reported and broken where it is found.
+ */
+function orderByDependencies(names: string[], webResources: Map<string, LoadedWebResource>): LoadedWebResource[] {
+  const ordered: LoadedWebResource[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  const visit = (name: string) => {
+    const webResource = webResources.get(name);
+    if (!webResource || visited.has(name)) {
+      return;
+    }
+    if (visiting.has(name)) {
+      console.warn(`Circular web resource dependency on ${name}`);
+      return;
+    }
+    visiting.add(name);
+    webResource.dependencies.forEach(visit);
+    visiting.delete(name);
+    visited.add(name);
+    ordered.push(webResource);
+  };
+
+  names.forEach(visit);
+  return ordered;
+}
+
+function unique(names: string[]): string[] {
+  return Array.from(new Set(names));
+}
+
+export const webResourceLoader = new WebResourceLoader();
@@ -0,0 +1,86 @@
+/**
+ * URLs of web resources and the /WebResources/ route that serves them
+ * Web resources are served by a service worker (public/webresources-sw.js) registered for /WebResources/,
+ * because the app is exported as static files and has no server routes of its own.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resources#reference-web-resources
+ */
+
+export const WEB_RESOURCE_PATH = '/WebResources/';
+
+const SERVICE_WORKER_URL = '/webresources-sw.js';
+const WEB_RESOURCE_DIRECTIVE = '$webresource:';
+
+let registration: Promise<boolean> | null = null;
+
+/**
+ * Address of a web resource by name
+ */
+export function webResourceUrl(name: string): string {
+  return `${WEB_RESOURCE_PATH}${encodeURI(name)}`;
+}
+
+/**
+ * Resolve a SiteMap or FormXML URL, replacing the $webresource: directive with the web resource address
+ * Other URLs are returned unchanged.
+ */
+export function resolveWebResourceUrl(url: string): string {
+  return url.startsWith(WEB_RESOURCE_DIRECTIVE)
+    ? webResourceUrl(url.slice(WEB_RESOURCE_DIRECTIVE.length))
+    : url;
+}
+
+/**
+ * Name of the web resource a URL points at, or undefined for other URLs
+ */
+export function getWebResourceName(url: string): string | undefined {
+  const resolved = resolveWebResourceUrl(url);
+  return resolved.startsWith(WEB_RESOURCE_PATH)
+    ? decodeURI(resolved.slice(WEB_RESOURCE_PATH.length).split(/[?#]/)[0])
+    : undefined;
+}
+
+/**
+ * Register the service worker that serves /WebResources/ and wait until it handles requests
+ * Resolves to false when service workers are not available, e.g. on a page that is not served over
+ * HTTPS or localhost. Registration happens once per page.
+ */
+export function registerWebResourceRoute(): Promise<boolean> {
+  if (!registration) {
+    registration = register().catch((error) => {
+      console.warn('Failed to register the web resource service worker:', error);
+      registration = null;
+      return false;
+    });
+  }
+  return registration;
+}
+
+async function register(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) {
+    console.warn('Service workers are not available; web resources cannot be displayed');
+    return false;
+  }
+
+  const serviceWorkerRegistration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, {
+    scope: WEB_RESOURCE_PATH,
+  });
+  // navigator.serviceWorker.ready only covers workers whose scope includes the app page, so wait for this worker
+  await whenActivated(serviceWorkerRegistration);
+  return true;
+}
+
+function whenActivated(serviceWorkerRegistration: ServiceWorkerRegistration): Promise<void> {
+  const worker = serviceWorkerRegistration.installing || serviceWorkerRegistration.waiting;
+  if (!worker) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'activated') {
+        resolve();
+      } else if (worker.state === 'redundant') {
+        reject(new Error('The web resource service worker failed to install'));
+      }
+    });
+  });
+}
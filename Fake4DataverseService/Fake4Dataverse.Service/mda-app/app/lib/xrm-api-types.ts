@@ -15,11 +15,124 @@ export interface XrmAttribute {
   getName(): string;
   getValue(): any;
   setValue(value: any): void;
-  getRequiredLevel(): 'none' | 'required' | 'recommended';
-  setRequiredLevel(level: 'none' | 'required' | 'recommended'): void;
-  addOnChange(handler: () => void): void;
-  removeOnChange(handler: () => void): void;
+  getAttributeType(): XrmAttributeType;
+  /** Format from the column metadata, such as email, textarea, date or duration; null when the type has none */
+  getFormat(): string | null;
+  getIsDirty(): boolean;
+  getRequiredLevel(): XrmRequiredLevel;
+  setRequiredLevel(level: XrmRequiredLevel): void;
+  getSubmitMode(): XrmSubmitMode;
+  setSubmitMode(mode: XrmSubmitMode): void;
+  getUserPrivilege(): XrmUserPrivilege;
+  isValid(): boolean;
+  setIsValid(isValid: boolean, message?: string): void;
+  addOnChange(handler: XrmEventHandler): void;
+  removeOnChange(handler: XrmEventHandler): void;
   fireOnChange(): void;
+  controls: {
+    get(name: string): XrmControl | null;
+    get(index: number): XrmControl | null;
+    get(): XrmControl[];
+  };
+}
+
+/**
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/getattributetype
+ */
+export type XrmAttributeType =
+  | 'boolean'
+  | 'datetime'
+  | 'decimal'
+  | 'double'
+  | 'integer'
+  | 'lookup'
+  | 'memo'
+  | 'money'
+  | 'multiselectoptionset'
+  | 'optionset'
+  | 'string';
+
+export type XrmRequiredLevel = 'none' | 'required' | 'recommended';
+
+/**
+ * Whether the value is sent when the record is saved: always, never, or only when changed (dirty)
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/setsubmitmode
+ */
+export type XrmSubmitMode = 'always' | 'never' | 'dirty';
+
+export interface XrmUserPrivilege {
+  canRead: boolean;
+  canUpdate: boolean;
+  canCreate: boolean;
+}
+
+/**
+ * Option of a choice or multi-select choice column
+ */
+export interface XrmOption {
+  text: string;
+  value: number;
+}
+
+/**
+ * Whole number, decimal, floating point and currency columns
+ */
+export interface XrmNumberAttribute extends XrmAttribute {
+  getMax(): number;
+  getMin(): number;
+  getPrecision(): number;
+}
+
+/**
+ * Single line and multiple lines of text columns
+ */
+export interface XrmStringAttribute extends XrmAttribute {
+  getMaxLength(): number;
+}
+
+/**
+ * Two options columns
+ */
+export interface XrmBooleanAttribute extends XrmAttribute {
+  getInitialValue(): boolean | null;
+}
+
+/**
+ * Lookup, customer and owner columns
+ * Values are arrays holding one record reference, or null when the lookup is empty.
+ */
+export interface XrmLookupAttribute extends XrmAttribute {
+  getValue(): XrmLookupValue[] | null;
+  setValue(value: XrmLookupValue[] | null): void;
+}
+
+/**
+ * Record referenced by a lookup attribute
+ */
+export interface XrmLookupValue {
+  id: string;
+  name?: string;
+  entityType: string;
+}
+
+/**
+ * Date and time columns
+ * Values are Date objects; date-only values are at local midnight.
+ */
+export interface XrmDateAttribute extends XrmAttribute {
+  getValue(): Date | null;
+}
+
+/**
+ * Choice and multi-select choice columns
+ * Values of multi-select choice columns are arrays of option values.
+ */
+export interface XrmOptionSetAttribute extends XrmAttribute {
+  getOptions(): XrmOption[];
+  getOption(value: number | string): XrmOption | null;
+  getSelectedOption(): XrmOption | XrmOption[] | null;
+  getText(): string | string[] | null;
+  getInitialValue(): number | number[] | null;
 }
 
 /**
@@ -36,6 +149,159 @@ export interface XrmControl {
   setLabel(label: string): void;
   getAttribute(): XrmAttribute | null;
   setFocus(): void;
+  /** Show an error below the control; returns true when the notification was set */
+  setNotification(message: string, uniqueId?: string): boolean;
+  /** Remove a notification, or all notifications when no id is given */
+  clearNotification(uniqueId?: string): boolean;
+  addNotification(notification: XrmControlNotification): void;
+}
+
+/**
+ * Web resource or IFRAME control
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/getcontentwindow
+ */
+export interface XrmFramedControl extends XrmControl {
+  /** Window of the page once it has loaded */
+  getContentWindow(): Promise<Window>;
+  getSrc(): string;
+  setSrc(src: string): void;
+  /** Address the control showed when the form opened */
+  getInitialUrl(): string;
+  /** The iframe element, or null while it is not rendered */
+  getObject(): HTMLIFrameElement | null;
+}
+
+/**
+ * Subgrid control
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/grids/gridcontrol
+ */
+export interface XrmGridControl extends XrmControl {
+  getGrid(): XrmGrid;
+  /** Logical name of the table the subgrid shows */
+  getEntityName(): string;
+  /** Relationship that relates the records to the form record, or null when the subgrid shows all records */
+  getRelationship(): XrmGridRelationship | null;
+  /** Load the records again */
+  refresh(): void;
+  /** Add a handler that runs each time the subgrid loads its records */
+  addOnLoad(handler: XrmEventHandler): void;
+  removeOnLoad(handler: XrmEventHandler): void;
+}
+
+export interface XrmGridRelationship {
+  name: string;
+  /** 0 = one-to-many, 1 = many-to-many */
+  relationshipType: number;
+}
+
+/**
+ * Records shown in a subgrid
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/grids/grid
+ */
+export interface XrmGrid {
+  getRows(): XrmGridRowCollection;
+  getSelectedRows(): XrmGridRowCollection;
+  /** Number of records the view returns on all pages, or -1 when it is not known */
+  getTotalRecordCount(): number;
+}
+
+export interface XrmGridRowCollection {
+  get(index: number): XrmGridRow | null;
+  get(): XrmGridRow[];
+  getLength(): number;
+  forEach(callback: (row: XrmGridRow, index: number) => void): void;
+}
+
+/**
+ * Row of a subgrid
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/grids/gridrow
+ */
+export interface XrmGridRow {
+  getData(): {
+    entity: XrmGridEntity;
+    getEntity(): XrmGridEntity;
+  };
+}
+
+/**
+ * Record shown in a subgrid row
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/grids/gridentity
+ */
+export interface XrmGridEntity {
+  attributes: {
+    get(name: string): XrmGridAttribute | null;
+    get(index: number): XrmGridAttribute | null;
+    get(): XrmGridAttribute[];
+  };
+  getEntityName(): string;
+  getEntityReference(): { entityType: string; id: string; name: string };
+  getId(): string;
+  getPrimaryAttributeValue(): string;
+}
+
+/**
+ * Column of a record shown in a subgrid; lookup columns return { id, entityType, name } as lookup attributes do
+ */
+export interface XrmGridAttribute {
+  getName(): string;
+  getValue(): any;
+}
+
+/**
+ * Notification shown below a control; recommendations can offer actions the user applies
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/addnotification
+ */
+export interface XrmControlNotification {
+  messages: string[];
+  notificationLevel?: 'ERROR' | 'RECOMMENDATION';
+  uniqueId: string;
+  actions?: {
+    message?: string;
+    actions: (() => void)[];
+  }[];
+}
+
+/**
+ * Tab of a form; only the selected tab is expanded
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/formcontext-ui-tabs
+ */
+export interface XrmTab {
+  getName(): string;
+  getLabel(): string;
+  setLabel(label: string): void;
+  getVisible(): boolean;
+  setVisible(visible: boolean): void;
+  getDisplayState(): XrmDisplayState;
+  /** Expanding a tab selects it */
+  setDisplayState(state: XrmDisplayState): void;
+  setFocus(): void;
+  addTabStateChange(handler: (executionContext: ExecutionContext) => void): void;
+  removeTabStateChange(handler: (executionContext: ExecutionContext) => void): void;
+  sections: {
+    get(name: string): XrmSection | null;
+    get(index: number): XrmSection | null;
+    get(): XrmSection[];
+  };
+}
+
+export type XrmDisplayState = 'expanded' | 'collapsed';
+
+/**
+ * Section of a tab
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/formcontext-ui-sections
+ */
+export interface XrmSection {
+  getName(): string;
+  getLabel(): string;
+  setLabel(label: string): void;
+  getVisible(): boolean;
+  setVisible(visible: boolean): void;
+  getParent(): XrmTab;
+  controls: {
+    get(name: string): XrmControl | null;
+    get(index: number): XrmControl | null;
+    get(): XrmControl[];
+  };
 }
 
 /**
@@ -50,6 +316,10 @@ export interface FormContext {
       getPrimaryAttributeValue(): string;
       getIsDirty(): boolean;
       save(saveMode?: string): Promise<void>;
+      addOnSave(handler: XrmEventHandler): void;
+      removeOnSave(handler: XrmEventHandler): void;
+      addOnPostSave(handler: XrmEventHandler): void;
+      removeOnPostSave(handler: XrmEventHandler): void;
       attributes: {
         get(name: string): XrmAttribute | null;
         get(): XrmAttribute[];
@@ -57,30 +327,81 @@ export interface FormContext {
     };
     save(saveOptions?: any): Promise<void>;
     refresh(save?: boolean): Promise<void>;
+    addOnLoad(handler: XrmEventHandler): void;
+    removeOnLoad(handler: XrmEventHandler): void;
   };
   ui: {
     tabs: {
-      get(name: string): any;
-      get(): any[];
+      get(name: string): XrmTab | null;
+      get(index: number): XrmTab | null;
+      get(): XrmTab[];
     };
     controls: {
       get(name: string): XrmControl | null;
       get(): XrmControl[];
     };
-    setFormNotification(message: string, level: 'ERROR' | 'WARNING' | 'INFO', uniqueId: string): void;
-    clearFormNotification(uniqueId: string): void;
+    setFormNotification(message: string, level: XrmFormNotificationLevel, uniqueId: string): boolean;
+    clearFormNotification(uniqueId: string): boolean;
   };
+  getAttribute(name: string): XrmAttribute | null;
+  getAttribute(): XrmAttribute[];
+  getControl(name: string): XrmControl | null;
+  getControl(): XrmControl[];
   getEventArgs(): any;
 }
 
+export type XrmFormNotificationLevel = 'ERROR' | 'WARNING' | 'INFO';
+
 /**
  * ExecutionContext interface - passed to form event handlers
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/executioncontext
  */
 export interface ExecutionContext {
   getFormContext(): FormContext;
-  getEventSource(): XrmAttribute | XrmControl;
+  getEventSource(): XrmEventSource | null;
+  getEventArgs(): XrmSaveEventArgs | XrmPostSaveEventArgs | XrmLoadEventArgs | null;
   getDepth(): number;
+  getSharedVariable(key: string): any;
+  setSharedVariable(key: string, value: any): void;
+}
+
+/**
+ * Event handler; OnLoad and OnSave handlers can return a promise the form waits for
+ */
+export type XrmEventHandler = (executionContext: ExecutionContext) => void | PromiseLike<unknown>;
+
+/**
+ * Object an event occurred on
+ */
+export type XrmEventSource = XrmAttribute | XrmControl | XrmTab | FormContext['data']['entity'];
+
+/**
+ * Arguments of the OnSave event
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/save-event-arguments
+ */
+export interface XrmSaveEventArgs {
+  getSaveMode(): number;
+  isDefaultPrevented(): boolean;
+  preventDefault(): void;
+  preventDefaultOnError(): void;
+}
+
+/**
+ * Arguments of the PostSave event
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/postsave
+ */
+export interface XrmPostSaveEventArgs {
+  getEntityReference(): { entityType: string; id: string; name: string };
+  getIsSaveSuccess(): boolean;
+  getSaveErrorInfo(): { errorCode?: number; message: string } | null;
+}
+
+/**
+ * Arguments of the OnLoad event
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/executioncontext/geteventargs
+ */
+export interface XrmLoadEventArgs {
+  getDataLoadState(): number;
 }
 
 /**
@@ -116,6 +437,42 @@ export interface XrmUtility {
   refreshParentGrid(record: any): void;
 }
 
+/**
+ * Request object passed to Xrm.WebApi.online.execute
+ * Parameters are properties of the request; getMetadata describes the operation.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi/online/execute
+ */
+export interface XrmExecuteRequest {
+  getMetadata(): XrmExecuteRequestMetadata;
+  [parameter: string]: any;
+}
+
+export interface XrmExecuteRequestMetadata {
+  /** 'entity' when bound to a table, null when unbound, undefined for CRUD requests */
+  boundParameter?: string | null;
+  parameterTypes?: Record<string, {
+    typeName: string;
+    /** 0 Unknown, 1 PrimitiveType, 2 ComplexType, 3 EnumerationType, 4 Collection, 5 EntityType */
+    structuralProperty: number;
+    enumProperties?: { name: string; value: number }[];
+  }>;
+  /** 0 Action, 1 Function, 2 CRUD */
+  operationType?: number;
+  operationName: string;
+}
+
+/**
+ * Response returned by Xrm.WebApi.online.execute, shaped like a fetch Response
+ */
+export interface XrmExecuteResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  json(): Promise<any>;
+  text(): Promise<string>;
+}
+
 /**
  * Xrm.WebApi interface
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi
@@ -125,10 +482,57 @@ export interface XrmWebApi {
   retrieveMultipleRecords(entityLogicalName: string, options?: string, maxPageSize?: number): Promise<{
     entities: EntityRecord[];
     nextLink?: string;
+    fetchXmlPagingCookie?: string;
   }>;
   createRecord(entityLogicalName: string, data: any): Promise<{ id: string }>;
   updateRecord(entityLogicalName: string, id: string, data: any): Promise<{ id: string }>;
   deleteRecord(entityLogicalName: string, id: string): Promise<{ id: string }>;
+  isAvailableOffline(entityLogicalName: string): boolean;
+  online: XrmOnlineWebApi;
+  offline: XrmOfflineWebApi;
+}
+
+/**
+ * Xrm.WebApi.online: the record methods plus execution of actions, functions and CRUD request objects
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi/online
+ */
+export interface XrmOnlineWebApi extends Omit<XrmWebApi, 'online' | 'offline'> {
+  execute(request: XrmExecuteRequest): Promise<XrmExecuteResponse>;
+  /** Nested arrays of requests are executed as changesets */
+  executeMultiple(requests: (XrmExecuteRequest | XrmExecuteRequest[])[]): Promise<XrmExecuteResponse[]>;
+}
+
+/**
+ * Xrm.WebApi.offline: the record methods for tables that are available offline
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi/offline
+ */
+export type XrmOfflineWebApi = Omit<XrmWebApi, 'online' | 'offline' | 'isAvailableOffline'>;
+
+/**
+ * Notification shown in the app header above all pages
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-app/addglobalnotification
+ */
+export interface XrmGlobalNotification {
+  /** 2 is the only supported type (global notification) */
+  type: number;
+  /** 1 Success, 2 Error, 3 Warning, 4 Information */
+  level: number;
+  message: string;
+  showCloseButton?: boolean;
+  action?: {
+    actionLabel: string;
+    eventHandler: () => void;
+  };
+}
+
+/**
+ * Xrm.App interface
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-app
+ */
+export interface XrmApp {
+  /** Resolves with the id to pass to clearGlobalNotification */
+  addGlobalNotification(notification: XrmGlobalNotification): Promise<string>;
+  clearGlobalNotification(uniqueId: string): Promise<void>;
 }
 
 /**
@@ -136,6 +540,7 @@ export interface XrmWebApi {
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference
  */
 export interface XrmStatic {
+  App: XrmApp;
   Page: XrmPage;
   Utility: XrmUtility;
   WebApi: XrmWebApi;
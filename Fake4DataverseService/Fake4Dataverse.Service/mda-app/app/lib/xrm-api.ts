@@ -8,13 +8,145 @@ import type {
   XrmPage,
   XrmAttribute,
   XrmControl,
+  XrmFramedControl,
+  XrmGridControl,
+  XrmGrid,
+  XrmGridRow,
+  XrmGridRowCollection,
+  XrmGridEntity,
+  XrmGridAttribute,
+  XrmGridRelationship,
   FormContext,
   ExecutionContext,
   XrmUtility,
   XrmWebApi,
+  XrmExecuteRequest,
+  XrmExecuteRequestMetadata,
+  XrmExecuteResponse,
+  XrmOfflineWebApi,
+  XrmControlNotification,
+  XrmTab,
+  XrmSection,
+  XrmDisplayState,
+  XrmFormNotificationLevel,
+  XrmEventHandler,
 } from './xrm-api-types';
-import type { EntityRecord } from '../types/dataverse';
+import type {
+  AttributeMetadata,
+  EntityRecord,
+  EntityNames,
+  FormEvent,
+  FormTab,
+  LookupValue,
+  OperationBinding,
+} from '../types/dataverse';
 import { dataverseClient } from './dataverse-client';
+import { metadataCache } from './metadata-cache';
+import { createXrmAttribute, XrmAttributeImpl } from './xrm-attributes';
+import { globalNotificationStore } from './global-notifications';
+import { resolveFunctionName } from './script-sandbox';
+import {
+  createFormEventHandler,
+  executeAsyncEventHandlers,
+  executeEventHandlers,
+  DEFAULT_ASYNC_HANDLER_TIMEOUT,
+  XrmLoadEventArgsImpl,
+  XrmPostSaveEventArgsImpl,
+  XrmSaveEventArgsImpl,
+  XRM_DATA_LOAD_STATE,
+  XRM_SAVE_MODE,
+} from './execution-context';
+import type { XrmEventOptions } from './execution-context';
+import { ALL_ANNOTATIONS, AnnotatedRecord } from './annotated-record';
+import { buildSavePayload } from './attribute-utils';
+import { buildLookupBindings, getLookupValue } from './lookup-utils';
+import { parseFetchXml } from './fetchxml';
+import { getActionPath, getFunctionPath } from './operation-path';
+import type { BatchRequest } from './dataverse-batch';
+
+// Query options accepted in the options string of Xrm.WebApi.retrieveRecord and retrieveMultipleRecords
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi/retrievemultiplerecords
+const RETRIEVE_RECORD_OPTIONS = ['$select', '$expand'];
+const RETRIEVE_MULTIPLE_OPTIONS = ['$select', '$filter', '$orderby', '$expand', '$top', '$count', '$skiptoken', 'fetchXml'];
+
+// Milliseconds the form waits for promises returned by OnLoad and OnSave handlers
+const ASYNC_HANDLER_TIMEOUT_STORAGE_KEY = 'fake4dataverse.form.asyncHandlerTimeout';
+
+// Organization reported by the global context and passed to web resources
+const ORG_UNIQUE_NAME = 'fake4dataverse';
+const ORG_LCID = 1033;
+
+// Comma-separated logical names of the tables Xrm.WebApi.isAvailableOffline reports as available offline
+const OFFLINE_TABLES_STORAGE_KEY = 'fake4dataverse.webapi.offlineTables';
+
+/**
+ * Table the form is bound to
+ */
+export type XrmFormEntity = Pick<
+  EntityNames,
+  'logicalName' | 'entitySetName' | 'primaryIdAttribute' | 'primaryNameAttribute' | 'objectTypeCode'
+>;
+
+/**
+ * Initial state of a control, read from the form definition
+ */
+export interface XrmControlOptions {
+  label?: string;
+  disabled?: boolean;
+  visible?: boolean;
+  /** Class ID of the control, used to type the value on save when the column has no metadata */
+  classid?: string;
+  /** Address shown by a web resource or IFRAME control */
+  src?: string;
+  /** Table a subgrid shows and the relationship that relates its records to the form record */
+  grid?: { entityName: string; relationshipName?: string };
+}
+
+/**
+ * Record loaded by a subgrid
+ */
+export interface XrmGridRecord {
+  id: string;
+  name?: string;
+  data: EntityRecord;
+}
+
+/**
+ * Control state the form renders
+ */
+export interface XrmControlState {
+  disabled: boolean;
+  visible: boolean;
+  label: string;
+  notifications: XrmControlNotification[];
+  /** Address shown by a web resource or IFRAME control */
+  src?: string;
+  /** Number of times a script refreshed a subgrid; the subgrid loads its records again when it changes */
+  refreshCount?: number;
+}
+
+/**
+ * Tab and section state the form renders
+ */
+export interface XrmTabState {
+  label: string;
+  visible: boolean;
+  displayState: XrmDisplayState;
+}
+
+export interface XrmSectionState {
+  label: string;
+  visible: boolean;
+}
+
+/**
+ * Notification set with formContext.ui.setFormNotification
+ */
+export interface XrmFormNotification {
+  uniqueId: string;
+  message: string;
+  level: XrmFormNotificationLevel;
+}
 
 /**
  * Creates an Xrm API instance for a form
@@ -22,32 +154,131 @@ import { dataverseClient } from './dataverse-client';
 export class XrmApiImplementation {
   private entityName: string;
   private entityPluralName: string;
+  private primaryIdAttribute: string;
+  private primaryNameAttribute?: string;
+  private objectTypeCode?: number;
   private recordData: EntityRecord;
-  private isDirty: boolean = false;
+  private initialData: EntityRecord;
+  private dirtyAttributes: Set<string> = new Set();
   private attributes: Map<string, XrmAttributeImpl> = new Map();
   private controls: Map<string, XrmControlImpl> = new Map();
-  private onChangeHandlers: Map<string, Set<() => void>> = new Map();
+  private tabs: Map<string, XrmTabImpl> = new Map();
+  private selectedTabName?: string;
+  private tabSelectHandler?: (tabName: string) => void;
+  private formContext?: FormContext;
+  private onChangeHandlers: Map<string, Set<XrmEventHandler>> = new Map();
+  private onSaveHandlers: Set<XrmEventHandler> = new Set();
+  private onPostSaveHandlers: Set<XrmEventHandler> = new Set();
+  private onDataLoadHandlers: Set<XrmEventHandler> = new Set();
   private onSaveCallback?: (recordId: string) => void;
-  private notifications: Map<string, { message: string; level: string }> = new Map();
+  private notifications: Map<string, XrmFormNotification> = new Map();
+  private offlineTables: Set<string> = readOfflineTables();
+  private asyncHandlerTimeout: number = readAsyncHandlerTimeout();
+  private functionResolver: (functionName: string) => unknown = functionName => resolveFunctionName(window, functionName);
+  private stateListeners: Set<() => void> = new Set();
+  private focusHandler?: (controlName: string) => void;
+  private formEvents: FormEvent[] = [];
 
   constructor(
-    entityName: string,
-    entityPluralName: string,
+    entity: XrmFormEntity,
     recordData: EntityRecord,
     onSave?: (recordId: string) => void
   ) {
-    this.entityName = entityName;
-    this.entityPluralName = entityPluralName;
+    this.entityName = entity.logicalName;
+    this.entityPluralName = entity.entitySetName;
+    this.primaryIdAttribute = entity.primaryIdAttribute;
+    this.primaryNameAttribute = entity.primaryNameAttribute;
+    this.objectTypeCode = entity.objectTypeCode;
     this.recordData = { ...recordData };
+    this.initialData = { ...recordData };
     this.onSaveCallback = onSave;
   }
 
+  /**
+   * Set the event handlers of the form, read from its FormXML
+   * OnChange handlers are registered on their attributes, ahead of handlers added by scripts.
+   */
+  setFormEvents(events: FormEvent[]): void {
+    this.formEvents = events;
+    events
+      .filter(event => event.name === 'onchange' && event.attribute && event.active && event.functionName)
+      .forEach(event => this.addOnChange(event.attribute!, this.createFormEventHandler(event)));
+  }
+
+  /**
+   * Run the OnLoad handlers of the form
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/form-onload
+   */
+  async fireOnLoad(dataLoadState: number = XRM_DATA_LOAD_STATE.InitialLoad): Promise<void> {
+    await this.fireFormEvent('onload', { eventArgs: new XrmLoadEventArgsImpl(dataLoadState) });
+  }
+
+  /**
+   * Run the OnSave handlers of the form
+   * The returned event arguments tell whether a handler cancelled the save.
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/form-onsave
+   */
+  async fireOnSave(saveMode: number = XRM_SAVE_MODE.Save): Promise<XrmSaveEventArgsImpl> {
+    const eventArgs = new XrmSaveEventArgsImpl(saveMode);
+    await this.fireFormEvent('onsave', { eventSource: this.getFormContext().data.entity, eventArgs }, this.onSaveHandlers);
+    return eventArgs;
+  }
+
+  /**
+   * Run FormXML handlers of a form event, followed by the handlers scripts added
+   */
+  private async fireFormEvent(
+    name: string,
+    options: XrmEventOptions,
+    addedHandlers: Set<XrmEventHandler> = new Set()
+  ): Promise<void> {
+    const handlers = this.formEvents
+      .filter(event => event.name === name && !event.attribute && event.active && event.functionName)
+      .map(event => this.createFormEventHandler(event));
+    await executeAsyncEventHandlers(
+      name,
+      [...handlers, ...Array.from(addedHandlers)],
+      this.getFormContext(),
+      options,
+      this.asyncHandlerTimeout
+    );
+  }
+
+  private createFormEventHandler(event: FormEvent): XrmEventHandler {
+    return createFormEventHandler(event, functionName => this.functionResolver(functionName));
+  }
+
+  /**
+   * Set where the functions named by FormXML event handlers are looked up
+   * Functions are looked up on the app window unless the form runs its libraries in a sandbox.
+   */
+  setFunctionResolver(resolver: (functionName: string) => unknown): void {
+    this.functionResolver = resolver;
+  }
+
+  /**
+   * Set how long the form waits for promises returned by OnLoad and OnSave handlers
+   * Defaults to 10 seconds unless configured here or in localStorage.
+   */
+  setAsyncHandlerTimeout(milliseconds: number): void {
+    this.asyncHandlerTimeout = milliseconds;
+  }
+
+  /**
+   * Set the tables Xrm.WebApi.isAvailableOffline reports as available offline
+   * No table is available offline unless configured here or in localStorage.
+   */
+  setOfflineTables(entityLogicalNames: string[]): void {
+    this.offlineTables = new Set(entityLogicalNames);
+  }
+
   /**
    * Register an attribute (form field)
+   * The column metadata determines the attribute type and the methods the attribute offers.
    */
-  registerAttribute(name: string): void {
+  registerAttribute(name: string, metadata?: AttributeMetadata): void {
     if (!this.attributes.has(name)) {
-      const attribute = new XrmAttributeImpl(name, this);
+      const attribute = createXrmAttribute(name, this, metadata);
       this.attributes.set(name, attribute);
     }
   }
@@ -55,14 +286,178 @@ export class XrmApiImplementation {
   /**
    * Register a control
    */
-  registerControl(name: string, attributeName?: string): void {
+  registerControl(name: string, attributeName?: string, options: XrmControlOptions = {}): void {
     if (!this.controls.has(name)) {
       const attribute = attributeName ? this.attributes.get(attributeName) : null;
-      const control = new XrmControlImpl(name, attribute || null);
+      let control: XrmControlImpl;
+      if (options.grid) {
+        control = new XrmGridControlImpl(name, this, options.grid, options);
+      } else if (options.src !== undefined) {
+        control = new XrmFramedControlImpl(name, this, options);
+      } else {
+        control = new XrmControlImpl(name, attribute || null, this, options);
+      }
       this.controls.set(name, control);
     }
   }
 
+  /**
+   * Give a web resource or IFRAME control the iframe it is rendered in, or null when it is removed
+   */
+  attachControlFrame(name: string, frame: HTMLIFrameElement | null): void {
+    const control = this.controls.get(name);
+    if (control instanceof XrmFramedControlImpl) {
+      control.attachFrame(frame);
+    }
+  }
+
+  /**
+   * Give a subgrid the records it loaded and run its OnLoad handlers
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/subgrid-onload
+   */
+  setGridRecords(name: string, records: XrmGridRecord[], totalRecordCount?: number): void {
+    const control = this.controls.get(name);
+    if (control instanceof XrmGridControlImpl) {
+      control.setRecords(records, totalRecordCount);
+    }
+  }
+
+  /**
+   * Type of the relationship of a subgrid, once the subgrid has resolved it from metadata
+   */
+  setGridRelationshipType(name: string, relationshipType: number): void {
+    const control = this.controls.get(name);
+    if (control instanceof XrmGridControlImpl) {
+      control.setRelationshipType(relationshipType);
+    }
+  }
+
+  /**
+   * Ids of the records selected in a subgrid
+   */
+  setGridSelection(name: string, recordIds: string[]): void {
+    const control = this.controls.get(name);
+    if (control instanceof XrmGridControlImpl) {
+      control.setSelection(recordIds);
+    }
+  }
+
+  /**
+   * Query string parameters web resource and IFRAME controls receive when PassParameters is set
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/webpage-html-web-resources#pass-parameters-to-html-web-resources
+   */
+  getPassParameters(): Record<string, string> {
+    const id = this.recordData[this.primaryIdAttribute];
+    return {
+      typename: this.entityName,
+      ...(this.objectTypeCode !== undefined && { type: String(this.objectTypeCode) }),
+      ...(id && { id: `{${String(id).toUpperCase()}}` }),
+      orgname: ORG_UNIQUE_NAME,
+      userlcid: String(ORG_LCID),
+      orglcid: String(ORG_LCID),
+    };
+  }
+
+  /**
+   * Register a tab and its sections
+   * The first visible tab is selected until a script or the user selects another one.
+   */
+  registerTab(tab: FormTab): void {
+    const name = tab.name || tab.id;
+    if (this.tabs.has(name)) {
+      return;
+    }
+    this.tabs.set(name, new XrmTabImpl(name, tab, this));
+    if (!this.selectedTabName && tab.visible) {
+      this.selectedTabName = name;
+    }
+  }
+
+  getTabState(name: string): XrmTabState | null {
+    return this.tabs.get(name)?.getState() || null;
+  }
+
+  getSectionState(tabName: string, sectionName: string): XrmSectionState | null {
+    return this.tabs.get(tabName)?.getSection(sectionName)?.getState() || null;
+  }
+
+  getSelectedTabName(): string | undefined {
+    return this.selectedTabName;
+  }
+
+  /**
+   * Select a tab, as the user does from the tab list or a script with setDisplayState('expanded')
+   * TabStateChange handlers run on the tab that was collapsed and on the tab that was expanded.
+   */
+  selectTab(name: string): void {
+    const tab = this.tabs.get(name);
+    if (!tab || name === this.selectedTabName) {
+      return;
+    }
+    const previous = this.selectedTabName ? this.tabs.get(this.selectedTabName) : undefined;
+    this.selectedTabName = name;
+    this.tabSelectHandler?.(name);
+    this.notifyStateChange();
+    previous?.fireTabStateChange();
+    tab.fireTabStateChange();
+  }
+
+  /**
+   * Set the function that shows a tab in the UI when a script selects it
+   */
+  setTabSelectHandler(handler: (tabName: string) => void): void {
+    this.tabSelectHandler = handler;
+  }
+
+  /**
+   * Registered controls with the given names, in the order of the names
+   */
+  getControls(names: string[]): XrmControl[] {
+    return names
+      .map(name => this.controls.get(name))
+      .filter((control): control is XrmControlImpl => !!control);
+  }
+
+  /**
+   * Current state of a control, or null when no control with that name is registered
+   */
+  getControlState(name: string): XrmControlState | null {
+    return this.controls.get(name)?.getState() || null;
+  }
+
+  /**
+   * Form notifications in the order they were first set
+   */
+  getFormNotifications(): XrmFormNotification[] {
+    return Array.from(this.notifications.values());
+  }
+
+  /**
+   * Subscribe to state changes made through the API, such as a script hiding a control
+   * Returns a function that removes the listener.
+   */
+  subscribe(listener: () => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  notifyStateChange(): void {
+    this.stateListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Set the function that moves the focus to a control in the UI
+   */
+  setFocusHandler(handler: (controlName: string) => void): void {
+    this.focusHandler = handler;
+  }
+
+  requestFocus(controlName: string): void {
+    this.focusHandler?.(controlName);
+  }
+
   /**
    * Get attribute value from record data
    */
@@ -70,35 +465,86 @@ export class XrmApiImplementation {
     return this.recordData[name];
   }
 
+  /**
+   * Get the value of a lookup attribute
+   * Retrieved values are read from the _<name>_value property and its annotations.
+   */
+  getLookupAttributeValue(name: string, metadata?: AttributeMetadata): LookupValue | null {
+    return getLookupValue(this.recordData, name, metadata);
+  }
+
   /**
    * Set attribute value in record data
+   * As in Dataverse, a value set by a script does not fire OnChange; scripts call fireOnChange.
    */
   setAttributeValue(name: string, value: any): void {
     this.recordData[name] = value;
-    this.isDirty = true;
+    this.dirtyAttributes.add(name);
+    this.notifyStateChange();
+  }
+
+  /**
+   * Set a value the user entered in a control and fire the OnChange handlers of the attribute
+   */
+  changeAttributeValue(name: string, value: any): void {
+    this.setAttributeValue(name, value);
     this.fireOnChange(name);
   }
 
+  /**
+   * Current values of the record, including changes that are not saved
+   */
+  getRecordData(): EntityRecord {
+    return { ...this.recordData };
+  }
+
+  /**
+   * Names of the attributes changed since the form was loaded or last saved
+   */
+  getDirtyAttributeNames(): string[] {
+    return Array.from(this.dirtyAttributes);
+  }
+
+  /**
+   * Value of an attribute when the form was loaded
+   */
+  getInitialAttributeValue(name: string): any {
+    return this.initialData[name];
+  }
+
+  /**
+   * Whether an attribute changed since the form was loaded or last saved
+   */
+  isAttributeDirty(name: string): boolean {
+    return this.dirtyAttributes.has(name);
+  }
+
+  /**
+   * Controls bound to an attribute
+   */
+  getAttributeControls(attributeName: string): XrmControl[] {
+    return Array.from(this.controls.values()).filter(control => control.getAttribute()?.getName() === attributeName);
+  }
+
   /**
    * Fire onChange handlers for an attribute
    */
   fireOnChange(attributeName: string): void {
     const handlers = this.onChangeHandlers.get(attributeName);
     if (handlers) {
-      handlers.forEach(handler => {
-        try {
-          handler();
-        } catch (error) {
-          console.error(`Error in onChange handler for ${attributeName}:`, error);
-        }
-      });
+      executeEventHandlers(
+        `OnChange (${attributeName})`,
+        Array.from(handlers),
+        this.getFormContext(),
+        { eventSource: this.attributes.get(attributeName) || null }
+      );
     }
   }
 
   /**
    * Add onChange handler for an attribute
    */
-  addOnChange(attributeName: string, handler: () => void): void {
+  addOnChange(attributeName: string, handler: XrmEventHandler): void {
     if (!this.onChangeHandlers.has(attributeName)) {
       this.onChangeHandlers.set(attributeName, new Set());
     }
@@ -108,7 +554,7 @@ export class XrmApiImplementation {
   /**
    * Remove onChange handler for an attribute
    */
-  removeOnChange(attributeName: string, handler: () => void): void {
+  removeOnChange(attributeName: string, handler: XrmEventHandler): void {
     const handlers = this.onChangeHandlers.get(attributeName);
     if (handlers) {
       handlers.delete(handler);
@@ -117,39 +563,135 @@ export class XrmApiImplementation {
 
   /**
    * Save the record
+   * OnSave handlers run first and can cancel the save, in which case false is returned. PostSave
+   * handlers run after the save whether it succeeded or not, and data OnLoad handlers after it succeeded.
    */
-  async save(): Promise<void> {
-    const recordId = this.recordData[`${this.entityName}id`];
-    
+  async save(saveMode: number = XRM_SAVE_MODE.Save): Promise<boolean> {
+    if ((await this.fireOnSave(saveMode)).isDefaultPrevented()) {
+      return false;
+    }
+
+    const recordId = this.recordData[this.primaryIdAttribute];
     try {
+      const payload = await this.getSubmitPayload();
       if (recordId) {
         // Update existing record
-        await dataverseClient.updateEntity(this.entityPluralName, recordId, this.recordData);
+        await dataverseClient.updateEntity(this.entityPluralName, recordId, payload);
       } else {
         // Create new record
-        const newRecordId = await dataverseClient.createEntity(this.entityPluralName, this.recordData);
-        this.recordData[`${this.entityName}id`] = newRecordId;
-      }
-      
-      this.isDirty = false;
-      
-      if (this.onSaveCallback) {
-        this.onSaveCallback(this.recordData[`${this.entityName}id`]);
+        const newRecordId = await dataverseClient.createEntity(this.entityPluralName, payload);
+        this.recordData[this.primaryIdAttribute] = newRecordId;
       }
     } catch (error) {
       console.error('Error saving record:', error);
+      this.firePostSave(error);
       throw error;
     }
+
+    this.initialData = { ...this.recordData };
+    this.dirtyAttributes.clear();
+    this.notifyStateChange();
+    this.firePostSave();
+    this.fireDataLoad(XRM_DATA_LOAD_STATE.Save);
+
+    if (this.onSaveCallback) {
+      this.onSaveCallback(this.recordData[this.primaryIdAttribute]);
+    }
+    return true;
+  }
+
+  /**
+   * Reload the record from the server, discarding unsaved changes
+   */
+  async refresh(save?: boolean): Promise<void> {
+    if (save && !await this.save()) {
+      return;
+    }
+    const recordId = this.recordData[this.primaryIdAttribute];
+    if (recordId) {
+      this.recordData = await dataverseClient.fetchEntity(this.entityPluralName, recordId, {
+        includeAnnotations: ALL_ANNOTATIONS,
+      });
+      this.initialData = { ...this.recordData };
+      this.dirtyAttributes.clear();
+      this.notifyStateChange();
+      this.fireDataLoad(XRM_DATA_LOAD_STATE.Refresh);
+    }
+  }
+
+  /**
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/postsave
+   */
+  private firePostSave(saveError?: unknown): void {
+    const entityReference = {
+      entityType: this.entityName,
+      id: this.recordData[this.primaryIdAttribute] || '',
+      name: (this.primaryNameAttribute && this.recordData[this.primaryNameAttribute]) || '',
+    };
+    executeEventHandlers('PostSave', Array.from(this.onPostSaveHandlers), this.getFormContext(), {
+      eventSource: this.getFormContext().data.entity,
+      eventArgs: new XrmPostSaveEventArgsImpl(entityReference, saveError),
+    });
+  }
+
+  /**
+   * Run the handlers added with formContext.data.addOnLoad
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/formcontext-data/addonload
+   */
+  private fireDataLoad(dataLoadState: number): void {
+    executeEventHandlers('OnLoad', Array.from(this.onDataLoadHandlers), this.getFormContext(), {
+      eventArgs: new XrmLoadEventArgsImpl(dataLoadState),
+    });
+  }
+
+  /**
+   * Values to send on save, selected by the submit mode of each attribute
+   * Lookups are written as navigation property bindings.
+   */
+  private async getSubmitPayload(): Promise<EntityRecord> {
+    const submitNames: string[] = [];
+    const metadata = new Map<string, AttributeMetadata>();
+    this.attributes.forEach((attribute, name) => {
+      const submitMode = attribute.getSubmitMode();
+      if (submitMode === 'always' || (submitMode === 'dirty' && this.dirtyAttributes.has(name))) {
+        submitNames.push(name);
+      }
+      const attributeMetadata = attribute.getMetadata();
+      if (attributeMetadata) {
+        metadata.set(name, attributeMetadata);
+      }
+    });
+    const classIds = new Map<string, string>();
+    this.controls.forEach((control) => {
+      const attributeName = control.getAttribute()?.getName();
+      const classid = control.getClassId();
+      if (attributeName && classid && !classIds.has(attributeName)) {
+        classIds.set(attributeName, classid);
+      }
+    });
+
+    return {
+      ...buildSavePayload(this.recordData, submitNames, metadata, classIds),
+      ...await buildLookupBindings(this.entityName, this.recordData, submitNames, metadata),
+    };
   }
 
   /**
    * Create the Xrm API object
    */
   createXrmApi(): XrmStatic {
-    const formContext = this.createFormContext();
+    const formContext = this.getFormContext();
     const xrmPage = this.createXrmPage(formContext);
     
     return {
+      App: {
+        addGlobalNotification: async (notification) => globalNotificationStore.add(notification),
+        clearGlobalNotification: async (uniqueId) => {
+          if (!globalNotificationStore.clear(uniqueId)) {
+            throw new Error(`Global notification not found: ${uniqueId}`);
+          }
+        },
+      },
       Page: xrmPage,
       Utility: this.createXrmUtility(),
       WebApi: this.createXrmWebApi(),
@@ -179,15 +721,29 @@ export class XrmApiImplementation {
     };
   }
 
+  /**
+   * The form context shared by the Xrm API and the execution contexts passed to handlers
+   */
+  getFormContext(): FormContext {
+    if (!this.formContext) {
+      this.formContext = this.createFormContext();
+    }
+    return this.formContext;
+  }
+
   private createFormContext(): FormContext {
     return {
       data: {
         entity: {
-          getId: () => this.recordData[`${this.entityName}id`] || '',
+          getId: () => this.recordData[this.primaryIdAttribute] || '',
           getEntityName: () => this.entityName,
-          getPrimaryAttributeValue: () => this.recordData.name || this.recordData.firstname || '',
-          getIsDirty: () => this.isDirty,
-          save: async () => await this.save(),
+          getPrimaryAttributeValue: () => (this.primaryNameAttribute && this.recordData[this.primaryNameAttribute]) || '',
+          getIsDirty: () => this.dirtyAttributes.size > 0,
+          save: async () => await this.saveFromScript(),
+          addOnSave: (handler) => this.onSaveHandlers.add(handler),
+          removeOnSave: (handler) => this.onSaveHandlers.delete(handler),
+          addOnPostSave: (handler) => this.onPostSaveHandlers.add(handler),
+          removeOnPostSave: (handler) => this.onPostSaveHandlers.delete(handler),
           attributes: {
             get: (name?: string) => {
               if (name) {
@@ -197,26 +753,15 @@ export class XrmApiImplementation {
             },
           } as any,
         },
-        save: async () => await this.save(),
-        refresh: async (save?: boolean) => {
-          if (save) {
-            await this.save();
-          }
-          // Reload form data
-          const recordId = this.recordData[`${this.entityName}id`];
-          if (recordId) {
-            const refreshedData = await dataverseClient.fetchEntity(this.entityPluralName, recordId);
-            this.recordData = refreshedData;
-          }
-        },
+        save: async () => await this.saveFromScript(),
+        refresh: async (save?: boolean) => await this.refresh(save),
+        addOnLoad: (handler) => this.onDataLoadHandlers.add(handler),
+        removeOnLoad: (handler) => this.onDataLoadHandlers.delete(handler),
       },
       ui: {
         tabs: {
-          get: (name?: string) => {
-            // TODO: Implement tab access
-            return name ? null : [];
-          },
-        } as any,
+          get: ((nameOrIndex?: string | number) => getCollectionItem(Array.from(this.tabs.values()), nameOrIndex)) as FormContext['ui']['tabs']['get'],
+        },
         controls: {
           get: (name?: string) => {
             if (name) {
@@ -226,29 +771,21 @@ export class XrmApiImplementation {
           },
         } as any,
         setFormNotification: (message, level, uniqueId) => {
-          this.notifications.set(uniqueId, { message, level });
-          // TODO: Display notification in UI
-          console.log(`[${level}] ${message}`);
+          if (!message || !['ERROR', 'WARNING', 'INFO'].includes(level)) {
+            return false;
+          }
+          this.notifications.set(uniqueId, { uniqueId, message, level });
+          this.notifyStateChange();
+          return true;
         },
         clearFormNotification: (uniqueId) => {
-          this.notifications.delete(uniqueId);
+          const cleared = this.notifications.delete(uniqueId);
+          if (cleared) {
+            this.notifyStateChange();
+          }
+          return cleared;
         },
       },
-      getEventArgs: () => null,
-    };
-  }
-
-  private createXrmPage(formContext: FormContext): XrmPage {
-    return {
-      data: formContext.data,
-      ui: formContext.ui,
-      context: {
-        getUserId: () => '00000000-0000-0000-0000-000000000000',
-        getUserName: () => 'Test User',
-        getOrgUniqueName: () => 'fake4dataverse',
-        getOrgLcid: () => 1033,
-        getUserLcid: () => 1033,
-      },
       getAttribute: ((name?: string) => {
         if (name) {
           return this.attributes.get(name) || null;
@@ -261,6 +798,32 @@ export class XrmApiImplementation {
         }
         return Array.from(this.controls.values());
       }) as any,
+      getEventArgs: () => null,
+    };
+  }
+
+  /**
+   * Save started by a script; the returned promise rejects when an OnSave handler cancels the save
+   */
+  private async saveFromScript(): Promise<void> {
+    if (!await this.save()) {
+      throw new Error('The save was cancelled by an OnSave handler');
+    }
+  }
+
+  private createXrmPage(formContext: FormContext): XrmPage {
+    return {
+      data: formContext.data,
+      ui: formContext.ui,
+      context: {
+        getUserId: () => '00000000-0000-0000-0000-000000000000',
+        getUserName: () => 'Test User',
+        getOrgUniqueName: () => ORG_UNIQUE_NAME,
+        getOrgLcid: () => ORG_LCID,
+        getUserLcid: () => ORG_LCID,
+      },
+      getAttribute: formContext.getAttribute,
+      getControl: formContext.getControl,
     };
   }
 
@@ -299,13 +862,53 @@ export class XrmApiImplementation {
   }
 
   private createXrmWebApi(): XrmWebApi {
-    return {
+    const records: XrmOfflineWebApi = {
       retrieveRecord: async (entityLogicalName, id, options) => {
-        return await dataverseClient.fetchEntity(entityLogicalName + 's', id);
+        const entitySetName = await metadataCache.getEntitySetName(entityLogicalName);
+        const query = parseQueryOptions(options, RETRIEVE_RECORD_OPTIONS);
+        return await dataverseClient.fetchEntity(entitySetName, trimId(id), {
+          select: query.$select?.split(','),
+          expand: query.$expand,
+          includeAnnotations: ALL_ANNOTATIONS,
+        });
       },
       retrieveMultipleRecords: async (entityLogicalName, options, maxPageSize) => {
-        const response = await dataverseClient.fetchEntities(entityLogicalName + 's', {
-          top: maxPageSize || 50,
+        // A nextLink from a previous call continues that query
+        if (options && /^(https?:\/\/|\/api\/data\/)/i.test(options.trim())) {
+          const response = await dataverseClient.fetchNextLink(options.trim(), { maxPageSize, includeAnnotations: ALL_ANNOTATIONS });
+          return {
+            entities: response.value,
+            nextLink: response['@odata.nextLink'],
+          };
+        }
+
+        const entitySetName = await metadataCache.getEntitySetName(entityLogicalName);
+        const query = parseQueryOptions(options, RETRIEVE_MULTIPLE_OPTIONS);
+
+        if (query.fetchXml) {
+          // Pages are requested with count and returned with the fetchxmlpagingcookie annotation
+          // Scripts page by setting page and paging-cookie in their FetchXML, and may set the count there too
+          const scriptCount = parseFetchXml(query.fetchXml).query?.count;
+          const response = await dataverseClient.fetchByFetchXml(entitySetName, query.fetchXml, {
+            count: scriptCount === undefined ? maxPageSize : undefined,
+            includeAnnotations: ALL_ANNOTATIONS,
+          });
+          return {
+            entities: response.value,
+            fetchXmlPagingCookie: response.moreRecords ? response['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie'] : undefined,
+          };
+        }
+
+        const response = await dataverseClient.fetchEntities(entitySetName, {
+          select: query.$select?.split(','),
+          filter: query.$filter,
+          orderby: query.$orderby,
+          expand: query.$expand,
+          top: query.$top !== undefined ? parseInt(query.$top, 10) : undefined,
+          count: query.$count === 'true',
+          skipToken: query.$skiptoken,
+          maxPageSize,
+          includeAnnotations: ALL_ANNOTATIONS,
         });
         return {
           entities: response.value,
@@ -313,93 +916,388 @@ export class XrmApiImplementation {
         };
       },
       createRecord: async (entityLogicalName, data) => {
-        const id = await dataverseClient.createEntity(entityLogicalName + 's', data);
+        const entitySetName = await metadataCache.getEntitySetName(entityLogicalName);
+        const id = await dataverseClient.createEntity(entitySetName, data);
         return { id };
       },
       updateRecord: async (entityLogicalName, id, data) => {
-        await dataverseClient.updateEntity(entityLogicalName + 's', id, data);
+        const entitySetName = await metadataCache.getEntitySetName(entityLogicalName);
+        await dataverseClient.updateEntity(entitySetName, id, data);
         return { id };
       },
       deleteRecord: async (entityLogicalName, id) => {
-        await dataverseClient.deleteEntity(entityLogicalName + 's', id);
+        const entitySetName = await metadataCache.getEntitySetName(entityLogicalName);
+        await dataverseClient.deleteEntity(entitySetName, id);
         return { id };
       },
     };
+
+    // Offline methods behave like the online ones for tables configured as available offline
+    const requireOffline = (entityLogicalName: string) => {
+      if (!this.offlineTables.has(entityLogicalName)) {
+        throw new Error(`Table ${entityLogicalName} is not available offline`);
+      }
+    };
+    const offline: XrmOfflineWebApi = {
+      retrieveRecord: async (entityLogicalName, id, options) => {
+        requireOffline(entityLogicalName);
+        return records.retrieveRecord(entityLogicalName, id, options);
+      },
+      retrieveMultipleRecords: async (entityLogicalName, options, maxPageSize) => {
+        requireOffline(entityLogicalName);
+        return records.retrieveMultipleRecords(entityLogicalName, options, maxPageSize);
+      },
+      createRecord: async (entityLogicalName, data) => {
+        requireOffline(entityLogicalName);
+        return records.createRecord(entityLogicalName, data);
+      },
+      updateRecord: async (entityLogicalName, id, data) => {
+        requireOffline(entityLogicalName);
+        return records.updateRecord(entityLogicalName, id, data);
+      },
+      deleteRecord: async (entityLogicalName, id) => {
+        requireOffline(entityLogicalName);
+        return records.deleteRecord(entityLogicalName, id);
+      },
+    };
+    const isAvailableOffline = (entityLogicalName: string) => this.offlineTables.has(entityLogicalName);
+
+    return {
+      ...records,
+      isAvailableOffline,
+      online: {
+        ...records,
+        isAvailableOffline,
+        execute: executeXrmRequest,
+        executeMultiple: executeMultipleXrmRequests,
+      },
+      offline,
+    };
   }
 }
 
 /**
- * XrmAttribute implementation
+ * XrmControl implementation
+ * State changes are reported to the XrmApiImplementation so the form can render them.
  */
-class XrmAttributeImpl implements XrmAttribute {
+class XrmControlImpl implements XrmControl {
   private name: string;
-  private xrmApi: XrmApiImplementation;
-  private requiredLevel: 'none' | 'required' | 'recommended' = 'none';
+  private attribute: XrmAttribute | null;
+  protected xrmApi: XrmApiImplementation;
+  private disabled: boolean;
+  private visible: boolean;
+  private label: string;
+  private classid?: string;
+  private notifications: Map<string, XrmControlNotification> = new Map();
 
-  constructor(name: string, xrmApi: XrmApiImplementation) {
+  constructor(name: string, attribute: XrmAttribute | null, xrmApi: XrmApiImplementation, options: XrmControlOptions) {
     this.name = name;
+    this.attribute = attribute;
     this.xrmApi = xrmApi;
+    this.disabled = options.disabled ?? false;
+    this.visible = options.visible ?? true;
+    this.label = options.label ?? '';
+    this.classid = options.classid;
   }
 
   getName(): string {
     return this.name;
   }
 
-  getValue(): any {
-    return this.xrmApi.getAttributeValue(this.name);
+  getClassId(): string | undefined {
+    return this.classid;
+  }
+
+  getDisabled(): boolean {
+    return this.disabled;
+  }
+
+  setDisabled(disabled: boolean): void {
+    this.disabled = disabled;
+    this.xrmApi.notifyStateChange();
+  }
+
+  getVisible(): boolean {
+    return this.visible;
+  }
+
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.xrmApi.notifyStateChange();
+  }
+
+  getLabel(): string {
+    return this.label;
+  }
+
+  setLabel(label: string): void {
+    this.label = label;
+    this.xrmApi.notifyStateChange();
   }
 
-  setValue(value: any): void {
-    this.xrmApi.setAttributeValue(this.name, value);
+  getAttribute(): XrmAttribute | null {
+    return this.attribute;
   }
 
-  getRequiredLevel(): 'none' | 'required' | 'recommended' {
-    return this.requiredLevel;
+  setFocus(): void {
+    this.xrmApi.requestFocus(this.name);
   }
 
-  setRequiredLevel(level: 'none' | 'required' | 'recommended'): void {
-    this.requiredLevel = level;
+  setNotification(message: string, uniqueId: string = ''): boolean {
+    if (!message) {
+      return false;
+    }
+    this.addNotification({ messages: [message], notificationLevel: 'ERROR', uniqueId });
+    return true;
   }
 
-  addOnChange(handler: () => void): void {
-    this.xrmApi.addOnChange(this.name, handler);
+  clearNotification(uniqueId?: string): boolean {
+    let cleared: boolean;
+    if (uniqueId === undefined) {
+      cleared = this.notifications.size > 0;
+      this.notifications.clear();
+    } else {
+      cleared = this.notifications.delete(uniqueId);
+    }
+    if (cleared) {
+      this.xrmApi.notifyStateChange();
+    }
+    return cleared;
   }
 
-  removeOnChange(handler: () => void): void {
-    this.xrmApi.removeOnChange(this.name, handler);
+  addNotification(notification: XrmControlNotification): void {
+    this.notifications.set(notification.uniqueId, {
+      ...notification,
+      notificationLevel: notification.notificationLevel || 'ERROR',
+    });
+    this.xrmApi.notifyStateChange();
   }
 
-  fireOnChange(): void {
-    this.xrmApi.fireOnChange(this.name);
+  getState(): XrmControlState {
+    return {
+      disabled: this.disabled,
+      visible: this.visible,
+      label: this.label,
+      notifications: Array.from(this.notifications.values()),
+    };
   }
 }
 
 /**
- * XrmControl implementation
+ * Web resource or IFRAME control
+ * The content window is available once the iframe the form renders for the control has loaded its page.
  */
-class XrmControlImpl implements XrmControl {
-  private name: string;
-  private attribute: XrmAttribute | null;
-  private disabled: boolean = false;
-  private visible: boolean = true;
-  private label: string = '';
+class XrmFramedControlImpl extends XrmControlImpl implements XrmFramedControl {
+  private src: string;
+  private initialUrl: string;
+  private frame: HTMLIFrameElement | null = null;
+  private loadedFrame: HTMLIFrameElement | null = null;
+  private contentWindowWaiters: ((contentWindow: Window) => void)[] = [];
 
-  constructor(name: string, attribute: XrmAttribute | null) {
-    this.name = name;
-    this.attribute = attribute;
+  constructor(name: string, xrmApi: XrmApiImplementation, options: XrmControlOptions) {
+    super(name, null, xrmApi, options);
+    this.src = options.src || '';
+    this.initialUrl = this.src;
+  }
+
+  getContentWindow(): Promise<Window> {
+    if (this.frame?.contentWindow && this.loadedFrame === this.frame) {
+      return Promise.resolve(this.frame.contentWindow);
+    }
+    return new Promise(resolve => this.contentWindowWaiters.push(resolve));
+  }
+
+  getSrc(): string {
+    return this.src;
+  }
+
+  setSrc(src: string): void {
+    this.src = src;
+    this.loadedFrame = null;
+    this.xrmApi.notifyStateChange();
+  }
+
+  getInitialUrl(): string {
+    return this.initialUrl;
+  }
+
+  getObject(): HTMLIFrameElement | null {
+    return this.frame;
+  }
+
+  attachFrame(frame: HTMLIFrameElement | null): void {
+    // Adding the same listener again has no effect when React attaches the same iframe after a render
+    frame?.addEventListener('load', this.handleFrameLoad);
+    this.frame = frame;
+  }
+
+  getState(): XrmControlState {
+    return { ...super.getState(), src: this.src };
+  }
+
+  private handleFrameLoad = (event: Event) => {
+    const frame = event.target as HTMLIFrameElement;
+    if (frame !== this.frame || !frame.contentWindow) {
+      return;
+    }
+    this.loadedFrame = frame;
+    const contentWindow = frame.contentWindow;
+    this.contentWindowWaiters.splice(0).forEach(resolve => resolve(contentWindow));
+  };
+}
+
+/**
+ * Subgrid control
+ * The form renders the records and reports each load, which replaces the rows and runs the OnLoad handlers.
+ */
+class XrmGridControlImpl extends XrmControlImpl implements XrmGridControl {
+  private entityName: string;
+  private relationshipName?: string;
+  private relationshipType = 0;
+  private rows: XrmGridRow[] = [];
+  private selectedIds: Set<string> = new Set();
+  private totalRecordCount = -1;
+  private refreshCount = 0;
+  private onLoadHandlers: Set<XrmEventHandler> = new Set();
+
+  constructor(
+    name: string,
+    xrmApi: XrmApiImplementation,
+    grid: { entityName: string; relationshipName?: string },
+    options: XrmControlOptions
+  ) {
+    super(name, null, xrmApi, options);
+    this.entityName = grid.entityName;
+    this.relationshipName = grid.relationshipName;
+  }
+
+  getGrid(): XrmGrid {
+    return {
+      getRows: () => createGridRowCollection(this.rows),
+      getSelectedRows: () => createGridRowCollection(
+        this.rows.filter(row => this.selectedIds.has(row.getData().entity.getId()))
+      ),
+      getTotalRecordCount: () => this.totalRecordCount,
+    };
+  }
+
+  getEntityName(): string {
+    return this.entityName;
+  }
+
+  getRelationship(): XrmGridRelationship | null {
+    return this.relationshipName ? { name: this.relationshipName, relationshipType: this.relationshipType } : null;
+  }
+
+  refresh(): void {
+    this.refreshCount++;
+    this.xrmApi.notifyStateChange();
+  }
+
+  addOnLoad(handler: XrmEventHandler): void {
+    this.onLoadHandlers.add(handler);
+  }
+
+  removeOnLoad(handler: XrmEventHandler): void {
+    this.onLoadHandlers.delete(handler);
+  }
+
+  setRecords(records: XrmGridRecord[], totalRecordCount?: number): void {
+    this.rows = records.map(record => createGridRow(this.entityName, record));
+    this.selectedIds = new Set();
+    this.totalRecordCount = totalRecordCount ?? -1;
+    executeEventHandlers(
+      `OnLoad (${this.getName()})`,
+      Array.from(this.onLoadHandlers),
+      this.xrmApi.getFormContext(),
+      { eventSource: this }
+    );
+  }
+
+  setSelection(recordIds: string[]): void {
+    this.selectedIds = new Set(recordIds);
+  }
+
+  setRelationshipType(relationshipType: number): void {
+    this.relationshipType = relationshipType;
+  }
+
+  getState(): XrmControlState {
+    return { ...super.getState(), refreshCount: this.refreshCount };
+  }
+}
+
+function createGridRowCollection(rows: XrmGridRow[]): XrmGridRowCollection {
+  return {
+    get: ((index?: number) => index === undefined ? [...rows] : rows[index] || null) as XrmGridRowCollection['get'],
+    getLength: () => rows.length,
+    forEach: (callback) => rows.forEach(callback),
+  };
+}
+
+/**
+ * Row of a subgrid; lookup columns, retrieved as _<name>_value, are exposed under their column name
+ */
+function createGridRow(entityName: string, record: XrmGridRecord): XrmGridRow {
+  const annotated = new AnnotatedRecord(record.data);
+  const attributes: XrmGridAttribute[] = Object.keys(record.data)
+    .filter(key => !key.includes('@'))
+    .map((key) => {
+      const lookupName = key.match(/^_(.+)_value$/)?.[1];
+      return lookupName
+        ? { getName: () => lookupName, getValue: () => annotated.getLookup(lookupName) }
+        : { getName: () => key, getValue: () => record.data[key] ?? null };
+    });
+
+  const entity: XrmGridEntity = {
+    attributes: {
+      get: ((nameOrIndex?: string | number) => getCollectionItem(attributes, nameOrIndex)) as XrmGridEntity['attributes']['get'],
+    },
+    getEntityName: () => entityName,
+    getEntityReference: () => ({ entityType: entityName, id: record.id, name: record.name || '' }),
+    getId: () => record.id,
+    getPrimaryAttributeValue: () => record.name || '',
+  };
+  return { getData: () => ({ entity, getEntity: () => entity }) };
+}
+
+/**
+ * Tab of the form
+ */
+class XrmTabImpl implements XrmTab {
+  private label: string;
+  private visible: boolean;
+  private sectionMap: Map<string, XrmSectionImpl> = new Map();
+  private tabStateChangeHandlers: Set<(executionContext: ExecutionContext) => void> = new Set();
+
+  readonly sections: XrmTab['sections'];
+
+  constructor(private name: string, tab: FormTab, private xrmApi: XrmApiImplementation) {
+    this.label = tab.label;
+    this.visible = tab.visible;
+    tab.sections.forEach((section) => {
+      const sectionName = section.name || section.id;
+      const controlNames = section.rows.flatMap(row => row.cells
+        .map(cell => cell.control?.id)
+        .filter((id): id is string => !!id));
+      this.sectionMap.set(sectionName, new XrmSectionImpl(sectionName, section.label, section.visible, controlNames, this, xrmApi));
+    });
+    this.sections = {
+      get: ((nameOrIndex?: string | number) => getCollectionItem(Array.from(this.sectionMap.values()), nameOrIndex)) as XrmTab['sections']['get'],
+    };
   }
 
   getName(): string {
     return this.name;
   }
 
-  getDisabled(): boolean {
-    return this.disabled;
+  getLabel(): string {
+    return this.label;
   }
 
-  setDisabled(disabled: boolean): void {
-    this.disabled = disabled;
-    // TODO: Update UI
+  setLabel(label: string): void {
+    this.label = label;
+    this.xrmApi.notifyStateChange();
   }
 
   getVisible(): boolean {
@@ -408,7 +1306,77 @@ class XrmControlImpl implements XrmControl {
 
   setVisible(visible: boolean): void {
     this.visible = visible;
-    // TODO: Update UI
+    this.xrmApi.notifyStateChange();
+  }
+
+  getDisplayState(): XrmDisplayState {
+    return this.xrmApi.getSelectedTabName() === this.name ? 'expanded' : 'collapsed';
+  }
+
+  /**
+   * Expanding selects the tab; one tab is always shown, so collapsing the selected tab has no effect
+   */
+  setDisplayState(state: XrmDisplayState): void {
+    if (state === 'expanded') {
+      this.xrmApi.selectTab(this.name);
+    }
+  }
+
+  setFocus(): void {
+    this.xrmApi.selectTab(this.name);
+  }
+
+  addTabStateChange(handler: (executionContext: ExecutionContext) => void): void {
+    this.tabStateChangeHandlers.add(handler);
+  }
+
+  removeTabStateChange(handler: (executionContext: ExecutionContext) => void): void {
+    this.tabStateChangeHandlers.delete(handler);
+  }
+
+  fireTabStateChange(): void {
+    executeEventHandlers(
+      `TabStateChange (${this.name})`,
+      Array.from(this.tabStateChangeHandlers),
+      this.xrmApi.getFormContext(),
+      { eventSource: this }
+    );
+  }
+
+  getSection(name: string): XrmSectionImpl | undefined {
+    return this.sectionMap.get(name);
+  }
+
+  getState(): XrmTabState {
+    return {
+      label: this.label,
+      visible: this.visible,
+      displayState: this.getDisplayState(),
+    };
+  }
+}
+
+/**
+ * Section of a tab
+ */
+class XrmSectionImpl implements XrmSection {
+  readonly controls: XrmSection['controls'];
+
+  constructor(
+    private name: string,
+    private label: string,
+    private visible: boolean,
+    controlNames: string[],
+    private tab: XrmTabImpl,
+    private xrmApi: XrmApiImplementation
+  ) {
+    this.controls = {
+      get: ((nameOrIndex?: string | number) => getCollectionItem(xrmApi.getControls(controlNames), nameOrIndex)) as XrmSection['controls']['get'],
+    };
+  }
+
+  getName(): string {
+    return this.name;
   }
 
   getLabel(): string {
@@ -417,41 +1385,296 @@ class XrmControlImpl implements XrmControl {
 
   setLabel(label: string): void {
     this.label = label;
-    // TODO: Update UI
+    this.xrmApi.notifyStateChange();
   }
 
-  getAttribute(): XrmAttribute | null {
-    return this.attribute;
+  getVisible(): boolean {
+    return this.visible;
   }
 
-  setFocus(): void {
-    // TODO: Focus the control in UI
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.xrmApi.notifyStateChange();
+  }
+
+  getParent(): XrmTab {
+    return this.tab;
+  }
+
+  getState(): XrmSectionState {
+    return { label: this.label, visible: this.visible };
   }
 }
 
+// Values of XrmExecuteRequestMetadata.operationType
+const XRM_OPERATION_TYPE = {
+  Action: 0,
+  Function: 1,
+  CRUD: 2,
+};
+
+// Values of the structuralProperty of a request parameter type
+const STRUCTURAL_PROPERTY = {
+  Collection: 4,
+  EntityType: 5,
+};
+
 /**
- * Execute a form script
+ * Execute an Xrm.WebApi.online request object
+ * Actions are sent with POST, functions with GET and parameter aliases, and CRUD requests
+ * through the record methods of the client.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi/online/execute
  */
-export async function executeFormScript(
-  scriptContent: string,
-  xrmApi: XrmStatic,
-  functionName?: string,
-  ...args: any[]
-): Promise<void> {
-  try {
-    // Attach Xrm to window for scripts
-    (window as any).Xrm = xrmApi;
-    
-    // Execute the script
-    const scriptFunction = new Function('Xrm', scriptContent);
-    scriptFunction(xrmApi);
-    
-    // If a specific function name is provided, call it
-    if (functionName && typeof (window as any)[functionName] === 'function') {
-      await (window as any)[functionName](...args);
+export async function executeXrmRequest(request: XrmExecuteRequest): Promise<XrmExecuteResponse> {
+  const metadata = request.getMetadata();
+  const operationType = metadata.operationType ?? XRM_OPERATION_TYPE.Action;
+
+  if (operationType === XRM_OPERATION_TYPE.CRUD) {
+    return toExecuteResponse(await executeCrudRequest(request, metadata.operationName));
+  }
+
+  const { isFunction, bound, parameters, parameterTypes } = await prepareOperation(request, metadata);
+  const body = isFunction
+    ? await dataverseClient.executeFunction(metadata.operationName, parameters, { bound, parameterTypes })
+    : await dataverseClient.executeAction(metadata.operationName, parameters, { bound });
+  return toExecuteResponse(body);
+}
+
+/**
+ * Execute request objects in one $batch request
+ * Nested arrays are sent as changesets, so their requests succeed or fail together. The batch stops at
+ * the first failure and the promise rejects with its error. Functions and Retrieve requests are GET
+ * requests and cannot be part of a changeset.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-webapi/online/executemultiple
+ */
+export async function executeMultipleXrmRequests(
+  requests: (XrmExecuteRequest | XrmExecuteRequest[])[]
+): Promise<XrmExecuteResponse[]> {
+  const batch = dataverseClient.batch();
+  const operationNames: string[] = [];
+
+  for (const item of requests) {
+    const group = Array.isArray(item) ? item : [item];
+    const batchRequests = await Promise.all(group.map(toBatchRequest));
+    group.forEach(request => operationNames.push(request.getMetadata().operationName));
+    if (Array.isArray(item)) {
+      batch.changeset(changeset => batchRequests.forEach(batchRequest => changeset.request(batchRequest)));
+    } else {
+      batch.request(batchRequests[0]);
     }
-  } catch (error) {
-    console.error('Error executing form script:', error);
-    throw error;
   }
+
+  const results = await batch.execute();
+  const failed = results.find(result => !result.ok);
+  if (failed) {
+    throw failed.error || new Error('The request was not executed because an earlier request failed');
+  }
+
+  return results.map((result, index) => {
+    // Create returns the new record id in the OData-EntityId header, as execute returns it in the body
+    const body = operationNames[index] === 'Create' && result.entityId ? { id: result.entityId } : result.body;
+    return toExecuteResponse(body, result.status);
+  });
+}
+
+/**
+ * Parameters, parameter types and binding of an action or function request object
+ */
+async function prepareOperation(request: XrmExecuteRequest, metadata: XrmExecuteRequestMetadata): Promise<{
+  isFunction: boolean;
+  bound?: OperationBinding;
+  parameters: Record<string, any>;
+  parameterTypes: Record<string, string>;
+}> {
+  const isFunction = metadata.operationType === XRM_OPERATION_TYPE.Function;
+  const bound = metadata.boundParameter ? await toOperationBinding(request[metadata.boundParameter]) : undefined;
+  const parameters: Record<string, any> = {};
+  const parameterTypes: Record<string, string> = {};
+
+  for (const name of getRequestParameterNames(request, metadata)) {
+    if (request[name] === undefined) {
+      continue;
+    }
+    const type = metadata.parameterTypes?.[name];
+    parameters[name] = await toOperationParameter(request[name], type?.structuralProperty, isFunction);
+    if (type) {
+      parameterTypes[name] = type.typeName;
+    }
+  }
+
+  return { isFunction, bound, parameters, parameterTypes };
+}
+
+/**
+ * The $batch operation for a request object
+ */
+async function toBatchRequest(request: XrmExecuteRequest): Promise<BatchRequest> {
+  const metadata = request.getMetadata();
+
+  if (metadata.operationType === XRM_OPERATION_TYPE.CRUD) {
+    const entitySetName = await metadataCache.getEntitySetName(request.etn);
+    const target = request.id ? `${entitySetName}(${trimId(request.id)})` : entitySetName;
+    switch (metadata.operationName) {
+      case 'Create':
+        return { method: 'POST', url: entitySetName, body: request.payload || {} };
+      case 'Retrieve':
+        return { method: 'GET', url: request.columns?.length ? `${target}?$select=${request.columns.join(',')}` : target };
+      case 'Update':
+        return { method: 'PATCH', url: target, body: request.payload || {} };
+      case 'Delete':
+        return { method: 'DELETE', url: target };
+      default:
+        throw new Error(`Unsupported CRUD operation: ${metadata.operationName}`);
+    }
+  }
+
+  const { isFunction, bound, parameters, parameterTypes } = await prepareOperation(request, metadata);
+  return isFunction
+    ? { method: 'GET', url: getFunctionPath(metadata.operationName, parameters, { bound, parameterTypes }) }
+    : { method: 'POST', url: getActionPath(metadata.operationName, bound), body: parameters };
+}
+
+async function executeCrudRequest(request: XrmExecuteRequest, operationName: string): Promise<any> {
+  const entitySetName = await metadataCache.getEntitySetName(request.etn);
+  const id = request.id ? trimId(request.id) : undefined;
+
+  switch (operationName) {
+    case 'Create':
+      return { id: await dataverseClient.createEntity(entitySetName, request.payload || {}) };
+    case 'Retrieve':
+      return dataverseClient.fetchEntity(entitySetName, id!, { select: request.columns });
+    case 'Update':
+      await dataverseClient.updateEntity(entitySetName, id!, request.payload || {});
+      return null;
+    case 'Delete':
+      await dataverseClient.deleteEntity(entitySetName, id!);
+      return null;
+    default:
+      throw new Error(`Unsupported CRUD operation: ${operationName}`);
+  }
+}
+
+/**
+ * Parameters of a request: the properties described by parameterTypes, or all data properties
+ * when the request has no parameter types; the bound parameter is never sent as a parameter
+ */
+function getRequestParameterNames(request: XrmExecuteRequest, metadata: XrmExecuteRequestMetadata): string[] {
+  const names = metadata.parameterTypes
+    ? Object.keys(metadata.parameterTypes)
+    : Object.keys(request).filter(name => typeof request[name] !== 'function');
+  return names.filter(name => name !== metadata.boundParameter);
+}
+
+/**
+ * The table a bound operation runs on; an entity without an id binds the operation to the entity set
+ */
+async function toOperationBinding(entity: { entityType: string; id?: string } | undefined): Promise<OperationBinding | undefined> {
+  if (!entity?.entityType) {
+    return undefined;
+  }
+  return {
+    entitySetName: await metadataCache.getEntitySetName(entity.entityType),
+    id: entity.id ? trimId(entity.id) : undefined,
+  };
+}
+
+/**
+ * Convert entity references ({ entityType, id }) to the form the Web API expects
+ * Actions take the entity with its @odata.type and primary key; functions take an @odata.id reference.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-actions#action-parameters
+ */
+async function toOperationParameter(value: any, structuralProperty: number | undefined, isFunction: boolean): Promise<any> {
+  if (structuralProperty === STRUCTURAL_PROPERTY.Collection && Array.isArray(value)) {
+    return Promise.all(value.map(item => toOperationParameter(item, STRUCTURAL_PROPERTY.EntityType, isFunction)));
+  }
+  if (structuralProperty !== STRUCTURAL_PROPERTY.EntityType || !value?.entityType || !value.id) {
+    return value;
+  }
+
+  const entity = await metadataCache.getEntity(value.entityType);
+  const id = trimId(value.id);
+  if (isFunction) {
+    return { '@odata.id': `${entity.entitySetName}(${id})` };
+  }
+  return {
+    '@odata.type': `Microsoft.Dynamics.CRM.${entity.logicalName}`,
+    [entity.primaryIdAttribute]: id,
+  };
+}
+
+/**
+ * Wrap a response body in a fetch Response-like object, as the real Xrm.WebApi.online.execute returns
+ */
+function toExecuteResponse(body: any, status?: number): XrmExecuteResponse {
+  const text = body === null || body === undefined ? '' : JSON.stringify(body);
+  return {
+    ok: true,
+    status: status ?? (text ? 200 : 204),
+    statusText: text ? 'OK' : 'No Content',
+    headers: text ? { 'content-type': 'application/json' } : {},
+    json: async () => (text ? JSON.parse(text) : null),
+    text: async () => text,
+  };
+}
+
+/**
+ * Parse an options string such as "?$select=name&$filter=revenue gt 1000"
+ * Options the fake service cannot honor are rejected instead of being silently ignored.
+ */
+function parseQueryOptions(options: string | undefined, supported: string[]): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  const query = (options || '').trim().replace(/^\?/, '');
+  if (!query) {
+    return parsed;
+  }
+
+  new URLSearchParams(query).forEach((value, key) => {
+    if (!supported.includes(key)) {
+      throw new Error(`Unsupported query option: ${key}`);
+    }
+    parsed[key] = value;
+  });
+  return parsed;
+}
+
+/**
+ * Item of a collection by name or index, or all items; the behavior of the get method of Xrm collections
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/collections
+ */
+function getCollectionItem<T extends { getName(): string }>(items: T[], nameOrIndex?: string | number): T | T[] | null {
+  if (typeof nameOrIndex === 'number') {
+    return items[nameOrIndex] || null;
+  }
+  if (nameOrIndex) {
+    return items.find(item => item.getName() === nameOrIndex) || null;
+  }
+  return items;
+}
+
+function readOfflineTables(): Set<string> {
+  if (typeof window === 'undefined') {
+    return new Set();
+  }
+  try {
+    const stored = window.localStorage.getItem(OFFLINE_TABLES_STORAGE_KEY);
+    return new Set(stored ? stored.split(',').map(name => name.trim()).filter(name => name) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function readAsyncHandlerTimeout(): number {
+  if (typeof window === 'undefined') {
+    return DEFAULT_ASYNC_HANDLER_TIMEOUT;
+  }
+  try {
+    const stored = Number(window.localStorage.getItem(ASYNC_HANDLER_TIMEOUT_STORAGE_KEY));
+    return stored > 0 ? stored : DEFAULT_ASYNC_HANDLER_TIMEOUT;
+  } catch {
+    return DEFAULT_ASYNC_HANDLER_TIMEOUT;
+  }
+}
+
+function trimId(id: string): string {
+  return id.replace(/[{}]/g, '');
 }
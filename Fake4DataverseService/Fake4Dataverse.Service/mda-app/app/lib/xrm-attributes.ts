@@ -0,0 +1,374 @@
+/**
+ * Form attribute objects of the Xrm API, typed by the column metadata
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes
+ */
+
+import type {
+  XrmAttribute,
+  XrmAttributeType,
+  XrmBooleanAttribute,
+  XrmDateAttribute,
+  XrmEventHandler,
+  XrmLookupAttribute,
+  XrmLookupValue,
+  XrmNumberAttribute,
+  XrmOption,
+  XrmOptionSetAttribute,
+  XrmRequiredLevel,
+  XrmStringAttribute,
+  XrmSubmitMode,
+  XrmUserPrivilege,
+} from './xrm-api-types';
+import type { XrmApiImplementation } from './xrm-api';
+import type { AttributeMetadata } from '../types/dataverse';
+import { getAttributeOptions, getAttributePrecision, isDateOnly } from './attribute-utils';
+import { toLookupValue } from './lookup-utils';
+
+// Limits of numeric columns whose metadata does not include MinValue or MaxValue
+// Reference: https://learn.microsoft.com/en-us/power-apps/maker/data-platform/types-of-fields
+const NUMBER_LIMITS: Partial<Record<XrmAttributeType, { min: number; max: number }>> = {
+  integer: { min: -2147483648, max: 2147483647 },
+  decimal: { min: -100000000000, max: 100000000000 },
+  double: { min: -100000000000, max: 100000000000 },
+  money: { min: -922337203685477, max: 922337203685477 },
+};
+
+/**
+ * Create the attribute object for a column
+ * Without metadata the column is treated as a single line of text.
+ */
+export function createXrmAttribute(
+  name: string,
+  xrmApi: XrmApiImplementation,
+  metadata?: AttributeMetadata
+): XrmAttributeImpl {
+  const type = getXrmAttributeType(metadata);
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+    case 'double':
+    case 'money':
+      return new XrmNumberAttributeImpl(name, type, xrmApi, metadata);
+    case 'string':
+    case 'memo':
+      return new XrmStringAttributeImpl(name, type, xrmApi, metadata);
+    case 'boolean':
+      return new XrmBooleanAttributeImpl(name, type, xrmApi, metadata);
+    case 'datetime':
+      return new XrmDateAttributeImpl(name, type, xrmApi, metadata);
+    case 'lookup':
+      return new XrmLookupAttributeImpl(name, type, xrmApi, metadata);
+    case 'optionset':
+    case 'multiselectoptionset':
+      return new XrmOptionSetAttributeImpl(name, type, xrmApi, metadata);
+    default:
+      return new XrmAttributeImpl(name, type, xrmApi, metadata);
+  }
+}
+
+/**
+ * Attribute type as returned by getAttributeType
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/getattributetype
+ */
+export function getXrmAttributeType(metadata: AttributeMetadata | undefined): XrmAttributeType {
+  if (metadata?.AttributeTypeName?.Value === 'MultiSelectPicklistType') {
+    return 'multiselectoptionset';
+  }
+
+  switch (metadata?.AttributeType) {
+    case 'Boolean':
+      return 'boolean';
+    case 'DateTime':
+      return 'datetime';
+    case 'Decimal':
+      return 'decimal';
+    case 'Double':
+      return 'double';
+    case 'Integer':
+    case 'BigInt':
+      return 'integer';
+    case 'Lookup':
+    case 'Customer':
+    case 'Owner':
+      return 'lookup';
+    case 'Memo':
+      return 'memo';
+    case 'Money':
+      return 'money';
+    case 'Picklist':
+    case 'State':
+    case 'Status':
+      return 'optionset';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * Attribute of any type; the typed subclasses add the methods of their column types
+ */
+export class XrmAttributeImpl implements XrmAttribute {
+  private requiredLevel: XrmRequiredLevel;
+  private submitMode: XrmSubmitMode = 'dirty';
+  private valid = true;
+
+  readonly controls: XrmAttribute['controls'];
+
+  constructor(
+    protected name: string,
+    protected type: XrmAttributeType,
+    protected xrmApi: XrmApiImplementation,
+    protected metadata?: AttributeMetadata
+  ) {
+    this.requiredLevel = toRequiredLevel(metadata?.RequiredLevel?.Value);
+    this.controls = {
+      get: ((nameOrIndex?: string | number) => {
+        const controls = xrmApi.getAttributeControls(name);
+        if (typeof nameOrIndex === 'number') {
+          return controls[nameOrIndex] || null;
+        }
+        if (nameOrIndex) {
+          return controls.find(control => control.getName() === nameOrIndex) || null;
+        }
+        return controls;
+      }) as XrmAttribute['controls']['get'],
+    };
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getValue(): any {
+    const value = this.xrmApi.getAttributeValue(this.name);
+    return value === undefined ? null : value;
+  }
+
+  setValue(value: any): void {
+    this.xrmApi.setAttributeValue(this.name, value);
+  }
+
+  getAttributeType(): XrmAttributeType {
+    return this.type;
+  }
+
+  /**
+   * Column metadata the attribute was created from; not part of the Xrm API
+   */
+  getMetadata(): AttributeMetadata | undefined {
+    return this.metadata;
+  }
+
+  /**
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/getformat
+   */
+  getFormat(): string | null {
+    if (this.type === 'datetime') {
+      return isDateOnly(this.metadata) ? 'date' : 'datetime';
+    }
+    const format = this.metadata?.FormatName?.Value || this.metadata?.Format;
+    return format ? format.toLowerCase() : null;
+  }
+
+  getIsDirty(): boolean {
+    return this.xrmApi.isAttributeDirty(this.name);
+  }
+
+  getRequiredLevel(): XrmRequiredLevel {
+    return this.requiredLevel;
+  }
+
+  setRequiredLevel(level: XrmRequiredLevel): void {
+    this.requiredLevel = level;
+  }
+
+  getSubmitMode(): XrmSubmitMode {
+    return this.submitMode;
+  }
+
+  setSubmitMode(mode: XrmSubmitMode): void {
+    this.submitMode = mode;
+  }
+
+  /**
+   * Privileges from the column metadata; column security profiles are not evaluated
+   */
+  getUserPrivilege(): XrmUserPrivilege {
+    return {
+      canRead: this.metadata?.IsValidForRead !== false,
+      canUpdate: this.metadata?.IsValidForUpdate !== false,
+      canCreate: this.metadata?.IsValidForCreate !== false,
+    };
+  }
+
+  /**
+   * False when a script marked the value invalid or the value breaks a limit of the column
+   */
+  isValid(): boolean {
+    return this.valid && this.isValueValid();
+  }
+
+  /**
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/setisvalid
+   */
+  setIsValid(isValid: boolean, _message?: string): void {
+    this.valid = isValid;
+  }
+
+  addOnChange(handler: XrmEventHandler): void {
+    this.xrmApi.addOnChange(this.name, handler);
+  }
+
+  removeOnChange(handler: XrmEventHandler): void {
+    this.xrmApi.removeOnChange(this.name, handler);
+  }
+
+  fireOnChange(): void {
+    this.xrmApi.fireOnChange(this.name);
+  }
+
+  protected isValueValid(): boolean {
+    return true;
+  }
+}
+
+class XrmNumberAttributeImpl extends XrmAttributeImpl implements XrmNumberAttribute {
+  getMax(): number {
+    return this.metadata?.MaxValue ?? NUMBER_LIMITS[this.type]!.max;
+  }
+
+  getMin(): number {
+    return this.metadata?.MinValue ?? NUMBER_LIMITS[this.type]!.min;
+  }
+
+  getPrecision(): number {
+    return getAttributePrecision(this.metadata, this.type === 'integer' ? 'whole-number' : 'decimal');
+  }
+
+  protected isValueValid(): boolean {
+    const value = this.getValue();
+    return value === null || (value >= this.getMin() && value <= this.getMax());
+  }
+}
+
+class XrmStringAttributeImpl extends XrmAttributeImpl implements XrmStringAttribute {
+  getMaxLength(): number {
+    return this.metadata?.MaxLength ?? (this.type === 'memo' ? 2000 : 100);
+  }
+
+  protected isValueValid(): boolean {
+    const value = this.getValue();
+    return value === null || String(value).length <= this.getMaxLength();
+  }
+}
+
+class XrmBooleanAttributeImpl extends XrmAttributeImpl implements XrmBooleanAttribute {
+  getInitialValue(): boolean | null {
+    return this.xrmApi.getInitialAttributeValue(this.name) ?? null;
+  }
+}
+
+/**
+ * Lookup, customer and owner columns
+ * The value is kept as a single record reference and exposed to scripts as a one-item array.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/getvalue
+ */
+class XrmLookupAttributeImpl extends XrmAttributeImpl implements XrmLookupAttribute {
+  getValue(): XrmLookupValue[] | null {
+    const value = this.xrmApi.getLookupAttributeValue(this.name, this.metadata);
+    return value ? [{ id: value.id, name: value.name, entityType: value.entityType }] : null;
+  }
+
+  setValue(value: XrmLookupValue[] | null): void {
+    super.setValue(toLookupValue(value));
+  }
+}
+
+/**
+ * Date and time columns
+ * The Web API returns ISO strings, which are read as Date objects like the values scripts set.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/getvalue
+ */
+class XrmDateAttributeImpl extends XrmAttributeImpl implements XrmDateAttribute {
+  getValue(): Date | null {
+    const value = super.getValue();
+    if (value === null || value === '') {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value;
+    }
+
+    // Date-only values have no time zone and stand for the local date
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value));
+    const date = dateOnly
+      ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+      : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
+
+/**
+ * Choice and multi-select choice columns
+ * Multi-select values are stored as arrays; the comma-separated string returned by the Web API is
+ * converted when read.
+ */
+class XrmOptionSetAttributeImpl extends XrmAttributeImpl implements XrmOptionSetAttribute {
+  getValue(): number | number[] | null {
+    return this.toOptionValue(super.getValue());
+  }
+
+  getOptions(): XrmOption[] {
+    return getAttributeOptions(this.metadata).map(option => ({ text: option.label, value: option.value }));
+  }
+
+  getOption(value: number | string): XrmOption | null {
+    const options = this.getOptions();
+    return options.find(option => option.value === Number(value))
+      || options.find(option => option.text === value)
+      || null;
+  }
+
+  getSelectedOption(): XrmOption | XrmOption[] | null {
+    const value = this.getValue();
+    if (Array.isArray(value)) {
+      return value.map(v => this.getOption(v)).filter((option): option is XrmOption => !!option);
+    }
+    return value === null ? null : this.getOption(value);
+  }
+
+  getText(): string | string[] | null {
+    const selected = this.getSelectedOption();
+    if (Array.isArray(selected)) {
+      return selected.map(option => option.text);
+    }
+    return selected ? selected.text : null;
+  }
+
+  getInitialValue(): number | number[] | null {
+    return this.toOptionValue(this.xrmApi.getInitialAttributeValue(this.name));
+  }
+
+  private toOptionValue(value: any): number | number[] | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    if (this.type !== 'multiselectoptionset') {
+      return Number(value);
+    }
+    const values = Array.isArray(value) ? value : String(value).split(',');
+    return values.filter(v => v !== '').map(Number);
+  }
+}
+
+function toRequiredLevel(metadataLevel: string | undefined): XrmRequiredLevel {
+  switch (metadataLevel) {
+    case 'SystemRequired':
+    case 'ApplicationRequired':
+      return 'required';
+    case 'Recommended':
+      return 'recommended';
+    default:
+      return 'none';
+  }
+}
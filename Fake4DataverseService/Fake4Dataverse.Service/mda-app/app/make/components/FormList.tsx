@@ -44,12 +44,14 @@ const FORM_TYPE_NAMES: Record<number, string> = {
   0: 'Dashboard',
   1: 'AppointmentBook',
   2: 'Main',
-  4: 'Quick Create',
-  5: 'Quick View Read-Only',
+  3: 'MiniCampaignBO',
+  4: 'Preview',
+  5: 'Mobile - Express',
   6: 'Quick View',
-  7: 'Dialog',
-  8: 'Task Flow',
-  9: 'InteractionCentric',
+  7: 'Quick Create',
+  8: 'Dialog',
+  9: 'Task Flow',
+  10: 'InteractionCentric Dashboard',
   11: 'Card',
   12: 'Main - Interactive experience',
 };
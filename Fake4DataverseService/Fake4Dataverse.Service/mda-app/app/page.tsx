@@ -8,6 +8,7 @@
  * - pagetype: Page type (e.g., "entitylist")
  * - etn: Entity type name
  * - viewid: View ID (SavedQuery GUID)
+ * - webresourceName: Web resource shown when pagetype is "webresource"
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/navigate-to-custom-page-examples
  */
 
@@ -16,9 +17,15 @@ import { makeStyles, tokens, Spinner } from '@fluentui/react-components';
 import Navigation from './components/Navigation';
 import EntityListView from './components/EntityListView';
 import EntityForm from './components/EntityForm';
+import QuickCreatePanel from './components/QuickCreatePanel';
+import GlobalNotificationBar from './components/GlobalNotificationBar';
+import WebResourceFrame from './components/WebResourceFrame';
 import { dataverseClient } from './lib/dataverse-client';
+import { metadataCache } from './lib/metadata-cache';
+import { hasQuickCreateForm } from './lib/system-forms';
 import { parseSiteMapXml } from './lib/sitemap-utils';
-import type { SiteMapDefinition, AppModule, SiteMap } from './types/dataverse';
+import { getWebResourceName, webResourceUrl } from './lib/webresource-route';
+import type { SiteMapDefinition, AppModule, SiteMap, EntityNames } from './types/dataverse';
 
 const useStyles = makeStyles({
   container: {
@@ -32,6 +39,10 @@ const useStyles = makeStyles({
     flexDirection: 'column',
     overflow: 'hidden',
   },
+  frameContainer: {
+    flex: 1,
+    minHeight: 0,
+  },
   loadingContainer: {
     display: 'flex',
     justifyContent: 'center',
@@ -50,30 +61,6 @@ const useStyles = makeStyles({
   },
 });
 
-// Entity plural name mapping
-const ENTITY_PLURAL_NAMES: Record<string, string> = {
-  'account': 'accounts',
-  'contact': 'contacts',
-  'opportunity': 'opportunities',
-  'lead': 'leads',
-  'incident': 'incidents',
-  'knowledgearticle': 'knowledgearticles',
-  'systemuser': 'systemusers',
-  'team': 'teams',
-};
-
-// Entity display names
-const ENTITY_DISPLAY_NAMES: Record<string, string> = {
-  'account': 'Accounts',
-  'contact': 'Contacts',
-  'opportunity': 'Opportunities',
-  'lead': 'Leads',
-  'incident': 'Cases',
-  'knowledgearticle': 'Knowledge Articles',
-  'systemuser': 'Users',
-  'team': 'Teams',
-};
-
 /**
  * Parse URL parameters from window.location
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/navigate-to-custom-page-examples
@@ -88,6 +75,8 @@ function parseUrlParameters() {
     etn: params.get('etn') || undefined,  // Entity type name
     viewid: params.get('viewid') || undefined,
     id: params.get('id') || undefined,  // Record ID for forms
+    extraqs: params.get('extraqs') || undefined,  // Column values for new record forms
+    webresourceName: params.get('webresourceName') || undefined,
   };
 }
 
@@ -101,6 +90,13 @@ export default function Home() {
   const [selectedViewId, setSelectedViewId] = useState<string | undefined>(undefined);
   const [pageType, setPageType] = useState<string | undefined>(undefined);
   const [recordId, setRecordId] = useState<string | undefined>(undefined);
+  const [formParameters, setFormParameters] = useState<string | undefined>(undefined);
+  const [pageUrl, setPageUrl] = useState<string | undefined>(undefined);
+  const [entityNames, setEntityNames] = useState<EntityNames | null>(null);
+  const [entityError, setEntityError] = useState<string | null>(null);
+  const [canQuickCreate, setCanQuickCreate] = useState(false);
+  const [quickCreating, setQuickCreating] = useState(false);
+  const [listRefreshCount, setListRefreshCount] = useState(0);
   
   // Navigation stack for managing back/forward navigation
   // Stack stores navigation states: { entity, viewId, pageType, recordId }
@@ -134,7 +130,9 @@ export default function Home() {
       setPageType(newPageType);
       setSelectedEntity(newEntity);
       setRecordId(newRecordId);
+      setFormParameters(params.extraqs);
       setSelectedViewId(newViewId);
+      setPageUrl(newPageType === 'webresource' && params.webresourceName ? webResourceUrl(params.webresourceName) : undefined);
     };
     
     window.addEventListener('urlchange', handleUrlChange);
@@ -146,6 +144,56 @@ export default function Home() {
     };
   }, []);
 
+  // Resolve entity set name, display names and primary columns of the selected table
+  useEffect(() => {
+    if (!selectedEntity) {
+      setEntityNames(null);
+      return;
+    }
+
+    let cancelled = false;
+    setEntityNames(null);
+    setEntityError(null);
+    metadataCache.getEntity(selectedEntity)
+      .then((names) => {
+        if (!cancelled) {
+          setEntityNames(names);
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading entity metadata:', err);
+        if (!cancelled) {
+          setEntityError(err instanceof Error ? err.message : `Failed to load metadata for ${selectedEntity}`);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedEntity]);
+
+  // Without a quick create form, New in the list opens the main form of the table
+  useEffect(() => {
+    setCanQuickCreate(false);
+    setQuickCreating(false);
+    if (!selectedEntity) {
+      return;
+    }
+
+    let cancelled = false;
+    hasQuickCreateForm(selectedEntity)
+      .catch(() => false)
+      .then((quickCreate) => {
+        if (!cancelled) {
+          setCanQuickCreate(quickCreate);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedEntity]);
+
   const loadSitemap = async () => {
     setLoading(true);
     setError(null);
@@ -179,12 +227,16 @@ export default function Home() {
             const parsedSitemap = parseSiteMapXml(sitemapData.sitemapxml);
             setSitemap(parsedSitemap);
             
-            // Check if entity is specified in URL
-            if (urlParams.etn) {
+            // Check if a web resource or entity is specified in URL
+            if (urlParams.pagetype === 'webresource' && urlParams.webresourceName) {
+              setPageType(urlParams.pagetype);
+              setPageUrl(webResourceUrl(urlParams.webresourceName));
+            } else if (urlParams.etn) {
               setSelectedEntity(urlParams.etn);
               setSelectedViewId(urlParams.viewid);
               setPageType(urlParams.pagetype);
               setRecordId(urlParams.id);
+              setFormParameters(urlParams.extraqs);
             } else {
               // Auto-select first entity
               if (parsedSitemap.areas.length > 0) {
@@ -195,6 +247,9 @@ export default function Home() {
                     const firstSubarea = firstGroup.subareas[0];
                     if (firstSubarea.entity) {
                       setSelectedEntity(firstSubarea.entity);
+                    } else if (firstSubarea.url) {
+                      setPageType('webresource');
+                      setPageUrl(firstSubarea.url);
                     }
                   }
                 }
@@ -227,6 +282,7 @@ export default function Home() {
     setSelectedViewId(undefined); // Reset view when changing entity
     setPageType(undefined); // Clear page type
     setRecordId(undefined); // Clear record ID
+    setPageUrl(undefined);
     
     // Update URL with query parameters
     if (typeof window !== 'undefined' && appModuleId) {
@@ -240,6 +296,33 @@ export default function Home() {
     }
   };
 
+  /**
+   * Show the page of a Url subarea, typically an HTML web resource
+   * This is called from the navigation sidebar - should clear the navigation stack
+   * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resources#reference-web-resources
+   */
+  const handleOpenUrl = (url: string) => {
+    setNavigationStack([]);
+
+    setSelectedEntity(null);
+    setSelectedViewId(undefined);
+    setRecordId(undefined);
+    setPageType('webresource');
+    setPageUrl(url);
+
+    // Only web resources can be addressed with URL parameters
+    const webResourceName = getWebResourceName(url);
+    if (typeof window !== 'undefined' && appModuleId && webResourceName) {
+      const params = new URLSearchParams();
+      params.set('appid', appModuleId);
+      params.set('pagetype', 'webresource');
+      params.set('webresourceName', webResourceName);
+
+      const newUrl = `${window.location.pathname}?${params.toString()}`;
+      window.history.pushState({}, '', newUrl);
+    }
+  };
+
   /**
    * Navigate to a record form
    * This adds to the navigation stack for back navigation
@@ -311,11 +394,13 @@ export default function Home() {
       // If no history, just clear the form/record view
       setPageType(undefined);
       setRecordId(undefined);
+      setFormParameters(undefined);
       
       if (typeof window !== 'undefined') {
         const params = new URLSearchParams(window.location.search);
         params.delete('pagetype');
         params.delete('id');
+        params.delete('extraqs');
         const newUrl = `${window.location.pathname}?${params.toString()}`;
         window.history.pushState({}, '', newUrl);
       }
@@ -351,21 +436,44 @@ export default function Home() {
     );
   }
 
+  // Metadata from the previously selected table is ignored until the new table resolves
+  const resolvedEntity = entityNames?.logicalName === selectedEntity ? entityNames : null;
+
   return (
     <div className={styles.container}>
       <Navigation
         areas={sitemap.areas}
         selectedEntity={selectedEntity || undefined}
+        selectedUrl={pageType === 'webresource' ? pageUrl : undefined}
         onNavigate={handleNavigate}
+        onOpenUrl={handleOpenUrl}
       />
       <main className={styles.main}>
-        {selectedEntity && pageType === 'entityrecord' ? (
+        <GlobalNotificationBar />
+        {pageType === 'webresource' && pageUrl ? (
+          <div className={styles.frameContainer}>
+            <WebResourceFrame url={pageUrl} title={getWebResourceName(pageUrl) || pageUrl} />
+          </div>
+        ) : selectedEntity && entityError ? (
+          <div className={styles.errorContainer}>
+            <h2>Error Loading Table</h2>
+            <p>{entityError}</p>
+          </div>
+        ) : selectedEntity && !resolvedEntity ? (
+          <div className={styles.loadingContainer}>
+            <Spinner label="Loading table metadata..." />
+          </div>
+        ) : selectedEntity && resolvedEntity && pageType === 'entityrecord' ? (
           <EntityForm
             entityName={selectedEntity}
-            entityPluralName={ENTITY_PLURAL_NAMES[selectedEntity] || selectedEntity + 's'}
-            displayName={ENTITY_DISPLAY_NAMES[selectedEntity]}
+            entityPluralName={resolvedEntity.entitySetName}
+            displayName={resolvedEntity.displayName}
+            primaryIdAttribute={resolvedEntity.primaryIdAttribute}
+            primaryNameAttribute={resolvedEntity.primaryNameAttribute}
+            objectTypeCode={resolvedEntity.objectTypeCode}
             recordId={recordId}
             appModuleId={appModuleId || undefined}
+            formParameters={recordId ? undefined : formParameters}
             onClose={() => {
               // Use navigation stack to go back
               handleNavigateBack();
@@ -376,14 +484,29 @@ export default function Home() {
               handleNavigateBack();
             }}
           />
-        ) : selectedEntity ? (
-          <EntityListView
-            entityName={selectedEntity}
-            entityPluralName={ENTITY_PLURAL_NAMES[selectedEntity] || selectedEntity + 's'}
-            displayName={ENTITY_DISPLAY_NAMES[selectedEntity]}
-            appModuleId={appModuleId || undefined}
-            initialViewId={selectedViewId}
-          />
+        ) : selectedEntity && resolvedEntity ? (
+          <>
+            <EntityListView
+              entityName={selectedEntity}
+              entityPluralName={resolvedEntity.entitySetName}
+              displayName={resolvedEntity.displayCollectionName}
+              primaryIdAttribute={resolvedEntity.primaryIdAttribute}
+              appModuleId={appModuleId || undefined}
+              initialViewId={selectedViewId}
+              onNew={canQuickCreate ? () => setQuickCreating(true) : undefined}
+              refreshKey={listRefreshCount}
+            />
+            {quickCreating && (
+              <QuickCreatePanel
+                entityName={selectedEntity}
+                onSaved={() => {
+                  setQuickCreating(false);
+                  setListRefreshCount(count => count + 1);
+                }}
+                onDismiss={() => setQuickCreating(false)}
+              />
+            )}
+          </>
         ) : (
           <div className={styles.welcomeContainer}>
             <h2>Select an entity from the navigation</h2>
@@ -89,6 +89,20 @@ export interface ODataResponse<T> {
   '@odata.nextLink'?: string;
 }
 
+/**
+ * Response of a FetchXML query sent through the fetchXml query parameter
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/retrieve-data?tabs=webapi
+ */
+export interface FetchXmlResponse<T> extends ODataResponse<T> {
+  '@Microsoft.Dynamics.CRM.fetchxmlpagingcookie'?: string;
+  '@Microsoft.Dynamics.CRM.morerecords'?: boolean;
+  '@Microsoft.Dynamics.CRM.totalrecordcount'?: number;
+  '@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'?: boolean;
+  page: number;
+  pagingCookie?: string; // Decoded cookie to pass back when requesting the next page
+  moreRecords: boolean;
+}
+
 /**
  * Generic entity record from OData API
  */
@@ -113,7 +127,7 @@ export interface SystemForm {
   formid: string;
   name: string;
   objecttypecode: string; // Entity logical name
-  type: number; // Form type: 2=Main, 4=Quick Create, 6=Quick View, etc.
+  type: number; // Form type: 2=Main, 6=Quick View, 7=Quick Create, etc.
   formxml?: string;
   description?: string;
   isdefault?: boolean;
@@ -133,6 +147,8 @@ export interface WebResource {
   webresourcetype: number; // 1=HTML, 2=CSS, 3=JavaScript, 4=XML, 5=PNG, etc.
   content?: string; // Base64 encoded content
   languagecode?: number;
+  dependencyxml?: string; // Web resources and columns the web resource depends on
+  modifiedon?: string;
 }
 
 /**
@@ -157,6 +173,7 @@ export interface FormEvent {
   functionName?: string;
   libraryName?: string;
   parameters?: string[];
+  passExecutionContext?: boolean; // Pass the execution context as the first argument; true when not set
 }
 
 export interface FormTab {
@@ -191,6 +208,33 @@ export interface FormControl {
   classid: string;
   label?: string;
   disabled?: boolean;
+  parameters?: FormControlParameters;
+}
+
+/**
+ * Parameters of web resource, IFRAME, subgrid and quick view controls
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/use-iframe-and-web-resource-controls-on-a-form
+ */
+export interface FormControlParameters {
+  url?: string; // Web resource name, or the address an IFRAME shows
+  data?: string; // Custom parameter passed to a web resource as the data query string parameter
+  passParameters?: boolean; // Pass the record and organization as query string parameters
+  height?: number; // Height in pixels
+  scrolling?: string; // auto, yes or no
+  border?: boolean;
+  targetEntityType?: string; // Table a subgrid shows
+  viewId?: string; // View a subgrid shows
+  relationshipName?: string; // Relationship to the form record; subgrids without one show all records
+  recordsPerPage?: number; // Records on each page of a subgrid
+  quickForms?: QuickFormReference[]; // Quick view forms of the tables a quick view control shows
+}
+
+/**
+ * Quick view form a quick view control shows for records of one table
+ */
+export interface QuickFormReference {
+  entityName: string;
+  formId: string;
 }
 
 /**
@@ -254,9 +298,67 @@ export interface EntityDefinition {
   IsActivity?: boolean;
   OwnershipType?: string;
   Attributes?: AttributeMetadata[];
+  OneToManyRelationships?: OneToManyRelationshipMetadata[];
+  ManyToOneRelationships?: OneToManyRelationshipMetadata[];
+  ManyToManyRelationships?: ManyToManyRelationshipMetadata[];
   [key: string]: any;
 }
 
+/**
+ * One-to-many relationship definition, also used for the many-to-one side
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/onetomanyrelationshipmetadata
+ */
+export interface OneToManyRelationshipMetadata {
+  MetadataId?: string;
+  SchemaName: string;
+  ReferencedEntity: string;
+  ReferencedAttribute: string;
+  ReferencingEntity: string;
+  ReferencingAttribute: string;
+  ReferencedEntityNavigationPropertyName?: string; // Collection-valued navigation property on the referenced table
+  ReferencingEntityNavigationPropertyName?: string; // Single-valued navigation property on the referencing table
+}
+
+/**
+ * Many-to-many relationship definition; the records are related through rows of the intersect table
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/manytomanyrelationshipmetadata
+ */
+export interface ManyToManyRelationshipMetadata {
+  MetadataId?: string;
+  SchemaName: string;
+  IntersectEntityName: string;
+  Entity1LogicalName: string;
+  Entity1IntersectAttribute: string;
+  Entity1NavigationPropertyName?: string; // Collection-valued navigation property on Entity1 to Entity2 records
+  Entity2LogicalName: string;
+  Entity2IntersectAttribute: string;
+  Entity2NavigationPropertyName?: string; // Collection-valued navigation property on Entity2 to Entity1 records
+}
+
+/**
+ * Value of a lookup column, in the shape Xrm lookup attributes use
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/getvalue
+ */
+export interface LookupValue {
+  id: string;
+  entityType: string;
+  name?: string;
+}
+
+/**
+ * Naming metadata of a table resolved from its EntityDefinition
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/web-api-service-documents#entity-set-name
+ */
+export interface EntityNames {
+  logicalName: string;
+  entitySetName: string; // Collection name used in Web API URLs
+  displayName: string;
+  displayCollectionName: string;
+  primaryIdAttribute: string;
+  primaryNameAttribute?: string;
+  objectTypeCode?: number;
+}
+
 /**
  * AttributeMetadata - Column/field definition
  * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/attributemetadata
@@ -286,7 +388,53 @@ export interface AttributeMetadata {
   RequiredLevel?: {
     Value: string;
   };
-  [key: string]: any;
+  IsValidForCreate?: boolean;
+  IsValidForRead?: boolean;
+  IsValidForUpdate?: boolean;
+  // Properties of the derived attribute metadata types
+  // Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/attributemetadata#derived-types
+  Format?: string; // StringAttributeMetadata, MemoAttributeMetadata, DateTimeAttributeMetadata
+  FormatName?: {
+    Value: string;
+  };
+  MaxLength?: number;
+  MinValue?: number;
+  MaxValue?: number;
+  Precision?: number;
+  DateTimeBehavior?: {
+    Value: string; // UserLocal, DateOnly, TimeZoneIndependent
+  };
+  OptionSet?: OptionSetMetadata;
+  Targets?: string[]; // LookupAttributeMetadata
+}
+
+/**
+ * Option set of a choice, multi-select choice, two-option, state or status column
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/optionsetmetadata
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/booleanoptionsetmetadata
+ */
+export interface OptionSetMetadata {
+  Name?: string;
+  IsGlobal?: boolean;
+  OptionSetType?: string;
+  Options?: OptionMetadata[];
+  TrueOption?: OptionMetadata;
+  FalseOption?: OptionMetadata;
+}
+
+/**
+ * A single option of an option set
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/optionmetadata
+ */
+export interface OptionMetadata {
+  Value: number;
+  Label?: {
+    UserLocalizedLabel?: {
+      Label: string;
+    };
+  };
+  Color?: string;
+  State?: number; // StatusOptionMetadata
 }
 
 /**
@@ -328,3 +476,23 @@ export interface AuditDetail {
 export interface AuditStatus {
   isAuditEnabled: boolean;
 }
+
+/**
+ * Table an action or function is bound to
+ * Without an id the operation is bound to the entity set (collection-bound).
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/use-web-api-functions#bound-functions
+ */
+export interface OperationBinding {
+  entitySetName: string;
+  id?: string;
+}
+
+/**
+ * Response of the WhoAmI function
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/whoami
+ */
+export interface WhoAmIResponse {
+  BusinessUnitId: string;
+  UserId: string;
+  OrganizationId: string;
+}
@@ -1 +1,15 @@
 import '@testing-library/jest-dom'
+
+// jsdom has no ResizeObserver; Fluent UI MessageBar observes its size to reflow actions
+if (typeof window !== 'undefined' && !window.ResizeObserver) {
+  window.ResizeObserver = class ResizeObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+}
+
+// jsdom has no TextDecoder; web resource content is decoded as UTF-8 with it
+if (typeof window !== 'undefined' && !window.TextDecoder) {
+  window.TextDecoder = require('util').TextDecoder
+}
@@ -0,0 +1,84 @@
+/**
+ * Service worker that serves web resources at /WebResources/<name>
+ * The app is exported as static files, so web resources cannot be served by a Next.js route; this worker
+ * answers requests under /WebResources/ from the Web API instead. Because every web resource has a real
+ * URL, relative references between web resources (./styles.css, ../images/logo.png) resolve as usual.
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resources
+ */
+
+const WEB_RESOURCE_PATH = '/WebResources/';
+const API_BASE_URL = '/api/data/v9.2';
+
+// Content type of each web resource type
+// Reference: https://learn.microsoft.com/en-us/power-apps/developer/data-platform/reference/entities/webresource#webresourcetype-choicesoptions
+const CONTENT_TYPES = {
+  1: 'text/html; charset=utf-8', // Webpage (HTML)
+  2: 'text/css; charset=utf-8', // Style Sheet (CSS)
+  3: 'text/javascript; charset=utf-8', // Script (JScript)
+  4: 'text/xml; charset=utf-8', // Data (XML)
+  5: 'image/png', // PNG format
+  6: 'image/jpeg', // JPG format
+  7: 'image/gif', // GIF format
+  8: 'application/x-silverlight-app', // Silverlight (XAP)
+  9: 'text/xsl; charset=utf-8', // Style Sheet (XSL)
+  10: 'image/x-icon', // ICO format
+  11: 'image/svg+xml; charset=utf-8', // Vector format (SVG)
+  12: 'text/xml; charset=utf-8', // String (RESX)
+};
+
+// Web resource types whose content is text, in which $webresource: directives are resolved
+const TEXT_TYPES = [1, 2, 3, 4, 9, 11, 12];
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || !url.pathname.startsWith(WEB_RESOURCE_PATH)) {
+    return;
+  }
+  event.respondWith(serveWebResource(decodeURIComponent(url.pathname.slice(WEB_RESOURCE_PATH.length))));
+});
+
+/**
+ * Response with the content of a web resource, or 404 when there is no web resource with the name
+ */
+async function serveWebResource(name) {
+  const filter = encodeURIComponent(`name eq '${name.replace(/'/g, "''")}'`);
+  const response = await fetch(`${API_BASE_URL}/webresources?$select=name,webresourcetype,content&$filter=${filter}`, {
+    headers: { 'Accept': 'application/json', 'OData-MaxVersion': '4.0', 'OData-Version': '4.0' },
+  });
+  if (!response.ok) {
+    return new Response(`Failed to load web resource ${name}`, { status: response.status });
+  }
+
+  const webResource = (await response.json()).value[0];
+  if (!webResource) {
+    return new Response(`Web resource ${name} was not found`, { status: 404 });
+  }
+
+  const bytes = decodeBase64(webResource.content || '');
+  const contentType = CONTENT_TYPES[webResource.webresourcetype] || 'application/octet-stream';
+  const body = TEXT_TYPES.includes(webResource.webresourcetype)
+    ? resolveWebResourceDirectives(new TextDecoder('utf-8').decode(bytes))
+    : bytes;
+  return new Response(body, { status: 200, headers: { 'Content-Type': contentType } });
+}
+
+function decodeBase64(content) {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Replace $webresource:<name> references with the URL of the web resource
+ * Reference: https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/web-resources#reference-web-resources
+ */
+function resolveWebResourceDirectives(text) {
+  return text.replace(/\$webresource:([^\s"'()<>]+)/g, (_match, name) => WEB_RESOURCE_PATH + name);
+}